@@ -0,0 +1,236 @@
+import { LlmProvider, LlmRequest, LlmSettings } from './LlmProvider';
+
+/**
+ * Base for providers that talk to a JSON chat endpoint over plain HTTP.
+ */
+abstract class HttpLlmProvider implements LlmProvider {
+    abstract readonly name: string;
+
+    constructor(protected readonly settings: LlmSettings) { }
+
+    abstract complete(request: LlmRequest): Promise<string>;
+
+    protected getUrl(endpoint: string): string {
+        return `${this.settings.baseUrl.replace(/\/+$/, '')}${endpoint}`;
+    }
+
+    protected async postJson(url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<unknown> {
+        const response = await this.post(url, body, headers, signal);
+        const text = await this.readText(response, signal);
+        try {
+            return JSON.parse(text) as unknown;
+        } catch {
+            throw new Error(`${this.name} returned a response that is not JSON`);
+        }
+    }
+
+    /**
+     * Follows object keys and array indices into a parsed reply, returning
+     * undefined as soon as the reply has a different shape.
+     */
+    protected static getField(value: unknown, ...path: (string | number)[]): unknown {
+        let current = value;
+        for (const key of path) {
+            if (typeof current !== 'object' || current === null) {
+                return undefined;
+            }
+            current = (current as Record<string | number, unknown>)[key];
+        }
+        return current;
+    }
+
+    /**
+     * The message of an `{ error: { message } }` or `{ error: "..." }` reply.
+     */
+    protected static getErrorMessage(data: unknown): string | undefined {
+        const error = HttpLlmProvider.getField(data, 'error');
+        const message = HttpLlmProvider.getField(error, 'message') ?? error;
+        return typeof message === 'string' ? message : undefined;
+    }
+
+    /**
+     * Posts a request whose reply is streamed one record per line, passing
+     * each non-empty line to `onLine` as it arrives.
+     */
+    protected async postStream(
+        url: string,
+        body: unknown,
+        headers: Record<string, string>,
+        onLine: (line: string) => void,
+        signal?: AbortSignal
+    ): Promise<void> {
+        const response = await this.post(url, body, headers, signal);
+        if (!response.body) {
+            throw new Error(`${this.name} returned an empty response`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        for (; ;) {
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+                chunk = await reader.read();
+            } catch (error) {
+                throw this.toRequestError(error, url, signal);
+            }
+            buffer += decoder.decode(chunk.value, { stream: !chunk.done });
+
+            const lines = buffer.split('\n');
+            buffer = chunk.done ? '' : lines.pop()!;
+            lines.map(line => line.trim()).filter(line => line !== '').forEach(onLine);
+            if (chunk.done) {
+                return;
+            }
+        }
+    }
+
+    private async post(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal): Promise<Response> {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...headers },
+                body: JSON.stringify(body),
+                signal
+            });
+        } catch (error) {
+            throw this.toRequestError(error, url, signal);
+        }
+
+        if (!response.ok) {
+            const text = await this.readText(response, signal);
+            let data: unknown;
+            try {
+                data = JSON.parse(text);
+            } catch {
+                data = undefined;
+            }
+            const message = HttpLlmProvider.getErrorMessage(data) ?? text;
+            throw new Error(`${this.name} request failed (${response.status}): ${message}`);
+        }
+        return response;
+    }
+
+    private async readText(response: Response, signal?: AbortSignal): Promise<string> {
+        try {
+            return await response.text();
+        } catch (error) {
+            throw this.toRequestError(error, response.url, signal);
+        }
+    }
+
+    private toRequestError(error: unknown, url: string, signal?: AbortSignal): Error {
+        if (signal?.aborted) {
+            return new Error('Cancelled by user');
+        }
+        return new Error(`${this.name} is not reachable at ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Any endpoint that implements the OpenAI `/chat/completions` API: OpenAI
+ * itself, Azure-style proxies, vLLM, LM Studio, llama.cpp's server...
+ * Streamed replies arrive as server-sent events.
+ */
+class OpenAICompatibleProvider extends HttpLlmProvider {
+    readonly name = 'OpenAI-compatible endpoint';
+
+    async complete(request: LlmRequest): Promise<string> {
+        const url = this.getUrl('/chat/completions');
+        const body = {
+            model: this.settings.model,
+            messages: request.messages,
+            temperature: this.settings.temperature,
+            max_tokens: this.settings.maxTokens,
+            ...(request.stop ? { stop: request.stop } : {})
+        };
+        const headers: Record<string, string> = this.settings.apiKey ? { Authorization: `Bearer ${this.settings.apiKey}` } : {};
+
+        let content: string | undefined;
+        if (request.onText) {
+            const onText = request.onText;
+            content = '';
+            await this.postStream(url, { ...body, stream: true }, headers, line => {
+                if (!line.startsWith('data:')) {
+                    return;
+                }
+                const payload = line.slice('data:'.length).trim();
+                if (payload === '[DONE]') {
+                    return;
+                }
+
+                const data: unknown = JSON.parse(payload);
+                const error = HttpLlmProvider.getErrorMessage(data);
+                if (error !== undefined) {
+                    throw new Error(`${this.name} request failed: ${error}`);
+                }
+                const delta = HttpLlmProvider.getField(data, 'choices', 0, 'delta', 'content');
+                if (typeof delta === 'string' && delta !== '') {
+                    content += delta;
+                    onText(delta);
+                }
+            }, request.signal);
+        } else {
+            const data = await this.postJson(url, body, headers, request.signal);
+            const message = HttpLlmProvider.getField(data, 'choices', 0, 'message', 'content');
+            content = typeof message === 'string' ? message : undefined;
+        }
+
+        if (typeof content !== 'string' || content === '') {
+            throw new Error(`No response generated by the ${this.name}`);
+        }
+        return content;
+    }
+}
+
+/**
+ * A local Ollama server (`/api/chat`). Streamed replies arrive as one JSON
+ * object per line.
+ */
+class OllamaProvider extends HttpLlmProvider {
+    readonly name = 'Ollama';
+
+    async complete(request: LlmRequest): Promise<string> {
+        const url = this.getUrl('/api/chat');
+        const body = {
+            model: this.settings.model,
+            messages: request.messages,
+            stream: request.onText !== undefined,
+            options: {
+                temperature: this.settings.temperature,
+                num_predict: this.settings.maxTokens,
+                ...(request.stop ? { stop: request.stop } : {})
+            }
+        };
+
+        let content: string | undefined;
+        if (request.onText) {
+            const onText = request.onText;
+            content = '';
+            await this.postStream(url, body, {}, line => {
+                const data: unknown = JSON.parse(line);
+                const error = HttpLlmProvider.getErrorMessage(data);
+                if (error !== undefined) {
+                    throw new Error(`${this.name} request failed: ${error}`);
+                }
+                const delta = HttpLlmProvider.getField(data, 'message', 'content');
+                if (typeof delta === 'string' && delta !== '') {
+                    content += delta;
+                    onText(delta);
+                }
+            }, request.signal);
+        } else {
+            const data = await this.postJson(url, body, {}, request.signal);
+            const message = HttpLlmProvider.getField(data, 'message', 'content');
+            content = typeof message === 'string' ? message : undefined;
+        }
+
+        if (typeof content !== 'string' || content === '') {
+            throw new Error(`No response generated by ${this.name}`);
+        }
+        return content;
+    }
+}
+
+export { HttpLlmProvider, OpenAICompatibleProvider, OllamaProvider };
@@ -0,0 +1,107 @@
+import { LlmProvider } from './LlmProvider';
+import { ProblemData, ProblemPrompt } from './ProblemPrompt';
+
+interface FailureReport {
+    /** Source of the solution that failed */
+    source: string;
+    /** Markdown code block language, e.g. `cpp` or `python` */
+    language: string;
+    verdict: string;
+    input: string;
+    expectedOutput: string;
+    actualOutput: string;
+    error?: string | null;
+    stderr?: string;
+}
+
+/**
+ * Asks the LLM why a solution fails a test, given the statement, the
+ * source and the test's input, expected and actual output. The analysis
+ * points to the suspect lines by number and suggests edge cases to try.
+ */
+class LlmFailureExplainer {
+    private static readonly systemPrompt = "You are an experienced competitive programmer reviewing a contestant's solution. You find the cause of a failing test quickly, refer to the exact lines responsible, and explain it concisely.";
+    private static readonly maxSourceLength = 20000;
+    private static readonly maxOutputLength = 4000;
+
+    constructor(private readonly provider: LlmProvider) { }
+
+    get providerName(): string {
+        return this.provider.name;
+    }
+
+    /**
+     * @param onText - Receives the analysis as it streams in
+     * @returns the analysis as markdown
+     */
+    async explainFailure(
+        problemData: ProblemData,
+        failure: FailureReport,
+        onText?: (text: string) => void,
+        signal?: AbortSignal
+    ): Promise<string> {
+        try {
+            return await this.provider.complete({
+                messages: [
+                    { role: "system", content: LlmFailureExplainer.systemPrompt },
+                    { role: "user", content: this.constructPrompt(problemData, failure) }
+                ],
+                onText,
+                signal
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message === 'Cancelled by user') {
+                throw error;
+            }
+            console.error(`Error calling ${this.provider.name}:`, error);
+            throw new Error(`Failed to explain the failure: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private constructPrompt(problemData: ProblemData, failure: FailureReport): string {
+        const numberedSource = this.truncate(failure.source, LlmFailureExplainer.maxSourceLength)
+            .split('\n')
+            .map((line, index) => `${String(index + 1).padStart(4)} | ${line}`)
+            .join('\n');
+        const error = failure.error ? `\n\n## Error\n${this.truncate(failure.error, LlmFailureExplainer.maxOutputLength)}` : '';
+        const stderr = failure.stderr ? `\n\n## Stderr\n\`\`\`\n${this.truncate(failure.stderr, LlmFailureExplainer.maxOutputLength)}\n\`\`\`` : '';
+
+        return `My solution to the following Codeforces problem gets the verdict ${failure.verdict} on a test. Explain why.
+
+${ProblemPrompt.describe(problemData)}
+
+## My Solution (with line numbers)
+\`\`\`${failure.language}
+${numberedSource}
+\`\`\`
+
+## Failing Test Input
+\`\`\`
+${this.truncate(failure.input, LlmFailureExplainer.maxOutputLength)}
+\`\`\`
+
+## Expected Output
+\`\`\`
+${this.truncate(failure.expectedOutput, LlmFailureExplainer.maxOutputLength)}
+\`\`\`
+
+## Actual Output
+\`\`\`
+${this.truncate(failure.actualOutput, LlmFailureExplainer.maxOutputLength)}
+\`\`\`${error}${stderr}
+
+## What to write
+Answer in markdown with these sections:
+1. **What goes wrong**: the cause of the wrong output or the crash on this input, in a few sentences
+2. **Suspect lines**: the line numbers responsible and what is wrong with each
+3. **Edge cases**: a few other inputs (small, extreme or special) that are worth testing, and why
+
+Do not rewrite the whole solution; show at most a corrected line or two.`;
+    }
+
+    private truncate(text: string, maxLength: number): string {
+        return text.length > maxLength ? `${text.slice(0, maxLength)}\n... (truncated)` : text;
+    }
+}
+
+export { LlmFailureExplainer, FailureReport };
@@ -0,0 +1,114 @@
+import { Hint, HintLevel } from '../webview/Interfaces';
+import { LlmProvider } from './LlmProvider';
+import { ProblemData, ProblemPrompt } from './ProblemPrompt';
+
+/**
+ * Asks the LLM for a ladder of hints for a problem, from a first
+ * observation to the key data structure. The hints are meant as nudges
+ * while upsolving: the prompt forbids code and full solutions, and any code
+ * block that slips through is removed.
+ */
+class LlmHintGenerator {
+    static readonly levels: HintLevel[] = ['observation', 'approach', 'complexity', 'dataStructure'];
+
+    private static readonly systemPrompt = "You are a competitive programming coach. Students come to you when they are stuck on a problem; you give them hints that let them find the solution themselves, never the solution or any code.";
+
+    constructor(private readonly provider: LlmProvider) { }
+
+    get providerName(): string {
+        return this.provider.name;
+    }
+
+    /**
+     * @returns one hint per level, in the order of `LlmHintGenerator.levels`
+     */
+    async generateHints(problemData: ProblemData, signal?: AbortSignal): Promise<Hint[]> {
+        let reply: string;
+        try {
+            reply = await this.provider.complete({
+                messages: [
+                    { role: "system", content: LlmHintGenerator.systemPrompt },
+                    { role: "user", content: this.constructPrompt(problemData) }
+                ],
+                signal
+            });
+        } catch (error) {
+            if (error instanceof Error && error.message === 'Cancelled by user') {
+                throw error;
+            }
+            console.error(`Error calling ${this.provider.name}:`, error);
+            throw new Error(`Failed to generate hints: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        return this.parseHints(reply);
+    }
+
+    private constructPrompt(problemData: ProblemData): string {
+        return `I am upsolving the following Codeforces problem and I am stuck. Give me hints, not the solution.
+
+${ProblemPrompt.describe(problemData)}
+
+## Hints to write
+Write four hints, each one more specific than the one before:
+1. **observation**: a key property of the problem that the solution relies on, without saying how to use it
+2. **approach**: the general technique to use (for example greedy, binary search on the answer, dynamic programming over prefixes), without the details
+3. **complexity**: the time complexity to aim for and why the constraints allow it
+4. **dataStructure**: the key data structure or trick that makes the approach fast enough
+
+Never write code, pseudocode or the complete algorithm. Keep each hint to one to three sentences.
+
+## Output Format
+Reply with ONLY a JSON array of four objects in the order above, each of the form {"level": "observation", "hint": "..."}.`;
+    }
+
+    private parseHints(reply: string): Hint[] {
+        const start = reply.indexOf('[');
+        const end = reply.lastIndexOf(']');
+        let items: unknown;
+        try {
+            items = start !== -1 && end > start ? JSON.parse(reply.slice(start, end + 1)) : undefined;
+        } catch {
+            items = undefined;
+        }
+        if (!Array.isArray(items)) {
+            throw new Error(`${this.provider.name} did not return the hints in the expected format`);
+        }
+        const entries: unknown[] = items;
+
+        return LlmHintGenerator.levels.map((level, index) => {
+            // Prefer the item labelled with the level, fall back to its position
+            const item = entries.find(entry => LlmHintGenerator.getField(entry, 'level') === level) ?? entries[index];
+            const hint = LlmHintGenerator.getHintText(item);
+            const text = hint !== undefined ? this.removeCode(hint) : '';
+            if (text === '') {
+                throw new Error(`${this.provider.name} did not return a usable "${level}" hint`);
+            }
+            return { level, text };
+        });
+    }
+
+    private static getField(entry: unknown, key: string): unknown {
+        return typeof entry === 'object' && entry !== null ? (entry as Record<string, unknown>)[key] : undefined;
+    }
+
+    /**
+     * Models answer with `{"hint": "..."}` as asked, but sometimes with a
+     * `text` field or a bare string instead.
+     */
+    private static getHintText(entry: unknown): string | undefined {
+        if (typeof entry === 'string') {
+            return entry;
+        }
+        const hint = LlmHintGenerator.getField(entry, 'hint') ?? LlmHintGenerator.getField(entry, 'text');
+        return typeof hint === 'string' ? hint : undefined;
+    }
+
+    /**
+     * Drops code blocks, so a hint never hands over an implementation.
+     */
+    private removeCode(hint: string): string {
+        return hint.replace(/```[\s\S]*?(```|$)/g, '').trim();
+    }
+}
+
+export { LlmHintGenerator };
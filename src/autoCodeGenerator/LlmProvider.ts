@@ -0,0 +1,34 @@
+export type LlmProviderName = 'mistral' | 'openai' | 'ollama';
+
+export interface LlmMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LlmRequest {
+    messages: LlmMessage[];
+    stop?: string[];
+    /** Aborts the request; the provider then rejects with "Cancelled by user" */
+    signal?: AbortSignal;
+    /** When set, the reply is streamed and each piece is passed here as it arrives */
+    onText?: (text: string) => void;
+}
+
+export interface LlmSettings {
+    provider: LlmProviderName;
+    model: string;
+    baseUrl: string;
+    apiKey?: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+/**
+ * A chat completion backend. Implementations take the model, temperature and
+ * token limit from the settings they were created with. `complete` resolves
+ * with the whole reply, whether or not it was streamed.
+ */
+export interface LlmProvider {
+    readonly name: string;
+    complete(request: LlmRequest): Promise<string>;
+}
@@ -0,0 +1,35 @@
+import { LlmProvider, LlmProviderName, LlmSettings } from './LlmProvider';
+import { MistralProvider } from './MistralProvider';
+import { OllamaProvider, OpenAICompatibleProvider } from './HttpLlmProvider';
+
+class LlmProviderFactory {
+    static readonly defaultModels: Record<LlmProviderName, string> = {
+        mistral: 'mistral-large-latest',
+        openai: 'gpt-4o-mini',
+        ollama: 'llama3.1'
+    };
+
+    static readonly defaultBaseUrls: Record<LlmProviderName, string> = {
+        mistral: 'https://api.mistral.ai',
+        openai: 'https://api.openai.com/v1',
+        ollama: 'http://localhost:11434'
+    };
+
+    static create(settings: LlmSettings): LlmProvider {
+        switch (settings.provider) {
+            case 'mistral':
+                if (!settings.apiKey) {
+                    throw new Error('Mistral API key not found. Run the "Set API Key" command to store it.');
+                }
+                return new MistralProvider(settings);
+            case 'openai':
+                return new OpenAICompatibleProvider(settings);
+            case 'ollama':
+                return new OllamaProvider(settings);
+            default:
+                throw new Error(`Unknown LLM provider "${settings.provider}"`);
+        }
+    }
+}
+
+export { LlmProviderFactory };
@@ -0,0 +1,170 @@
+import { LlmMessage, LlmProvider } from './LlmProvider';
+import { ProblemData, ProblemPrompt, TestCase } from './ProblemPrompt';
+
+interface VerifiedTemplate {
+    code: string;
+    passed: boolean;
+    repairRounds: number;
+    /** Why the last version still fails, when it never passed */
+    failure?: string;
+}
+
+interface GenerationOptions {
+    /** Called before each verification and repair round */
+    onProgress?: (message: string) => void;
+    /** Called when the model starts writing a new version of the template */
+    onAttempt?: (round: number) => void;
+    /** Receives the model's reply as it streams in */
+    onText?: (text: string) => void;
+    /** Aborts the running request; generation then throws "Cancelled by user" */
+    signal?: AbortSignal;
+}
+
+class LlmTemplateGenerator {
+    private static readonly systemPrompt = "You are an expert competitive programming mentor who specializes in converting Codeforces problems into clean, LeetCode-style C++ templates. Always provide complete, compilable code with proper input parsing and a clean solve function.";
+    private static readonly maxFailureLength = 4000;
+
+    constructor(private readonly provider: LlmProvider) { }
+
+    get providerName(): string {
+        return this.provider.name;
+    }
+
+    /**
+     * Generates a C++ template and checks it with `verify`, which returns a
+     * description of the problem (compiler errors, a crash...) or `undefined`
+     * when the template is fine. Failures are sent back to the model for up
+     * to `maxRepairRounds` more attempts.
+     */
+    async generateVerifiedCppTemplate(
+        problemData: ProblemData,
+        verify: (code: string) => Promise<string | undefined>,
+        maxRepairRounds: number,
+        options: GenerationOptions = {}
+    ): Promise<VerifiedTemplate> {
+        const { onProgress = () => { }, signal } = options;
+        const isCancelled = () => signal?.aborted ?? false;
+        const messages: LlmMessage[] = [
+            { role: "system", content: LlmTemplateGenerator.systemPrompt },
+            { role: "user", content: this.constructPrompt(problemData) }
+        ];
+
+        try {
+            let code = await this.requestCode(messages, options, 0);
+            for (let round = 0; ; round++) {
+                if (isCancelled()) {
+                    throw new Error('Cancelled by user');
+                }
+                onProgress(round === 0 ? 'Compiling and running the samples...' : `Checking repair ${round} of ${maxRepairRounds}...`);
+
+                const failure = await verify(code);
+                if (failure === undefined) {
+                    return { code, passed: true, repairRounds: round };
+                }
+                if (round >= maxRepairRounds || isCancelled()) {
+                    return { code, passed: false, repairRounds: round, failure };
+                }
+
+                onProgress(`Asking ${this.provider.name} to fix the template (${round + 1}/${maxRepairRounds})...`);
+                messages.push(
+                    { role: "assistant", content: code },
+                    { role: "user", content: this.constructRepairPrompt(failure) }
+                );
+                code = await this.requestCode(messages, options, round + 1);
+            }
+        } catch (error) {
+            if (error instanceof Error && error.message === 'Cancelled by user') {
+                throw error;
+            }
+            console.error(`Error calling ${this.provider.name}:`, error);
+            throw new Error(`Failed to generate template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private async requestCode(messages: LlmMessage[], options: GenerationOptions = {}, round = 0): Promise<string> {
+        if (options.signal?.aborted) {
+            throw new Error('Cancelled by user');
+        }
+        options.onAttempt?.(round);
+
+        const generatedCode = await this.provider.complete({
+            messages,
+            stop: ["```\n\n", "---"], // Stop at common delimiters
+            signal: options.signal,
+            onText: options.onText
+        });
+
+        // Clean up the response - extract C++ code if wrapped in markdown
+        return this.cleanupGeneratedCode(generatedCode);
+    }
+
+    private constructRepairPrompt(failure: string): string {
+        const details = failure.length > LlmTemplateGenerator.maxFailureLength
+            ? `${failure.slice(0, LlmTemplateGenerator.maxFailureLength)}\n... (truncated)`
+            : failure;
+
+        return `The template above was compiled and run on the sample inputs, and it failed:
+
+${details}
+
+Fix the template so that it compiles and reads the sample input completely without crashing. Keep the solve function empty.
+Provide ONLY the complete corrected C++ code without any markdown formatting or explanations.`;
+    }
+
+    /**
+     * Constructs the prompt for the LLM
+     */
+    private constructPrompt(problemData: ProblemData): string {
+        return `Convert the following Codeforces problem into a clean C++ template with LeetCode-style structure. You're job is to just handle the IO and to not right the actual logic to solve the problem:
+
+${ProblemPrompt.describe(problemData)}
+
+## Requirements for Generated Template:
+
+1. **Include all necessary headers** (iostream, vector, string, algorithm, etc.)
+2. **Parse input exactly according to the input format** - handle multiple test cases if needed
+3. **Create a clean solve function** with appropriate parameters and return type that follows LeetCode style. BUT MAKE SURE THAT THE FUNCTION IS EMPTY
+4. **Handle the main function** to read input, call solve, and output results properly
+5. **Add clear comments** explaining the input parsing logic and function signature
+6. **Use standard competitive programming optimizations** (fast I/O)
+7. **Ensure the template compiles without errors**
+
+## Output Format:
+Provide ONLY the complete C++ code without any markdown formatting or explanations. The code should be ready to compile and run.
+
+Generate the C++ template now:`;
+    }
+
+    /**
+     * Cleans up the generated code from potential markdown formatting
+     */
+    private cleanupGeneratedCode(code: string): string {
+        // Remove markdown code block markers if present
+        let cleanCode = code.replace(/^```cpp\n?/gm, '').replace(/^```\n?/gm, '');
+        
+        // Remove any trailing markdown or extra content
+        const lines = cleanCode.split('\n');
+        let codeLines: string[] = [];
+        let inCodeBlock = false;
+        
+        for (const line of lines) {
+            // If we encounter #include, we're definitely in code
+            if (line.trim().startsWith('#include') || line.trim().startsWith('using namespace')) {
+                inCodeBlock = true;
+            }
+            
+            if (inCodeBlock) {
+                codeLines.push(line);
+            }
+        }
+        
+        // If we didn't find clear code markers, return the cleaned version
+        if (codeLines.length === 0) {
+            return cleanCode.trim();
+        }
+        
+        return codeLines.join('\n').trim();
+    }
+}
+
+export { LlmTemplateGenerator, ProblemData, TestCase, VerifiedTemplate, GenerationOptions };
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { Mistral } from '@mistralai/mistralai';
+import { ContentChunk } from '@mistralai/mistralai/models/components';
+
+import { LlmProvider, LlmRequest, LlmSettings } from './LlmProvider';
+
+class MistralProvider implements LlmProvider {
+    readonly name = 'Mistral';
+    private client: Mistral;
+
+    constructor(private readonly settings: LlmSettings) {
+        this.client = new Mistral({ apiKey: settings.apiKey, serverURL: settings.baseUrl });
+    }
+
+    async complete(request: LlmRequest): Promise<string> {
+        const chatRequest = {
+            model: this.settings.model,
+            messages: request.messages,
+            temperature: this.settings.temperature,
+            maxTokens: this.settings.maxTokens,
+            stop: request.stop
+        };
+        const options = { fetchOptions: { signal: request.signal } };
+
+        let text = '';
+        try {
+            if (request.onText) {
+                const stream = await this.client.chat.stream(chatRequest, options);
+                for await (const event of stream) {
+                    const delta = this.getText(event.data.choices[0]?.delta.content);
+                    if (delta) {
+                        text += delta;
+                        request.onText(delta);
+                    }
+                }
+                // The SDK ends an aborted stream without an error
+                if (request.signal?.aborted) {
+                    throw new Error('Cancelled by user');
+                }
+            } else {
+                const chatResponse = await this.client.chat.complete(chatRequest, options);
+                text = this.getText(chatResponse.choices?.[0]?.message.content);
+            }
+        } catch (error) {
+            if (request.signal?.aborted) {
+                throw new Error('Cancelled by user');
+            }
+            throw error;
+        }
+
+        if (!text) {
+            throw new Error('No response generated from Mistral API');
+        }
+        return text;
+    }
+
+    private getText(content: string | ContentChunk[] | null | undefined): string {
+        return Array.isArray(content)
+            ? content.map((chunk: ContentChunk) => chunk.type === 'text' ? chunk.text : '').join('')
+            : content ?? '';
+    }
+}
+
+export { MistralProvider };
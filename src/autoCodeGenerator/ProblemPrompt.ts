@@ -0,0 +1,51 @@
+// Interface matching your existing structure
+interface TestCase {
+    input: string;
+    output: string;
+    explanation?: string;
+}
+
+interface ProblemData {
+    title: string;
+    timeLimit: string;
+    memoryLimit: string;
+    description: string;
+    inputFormat: string;
+    outputFormat: string;
+    sampleTests: TestCase[];
+    source: string;
+    difficulty?: string;
+}
+
+/**
+ * The problem statement as markdown, shared by the prompts of the
+ * different generators.
+ */
+class ProblemPrompt {
+    static describe(problemData: ProblemData): string {
+        const sampleTestsFormatted = problemData.sampleTests.map((test, index) => 
+            `Sample ${index + 1}:\nInput:\n${test.input}\nOutput:\n${test.output}${test.explanation ? `\nExplanation: ${test.explanation}` : ''}`
+        ).join('\n\n');
+
+        return `## Problem Details
+**Title**: ${problemData.title}
+**Time Limit**: ${problemData.timeLimit}
+**Memory Limit**: ${problemData.memoryLimit}
+**Difficulty**: ${problemData.difficulty || 'Not specified'}
+**Source**: ${problemData.source}
+
+## Problem Description
+${problemData.description}
+
+## Input Format
+${problemData.inputFormat}
+
+## Output Format  
+${problemData.outputFormat}
+
+## Sample Test Cases
+${sampleTestsFormatted}`;
+    }
+}
+
+export { ProblemPrompt, ProblemData, TestCase };
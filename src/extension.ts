@@ -1,30 +1,32 @@
 import * as vscode from "vscode";
 import { ProblemWebviewProvider } from "./webview/ProblemWebViewProvider";
-
-import * as dotenv from "dotenv";
-import * as path from "path";
-
-dotenv.config({ path: path.join(__dirname, "..", ".env") });
+import { CompilerProfiles } from "./webview/CompilerProfiles";
+import { ContestOverviewProvider } from "./webview/ContestOverviewProvider";
+import { CompanionReceiver } from "./webview/CompanionReceiver";
+import { SubmissionPreparer } from "./webview/SubmissionPreparer";
+import { ProblemExplorerProvider } from "./webview/ProblemExplorerProvider";
+import { ProblemsetBrowserProvider } from "./webview/ProblemsetBrowserProvider";
+import { ProgressStatsProvider } from "./webview/ProgressStatsProvider";
 
 export function activate(context: vscode.ExtensionContext) {
   try {
     vscode.window.showInformationMessage("✅ Extension Activated!");
 
     const problemWebviewProvider = new ProblemWebviewProvider(
-      context.extensionUri
+      context.extensionUri,
+      context.globalStorageUri,
+      context.secrets
     );
 
-    const mistralKey =
-      process.env.MISTRAL_API_KEY ||
-      vscode.workspace
-        .getConfiguration("smartCodeforcesHelper")
-        .get("mistralApiKey");
+    const contestOverviewProvider = new ContestOverviewProvider(
+      problemWebviewProvider
+    );
+
+    const companionReceiver = new CompanionReceiver(
+      problemWebviewProvider,
+      contestOverviewProvider
+    );
 
-    if (!mistralKey) {
-      throw new Error(
-        "Mistral API key not found. Please set it in VS Code settings or MISTRAL_API_KEY environment variable."
-      );
-    }
     const helloWorld = vscode.commands.registerCommand(
       "smart-codeforces-helper.helloWorld",
       () => {
@@ -47,8 +49,8 @@ export function activate(context: vscode.ExtensionContext) {
       async () => {
         try {
           const input = await vscode.window.showInputBox({
-            placeHolder: "Enter the url to your problem here",
-            prompt: "Please enter a valid Codeforces problem URL",
+            placeHolder: "Enter a problem URL or ID, e.g. 1850G",
+            prompt: "Please enter a Codeforces problem URL or ID",
           });
 
           if (input) {
@@ -81,11 +83,311 @@ export function activate(context: vscode.ExtensionContext) {
       }
     );
 
+    const loadContest = vscode.commands.registerCommand(
+      "smart-codeforces-helper.loadContest",
+      async () => {
+        try {
+          const input = await vscode.window.showInputBox({
+            placeHolder: "Enter a contest ID or URL, e.g. 1352",
+            prompt: "Please enter a Codeforces contest ID or URL",
+          });
+
+          if (input) {
+            await contestOverviewProvider.loadContest(input);
+          }
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error loading contest: ${err}`);
+        }
+      }
+    );
+
+    const toggleCompanionListener = vscode.commands.registerCommand(
+      "smart-codeforces-helper.toggleCompanionListener",
+      async () => {
+        await companionReceiver.toggle();
+      }
+    );
+
+    const stressTest = vscode.commands.registerCommand(
+      "smart-codeforces-helper.stressTest",
+      async () => {
+        await problemWebviewProvider.runStressTest();
+      }
+    );
+
+    const createTemplate = vscode.commands.registerCommand(
+      "smart-codeforces-helper.createTemplate",
+      async () => {
+        try {
+          await problemWebviewProvider.templateGenerator.createTemplate();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error creating template: ${err}`);
+        }
+      }
+    );
+
+    const editTemplate = vscode.commands.registerCommand(
+      "smart-codeforces-helper.editTemplate",
+      async () => {
+        try {
+          await problemWebviewProvider.templateGenerator.editTemplate();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error editing template: ${err}`);
+        }
+      }
+    );
+
+    const selectDefaultTemplate = vscode.commands.registerCommand(
+      "smart-codeforces-helper.selectDefaultTemplate",
+      async () => {
+        try {
+          await problemWebviewProvider.templateGenerator.selectDefaultTemplate();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error selecting default template: ${err}`);
+        }
+      }
+    );
+
+    const setApiKey = vscode.commands.registerCommand(
+      "smart-codeforces-helper.setApiKey",
+      async () => {
+        try {
+          await problemWebviewProvider.llmConfiguration.setApiKey();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error setting API key: ${err}`);
+        }
+      }
+    );
+
+    const clearApiKey = vscode.commands.registerCommand(
+      "smart-codeforces-helper.clearApiKey",
+      async () => {
+        try {
+          await problemWebviewProvider.llmConfiguration.clearApiKey();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error clearing API key: ${err}`);
+        }
+      }
+    );
+
+    const submissionPreparer = new SubmissionPreparer();
+
+    const prepareSubmission = vscode.commands.registerCommand(
+      "smart-codeforces-helper.prepareSubmission",
+      async () => {
+        try {
+          await submissionPreparer.prepare();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error preparing submission: ${err}`);
+        }
+      }
+    );
+
+    const refreshProblem = vscode.commands.registerCommand(
+      "smart-codeforces-helper.refreshProblem",
+      async () => {
+        try {
+          await problemWebviewProvider.refreshProblem();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error refreshing problem: ${err}`);
+        }
+      }
+    );
+
+    const clearProblemCache = vscode.commands.registerCommand(
+      "smart-codeforces-helper.clearProblemCache",
+      async () => {
+        const answer = await vscode.window.showWarningMessage(
+          "Remove all cached problems?",
+          { modal: true },
+          "Clear Cache"
+        );
+        if (answer !== "Clear Cache") {
+          return;
+        }
+        try {
+          const removed = problemWebviewProvider.clearProblemCache();
+          vscode.window.showInformationMessage(
+            `Removed ${removed} cached problem(s)`
+          );
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error clearing problem cache: ${err}`);
+        }
+      }
+    );
+
+    const problemExplorer = new ProblemExplorerProvider(problemWebviewProvider);
+    const problemExplorerView = vscode.window.createTreeView(
+      ProblemExplorerProvider.viewId,
+      { treeDataProvider: problemExplorer }
+    );
+
+    const openProblemStatement = vscode.commands.registerCommand(
+      "smart-codeforces-helper.openProblemStatement",
+      (item) => {
+        try {
+          problemExplorer.openStatement(item);
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error opening problem statement: ${err}`);
+        }
+      }
+    );
+
+    const openProblemSource = vscode.commands.registerCommand(
+      "smart-codeforces-helper.openProblemSource",
+      async (item) => {
+        try {
+          await problemExplorer.openSource(item);
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error opening source file: ${err}`);
+        }
+      }
+    );
+
+    const runProblemTests = vscode.commands.registerCommand(
+      "smart-codeforces-helper.runProblemTests",
+      async (item) => {
+        try {
+          await problemExplorer.runTests(item);
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error running tests: ${err}`);
+        }
+      }
+    );
+
+    const removeProblem = vscode.commands.registerCommand(
+      "smart-codeforces-helper.removeProblem",
+      async (item) => {
+        try {
+          await problemExplorer.remove(item);
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error removing problem: ${err}`);
+        }
+      }
+    );
+
+    const refreshProblemExplorer = vscode.commands.registerCommand(
+      "smart-codeforces-helper.refreshProblemExplorer",
+      () => problemExplorer.refresh()
+    );
+
+    const problemsetBrowser = new ProblemsetBrowserProvider(problemWebviewProvider);
+
+    const browseProblemset = vscode.commands.registerCommand(
+      "smart-codeforces-helper.browseProblemset",
+      async () => {
+        try {
+          await problemsetBrowser.show();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error opening problemset: ${err}`);
+        }
+      }
+    );
+
+    const pickRandomProblem = vscode.commands.registerCommand(
+      "smart-codeforces-helper.pickRandomProblem",
+      async () => {
+        try {
+          await problemsetBrowser.pickRandomProblem();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error picking a problem: ${err}`);
+        }
+      }
+    );
+
+    const refreshProblemset = vscode.commands.registerCommand(
+      "smart-codeforces-helper.refreshProblemset",
+      () => problemsetBrowser.refresh()
+    );
+
+    const progressStats = new ProgressStatsProvider(problemWebviewProvider);
+
+    const syncProgress = vscode.commands.registerCommand(
+      "smart-codeforces-helper.syncProgress",
+      () => progressStats.sync()
+    );
+
+    const showProgressStats = vscode.commands.registerCommand(
+      "smart-codeforces-helper.showProgressStats",
+      async () => {
+        try {
+          await progressStats.show();
+        } catch (err) {
+          vscode.window.showErrorMessage(`❌ Error opening stats: ${err}`);
+        }
+      }
+    );
+
+    const compilerProfiles = new CompilerProfiles();
+
+    const selectCompilerProfile = vscode.commands.registerCommand(
+      "smart-codeforces-helper.selectCompilerProfile",
+      async () => {
+        try {
+          await compilerProfiles.selectProfile();
+        } catch (err) {
+          vscode.window.showErrorMessage(
+            `❌ Error selecting compiler profile: ${err}`
+          );
+        }
+      }
+    );
+
+    const profileStatusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left
+    );
+    profileStatusBarItem.command =
+      "smart-codeforces-helper.selectCompilerProfile";
+    profileStatusBarItem.tooltip = "C++ compiler profile";
+    const updateProfileStatusBarItem = () => {
+      profileStatusBarItem.text = `$(tools) ${compilerProfiles.getActiveProfileName()}`;
+    };
+    updateProfileStatusBarItem();
+    profileStatusBarItem.show();
+
+    const profileConfigurationListener =
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          event.affectsConfiguration("smartCodeforcesHelper.compilerProfile") ||
+          event.affectsConfiguration("smartCodeforcesHelper.compilerProfiles")
+        ) {
+          updateProfileStatusBarItem();
+        }
+      });
+
     context.subscriptions.push(
       helloWorld,
       showTime,
       loadProblem,
-      openProblemViewer
+      openProblemViewer,
+      loadContest,
+      toggleCompanionListener,
+      companionReceiver,
+      stressTest,
+      prepareSubmission,
+      createTemplate,
+      editTemplate,
+      selectDefaultTemplate,
+      setApiKey,
+      clearApiKey,
+      refreshProblem,
+      clearProblemCache,
+      problemExplorer,
+      problemExplorerView,
+      openProblemStatement,
+      openProblemSource,
+      runProblemTests,
+      removeProblem,
+      refreshProblemExplorer,
+      browseProblemset,
+      pickRandomProblem,
+      refreshProblemset,
+      problemsetBrowser,
+      syncProgress,
+      showProgressStats,
+      selectCompilerProfile,
+      profileStatusBarItem,
+      profileConfigurationListener
     );
   } catch (err) {
     vscode.window.showErrorMessage(`❌ Extension failed to activate: ${err}`);
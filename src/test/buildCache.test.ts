@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { BuildCache } from '../webview/BuildCache';
+import { LanguageConfig } from '../webview/Interfaces';
+
+suite('BuildCache Test Suite', () => {
+	const cpp: LanguageConfig = {
+		id: 'cpp',
+		name: 'C++',
+		extensions: ['.cpp'],
+		languageIds: ['cpp'],
+		compileCommand: 'g++ -o "${exe}" "${file}" -std=c++17 -O2',
+		runCommand: '"${exe}"'
+	};
+
+	let workspaceDir: string;
+	let cache: BuildCache;
+	let sourcePath: string;
+	let headerPath: string;
+
+	setup(() => {
+		workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cf-build-test-'));
+		cache = new BuildCache(() => workspaceDir);
+		sourcePath = path.join(workspaceDir, 'main.cpp');
+		headerPath = path.join(workspaceDir, 'lib', 'dsu.h');
+		fs.mkdirSync(path.dirname(headerPath));
+		fs.writeFileSync(sourcePath, '#include <bits/stdc++.h>\n#include "lib/dsu.h"\nint main() {}\n');
+		fs.writeFileSync(headerPath, '#pragma once\nstruct Dsu {};\n');
+	});
+
+	teardown(() => {
+		fs.rmSync(workspaceDir, { recursive: true, force: true });
+	});
+
+	test('keeps the cache in the workspace and out of version control', () => {
+		const root = cache.getCacheRoot();
+
+		assert.strictEqual(root, path.join(workspaceDir, '.codeforces', 'build'));
+		assert.strictEqual(fs.readFileSync(path.join(root, '.gitignore'), 'utf-8'), '*\n');
+		assert.strictEqual(path.dirname(cache.getEntryDir(sourcePath, cpp)), root);
+	});
+
+	test('returns the same entry while nothing changes', () => {
+		assert.strictEqual(cache.getEntryDir(sourcePath, cpp), cache.getEntryDir(sourcePath, cpp));
+	});
+
+	test('changes the entry when the source or an included header changes', () => {
+		const original = cache.getEntryDir(sourcePath, cpp);
+
+		fs.writeFileSync(headerPath, '#pragma once\nstruct Dsu { int n; };\n');
+		const afterHeader = cache.getEntryDir(sourcePath, cpp);
+		assert.notStrictEqual(afterHeader, original);
+
+		fs.appendFileSync(sourcePath, '// comment\n');
+		assert.notStrictEqual(cache.getEntryDir(sourcePath, cpp), afterHeader);
+	});
+
+	test('follows includes of included headers', () => {
+		fs.writeFileSync(headerPath, '#pragma once\n#include "util.h"\n');
+		fs.writeFileSync(path.join(workspaceDir, 'lib', 'util.h'), 'int a;\n');
+		const original = cache.getEntryDir(sourcePath, cpp);
+
+		fs.writeFileSync(path.join(workspaceDir, 'lib', 'util.h'), 'int b;\n');
+		assert.notStrictEqual(cache.getEntryDir(sourcePath, cpp), original);
+	});
+
+	test('changes the entry when the commands or flags change', () => {
+		const original = cache.getEntryDir(sourcePath, cpp);
+
+		assert.notStrictEqual(cache.getEntryDir(sourcePath, { ...cpp, compileCommand: cpp.compileCommand + ' -DLOCAL' }), original);
+		assert.notStrictEqual(cache.getEntryDir(sourcePath, { ...cpp, runCommand: '"${exe}" --verbose' }), original);
+		assert.notStrictEqual(cache.getEntryDir(sourcePath, { ...cpp, id: 'c' }), original);
+		assert.notStrictEqual(cache.getEntryDir(sourcePath, cpp, 'pch'), original);
+	});
+
+	test('reports an entry as built only after markBuilt', () => {
+		const entryDir = cache.getEntryDir(sourcePath, cpp);
+		fs.mkdirSync(entryDir, { recursive: true });
+
+		assert.strictEqual(cache.isBuilt(entryDir), false);
+		cache.markBuilt(entryDir);
+		assert.strictEqual(cache.isBuilt(entryDir), true);
+		assert.ok(fs.existsSync(path.join(entryDir, '.built')));
+
+		cache.discard(entryDir);
+		assert.strictEqual(cache.isBuilt(entryDir), false);
+		assert.ok(!fs.existsSync(entryDir));
+	});
+
+	test('prunes the least recently used entries beyond 30 but keeps precompiled headers', () => {
+		const root = cache.getCacheRoot();
+		const start = Date.now() / 1000 - 1000;
+		const entries = Array.from({ length: 31 }, (_, i) => {
+			const entryDir = path.join(root, `entry-${i}`);
+			fs.mkdirSync(entryDir);
+			fs.utimesSync(entryDir, start + i, start + i);
+			return entryDir;
+		});
+		const pchDir = path.join(root, 'pch');
+		fs.mkdirSync(pchDir);
+		fs.utimesSync(pchDir, start - 100, start - 100);
+
+		// Using the oldest entry makes entry-1 the least recently used
+		cache.markUsed(entries[0]);
+		const entryDir = cache.getEntryDir(sourcePath, cpp);
+		fs.mkdirSync(entryDir);
+		cache.markBuilt(entryDir);
+
+		const remaining = fs.readdirSync(root, { withFileTypes: true })
+			.filter(entry => entry.isDirectory())
+			.map(entry => entry.name);
+		assert.strictEqual(remaining.length, 31);
+		assert.ok(remaining.includes('pch'));
+		assert.ok(remaining.includes('entry-0'));
+		assert.ok(!remaining.includes('entry-1'));
+		assert.ok(!remaining.includes('entry-2'));
+		assert.ok(remaining.includes('entry-3'));
+		assert.ok(remaining.includes(path.basename(entryDir)));
+	});
+});
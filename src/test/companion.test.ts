@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as http from 'http';
+
+import { CompanionProtocol } from '../webview/CompanionProtocol';
+import { CompanionServer } from '../webview/CompanionServer';
+import { CompanionTask } from '../webview/Interfaces';
+
+function makeTask(overrides: Partial<CompanionTask> = {}): CompanionTask {
+	return {
+		name: 'A. Watermelon',
+		group: 'Codeforces - Codeforces Beta Round #4 (Div. 2 Only)',
+		url: 'https://codeforces.com/problemset/problem/4/A',
+		interactive: false,
+		memoryLimit: 64,
+		timeLimit: 1000,
+		tests: [{ input: '8\n', output: 'YES\n' }],
+		batch: { id: 'batch-1', size: 1 },
+		...overrides
+	};
+}
+
+function post(port: number, body: string, headers: http.OutgoingHttpHeaders = { 'Content-Type': 'application/json' }): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const request = http.request({ host: '127.0.0.1', port, method: 'POST', path: '/', headers }, response => {
+			response.resume();
+			response.on('end', () => resolve(response.statusCode ?? 0));
+		});
+		request.on('error', reject);
+		request.end(body);
+	});
+}
+
+suite('CompanionProtocol Test Suite', () => {
+	test('accepts a Competitive Companion task', () => {
+		assert.strictEqual(CompanionProtocol.isTask(makeTask()), true);
+	});
+
+	test('rejects payloads that are not tasks', () => {
+		assert.strictEqual(CompanionProtocol.isTask(null), false);
+		assert.strictEqual(CompanionProtocol.isTask('task'), false);
+		assert.strictEqual(CompanionProtocol.isTask({ ...makeTask(), tests: [{ input: '1' }] }), false);
+		assert.strictEqual(CompanionProtocol.isTask({ ...makeTask(), batch: undefined }), false);
+	});
+
+	test('converts a Codeforces task to problem data', () => {
+		const problem = CompanionProtocol.toProblemData(makeTask());
+
+		assert.strictEqual(problem.title, 'Watermelon');
+		assert.strictEqual(problem.timeLimit, '1 second');
+		assert.strictEqual(problem.memoryLimit, '64 megabytes');
+		assert.strictEqual(problem.contestId, 4);
+		assert.strictEqual(problem.index, 'A');
+		assert.deepStrictEqual(problem.sampleTests, [{ input: '8', output: 'YES' }]);
+		assert.ok(problem.description.includes('https://codeforces.com/problemset/problem/4/A'));
+	});
+
+	test('keeps the name of tasks from other judges', () => {
+		const problem = CompanionProtocol.toProblemData(makeTask({
+			name: 'B. Two Sums',
+			group: 'AtCoder - ABC 300',
+			url: 'https://atcoder.jp/contests/abc300/tasks/abc300_b',
+			timeLimit: 2500
+		}));
+
+		assert.strictEqual(problem.title, 'B. Two Sums');
+		assert.strictEqual(problem.timeLimit, '2.5 seconds');
+		assert.strictEqual(problem.source, 'AtCoder - ABC 300');
+		assert.strictEqual(problem.contestId, undefined);
+	});
+});
+
+suite('CompanionServer Test Suite', () => {
+	let received: CompanionTask[][];
+	let server: CompanionServer;
+	let port: number;
+
+	setup(async () => {
+		received = [];
+		server = new CompanionServer(tasks => received.push(tasks));
+		port = await server.start(0);
+	});
+
+	teardown(async () => {
+		await server.stop();
+	});
+
+	test('hands over a single task', async () => {
+		const status = await post(port, JSON.stringify(makeTask()));
+
+		assert.strictEqual(status, 200);
+		assert.strictEqual(received.length, 1);
+		assert.strictEqual(received[0][0].name, 'A. Watermelon');
+	});
+
+	test('collects a batch before handing it over', async () => {
+		const batch = { id: 'contest', size: 2 };
+		await post(port, JSON.stringify(makeTask({ batch })));
+		assert.strictEqual(received.length, 0);
+
+		await post(port, JSON.stringify(makeTask({ name: 'B. Mysterious Present', batch })));
+		assert.strictEqual(received.length, 1);
+		assert.deepStrictEqual(received[0].map(task => task.name), ['A. Watermelon', 'B. Mysterious Present']);
+	});
+
+	test('rejects invalid payloads', async () => {
+		assert.strictEqual(await post(port, '{not json'), 400);
+		assert.strictEqual(await post(port, JSON.stringify({ name: 'A' })), 400);
+		assert.strictEqual(received.length, 0);
+	});
+
+	test('rejects posts that are not JSON', async () => {
+		assert.strictEqual(await post(port, JSON.stringify(makeTask()), { 'Content-Type': 'text/plain' }), 415);
+		assert.strictEqual(await post(port, JSON.stringify(makeTask()), {}), 415);
+		assert.strictEqual(received.length, 0);
+	});
+
+	test('rejects posts from web pages but accepts browser extensions', async () => {
+		const json = 'application/json';
+		assert.strictEqual(await post(port, JSON.stringify(makeTask()), { 'Content-Type': json, 'Origin': 'https://example.com' }), 403);
+		assert.strictEqual(received.length, 0);
+
+		assert.strictEqual(await post(port, JSON.stringify(makeTask()), { 'Content-Type': json, 'Origin': 'moz-extension://4f1c6a2e' }), 200);
+		assert.strictEqual(received.length, 1);
+	});
+
+	test('reports a port that is already in use', async () => {
+		const other = new CompanionServer(() => undefined);
+		await assert.rejects(other.start(port), /already in use/);
+	});
+});
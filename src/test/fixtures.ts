@@ -0,0 +1,10 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+const fixturesDirectory = path.resolve(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+export const readFixtureText = (name: string): string =>
+	fs.readFileSync(path.join(fixturesDirectory, name), 'utf-8');
+
+export const readFixture = <T>(name: string): T =>
+	JSON.parse(readFixtureText(name)) as T;
@@ -0,0 +1,11 @@
+#pragma once
+
+namespace algo {
+int square(int x) { return x * x; }
+}
+
+long long power(long long base, int exponent) {
+    long long result = 1;
+    while (exponent-- > 0) result *= base;
+    return result;
+}
@@ -0,0 +1,2 @@
+#pragma once
+#define dbg(...) std::cerr << #__VA_ARGS__ << '\n'
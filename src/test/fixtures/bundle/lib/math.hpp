@@ -0,0 +1,22 @@
+// Number theory helpers
+#ifndef LIB_MATH_HPP
+#define LIB_MATH_HPP
+
+long long gcd_ll(long long a, long long b) {
+    return b == 0 ? a : gcd_ll(b, a % b);
+}
+
+long long lcm_ll(long long a, long long b) {
+    return a / gcd_ll(a, b) * b;
+}
+
+/* Unused by the solution */
+struct Fraction {
+    long long p, q;
+    Fraction normalized() const { long long g = gcd_ll(p, q); return {p / g, q / g}; }
+};
+
+const char *separator = "// not a comment";
+const long long big = 1'000'000'007;
+
+#endif
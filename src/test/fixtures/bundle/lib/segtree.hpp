@@ -0,0 +1,16 @@
+#pragma once
+#include "math.hpp"
+
+struct SegTree {
+    int n;
+    std::vector<long long> t;
+    SegTree(int n) : n(n), t(2 * n) { }
+    long long query(int l, int r) {
+        long long res = 0;
+        for (l += n, r += n; l < r; l >>= 1, r >>= 1) {
+            if (l & 1) res += t[l++];
+            if (r & 1) res += t[--r];
+        }
+        return res;
+    }
+};
@@ -0,0 +1,21 @@
+#include <bits/stdc++.h>
+#include "lib/segtree.hpp"
+#include "lib/math.hpp"
+#include <algo/power.hpp>
+using namespace std;
+
+#ifdef LOCAL
+#include "lib/debug.hpp"
+#else
+#define dbg(...)
+#endif
+
+// Reads the array and answers range sum queries
+int main() {
+    int n;
+    cin >> n;
+    SegTree tree(n);
+    dbg(n);
+    cout << tree.query(0, n) + gcd_ll(12, 18) + power(2, 10) << '\n'; /* done */
+    return 0;
+}
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+
+import { InteractiveRunner } from '../webview/InteractiveRunner';
+import { ProcessMonitor } from '../webview/ProcessMonitor';
+import { RunnableProgram } from '../webview/Interfaces';
+
+const nodeProgram = (source: string): RunnableProgram => ({
+	command: process.execPath,
+	args: ['-e', source],
+	cwd: process.cwd(),
+	artifacts: []
+});
+
+// Reads n, asks "? n" and answers with "! <reply>"
+const guessingSolution = nodeProgram(`
+	const rl = require('readline').createInterface({ input: process.stdin });
+	const lines = [];
+	rl.on('line', line => {
+		lines.push(line.trim());
+		if (lines.length === 1) {
+			console.log('? ' + lines[0]);
+		} else {
+			console.log('! ' + lines[1]);
+			rl.close();
+		}
+	});
+`);
+
+suite('InteractiveRunner Test Suite', () => {
+	const runner = new InteractiveRunner();
+	const testCase = { input: '', output: '' };
+
+	test('parses scripted responses', () => {
+		assert.deepStrictEqual(runner.parseScript('> 5\n< ? 5\nnot a message\n> 7\n< *'), [
+			{ direction: 'send', text: '5' },
+			{ direction: 'expect', text: '? 5' },
+			{ direction: 'send', text: '7' },
+			{ direction: 'expect', text: '*' }
+		]);
+	});
+
+	test('accepts a run that follows the script', async () => {
+		const result = await runner.runWithScript(guessingSolution, { mode: 'script' }, '> 5\n< ? 5\n> 7\n< ! 7', testCase, 1);
+		assert.strictEqual(result.error, null);
+		assert.strictEqual(result.passed, true);
+		assert.strictEqual(result.transcript, '[interactor] 5\n[solution] ? 5\n[interactor] 7\n[solution] ! 7');
+	});
+
+	test('reports a protocol error on unexpected output', async () => {
+		const result = await runner.runWithScript(guessingSolution, { mode: 'script' }, '> 5\n< ? 6', testCase, 1);
+		assert.strictEqual(result.passed, false);
+		assert.strictEqual(result.verdict, 'PE');
+		assert.strictEqual(result.error, 'Protocol Error: expected "? 6", found "? 5"');
+	});
+
+	test('reports idleness when the solution waits forever', async () => {
+		const result = await runner.runWithScript(guessingSolution, { mode: 'script', idleTimeoutMs: 300 }, '< ? 5', testCase, 1);
+		assert.strictEqual(result.verdict, 'ILE');
+		assert.strictEqual(result.error, 'Idleness Limit Exceeded');
+	});
+
+	test('applies the memory limit to the solution', async function () {
+		if (!ProcessMonitor.isSupported()) {
+			this.skip();
+		}
+		const limits = { timeLimitMs: 2000, memoryLimitKb: 1024 };
+
+		const result = await runner.runWithScript(guessingSolution, { mode: 'script' }, '> 5\n< ? 5', testCase, 1, limits);
+		assert.strictEqual(result.verdict, 'MLE');
+		assert.ok((result.memoryUsage ?? 0) > 1024);
+	});
+
+	test('uses the interactor exit code as the verdict', async () => {
+		// Sends the number from the test input, then checks the final answer against 7
+		const interactor = nodeProgram(`
+			const fs = require('fs');
+			const n = fs.readFileSync(process.argv[1], 'utf-8').trim();
+			const rl = require('readline').createInterface({ input: process.stdin });
+			console.log(n);
+			rl.on('line', line => {
+				if (line.startsWith('?')) {
+					console.log('7');
+				} else {
+					const ok = line.trim() === '! 7';
+					if (!ok) { console.error('wrong guess'); }
+					process.exit(ok ? 0 : 1);
+				}
+			});
+		`);
+
+		const result = await runner.runWithInteractor(guessingSolution, interactor, { mode: 'interactor' }, { input: '5', output: '' }, 1);
+		assert.strictEqual(result.error, null);
+		assert.strictEqual(result.transcript, '[interactor] 5\n[solution] ? 5\n[interactor] 7\n[solution] ! 7');
+	});
+
+	test('stops an endless exchange after the problem time limit', async () => {
+		// Answers every query, so neither side is ever idle
+		const interactor = nodeProgram(`
+			console.log('5');
+			require('readline').createInterface({ input: process.stdin }).on('line', () => console.log('5'));
+		`);
+		const solution = nodeProgram(`
+			require('readline').createInterface({ input: process.stdin }).on('line', line => console.log('? ' + line));
+		`);
+
+		const started = Date.now();
+		const result = await runner.runWithInteractor(solution, interactor, { mode: 'interactor' }, testCase, 1, { timeLimitMs: 200 });
+		// Either the CPU time or the wall-clock cut-off ends it
+		assert.strictEqual(result.verdict, 'TLE');
+		assert.match(result.error ?? '', /^Time Limit Exceeded/);
+		assert.ok(Date.now() - started < 5000);
+	});
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+
+import { LanguageRegistry } from '../webview/LanguageRegistry';
+import { LanguageConfig, LanguageSettings } from '../webview/Interfaces';
+
+const createRegistry = (settings: Partial<LanguageSettings> = {}) => new LanguageRegistry({
+	getOverrides: () => ({}),
+	getPythonInterpreter: () => 'python',
+	getCppCompileCommand: () => 'g++ -o "${exe}" "${file}" -std=c++17 -O2',
+	...settings
+});
+
+const resolveId = (registry: LanguageRegistry, fileName: string, languageId?: string): string | undefined =>
+	registry.resolve(fileName, languageId)?.id;
+
+suite('LanguageRegistry Test Suite', () => {
+	test('resolves each built-in language by extension', () => {
+		const registry = createRegistry();
+
+		assert.strictEqual(resolveId(registry, 'a.c'), 'c');
+		assert.strictEqual(resolveId(registry, 'a.cpp'), 'cpp');
+		assert.strictEqual(resolveId(registry, 'a.cc'), 'cpp');
+		assert.strictEqual(resolveId(registry, 'a.cxx'), 'cpp');
+		assert.strictEqual(resolveId(registry, 'Main.java'), 'java');
+		assert.strictEqual(resolveId(registry, 'a.py'), 'python');
+		assert.strictEqual(resolveId(registry, 'a.rs'), 'rust');
+		assert.strictEqual(resolveId(registry, 'a.go'), 'go');
+		assert.strictEqual(resolveId(registry, 'a.kt'), 'kotlin');
+		assert.strictEqual(resolveId(registry, '/tmp/dir/A.CPP'), 'cpp');
+	});
+
+	test('resolves each built-in language by languageId', () => {
+		const registry = createRegistry();
+
+		['c', 'cpp', 'java', 'python', 'rust', 'go', 'kotlin'].forEach(languageId => {
+			assert.strictEqual(resolveId(registry, 'Untitled-1', languageId), languageId);
+		});
+	});
+
+	test('returns undefined for unsupported files', () => {
+		const registry = createRegistry();
+
+		assert.strictEqual(registry.resolve('notes.txt'), undefined);
+		assert.strictEqual(registry.resolve('Untitled-1', 'plaintext'), undefined);
+	});
+
+	test('resolves Python files to the preferred interpreter', () => {
+		assert.strictEqual(resolveId(createRegistry({ getPythonInterpreter: () => 'pypy' }), 'a.py'), 'pypy');
+		assert.strictEqual(resolveId(createRegistry({ getPythonInterpreter: () => 'pypy' }), 'a', 'python'), 'pypy');
+		assert.strictEqual(resolveId(createRegistry({ getPythonInterpreter: () => 'unknown' }), 'a.py'), 'python');
+	});
+
+	test('applies command overrides and the C++ compile command', () => {
+		const overrides: Record<string, Partial<LanguageConfig>> = {
+			java: { runCommand: 'java -cp "${outDir}" ${fileBase}' }
+		};
+		const registry = createRegistry({
+			getOverrides: () => overrides,
+			getCppCompileCommand: () => 'clang++ -o "${exe}" "${file}"'
+		});
+
+		assert.strictEqual(registry.resolve('a.cpp')?.compileCommand, 'clang++ -o "${exe}" "${file}"');
+		assert.strictEqual(registry.resolve('Main.java')?.runCommand, 'java -cp "${outDir}" ${fileBase}');
+		assert.strictEqual(registry.resolve('Main.java')?.compileCommand, 'javac -d "${outDir}" "${file}"');
+	});
+
+	test('splitCommand splits on whitespace', () => {
+		assert.deepStrictEqual(LanguageRegistry.splitCommand('g++  -O2\t-o a  a.cpp '), ['g++', '-O2', '-o', 'a', 'a.cpp']);
+		assert.deepStrictEqual(LanguageRegistry.splitCommand('   '), []);
+	});
+
+	test('splitCommand keeps quoted paths with spaces together', () => {
+		assert.deepStrictEqual(
+			LanguageRegistry.splitCommand('"C:\\Program Files\\g++.exe" -o "/tmp/my dir/a" \'/tmp/my dir/a.cpp\''),
+			['C:\\Program Files\\g++.exe', '-o', '/tmp/my dir/a', '/tmp/my dir/a.cpp']
+		);
+	});
+
+	test('splitCommand handles empty quotes, adjacent quotes and nested quote characters', () => {
+		assert.deepStrictEqual(LanguageRegistry.splitCommand('prog "" \'\''), ['prog', '', '']);
+		assert.deepStrictEqual(LanguageRegistry.splitCommand('-I"/tmp/my dir"/include'), ['-I/tmp/my dir/include']);
+		assert.deepStrictEqual(LanguageRegistry.splitCommand('echo "it\'s" \'say "hi"\''), ['echo', 'it\'s', 'say "hi"']);
+	});
+
+	test('splitCommand works on expanded command templates', () => {
+		const command = LanguageRegistry.expandCommand('"${exe}" --input "${file}"', {
+			exe: '/tmp/build dir/a.out',
+			file: '/tmp/tests/in 1.txt'
+		});
+
+		assert.deepStrictEqual(LanguageRegistry.splitCommand(command), ['/tmp/build dir/a.out', '--input', '/tmp/tests/in 1.txt']);
+	});
+});
@@ -0,0 +1,466 @@
+import * as assert from 'assert';
+import * as http from 'http';
+
+import { LlmProvider, LlmRequest, LlmSettings } from '../autoCodeGenerator/LlmProvider';
+import { LlmProviderFactory } from '../autoCodeGenerator/LlmProviderFactory';
+import { LlmTemplateGenerator } from '../autoCodeGenerator/LlmTemplateGenerator';
+import { LlmHintGenerator } from '../autoCodeGenerator/LlmHintGenerator';
+import { LlmFailureExplainer } from '../autoCodeGenerator/LlmFailureExplainer';
+
+interface RecordedRequest {
+	method?: string;
+	url?: string;
+	headers: http.IncomingHttpHeaders;
+	body: unknown;
+}
+
+/**
+ * The top-level fields of a recorded JSON request body.
+ */
+const fieldsOf = (sent: RecordedRequest) => sent.body as Record<string, unknown>;
+
+/**
+ * Local stand-in for the chat endpoints: answers every request with the
+ * queued status and body, or streams the queued chunks (leaving the response
+ * open when `hold` is set), and records what was sent.
+ */
+class MockLlmServer {
+	readonly requests: RecordedRequest[] = [];
+	response: { status: number; body?: unknown; chunks?: string[]; hold?: boolean } = { status: 200, body: {} };
+	private server: http.Server | undefined;
+
+	start(): Promise<string> {
+		this.server = http.createServer((request, response) => {
+			let body = '';
+			request.setEncoding('utf-8');
+			request.on('data', (chunk: string) => body += chunk);
+			request.on('end', () => {
+				this.requests.push({ method: request.method, url: request.url, headers: request.headers, body: JSON.parse(body) });
+				if (this.response.chunks) {
+					response.writeHead(this.response.status, { 'Content-Type': 'text/event-stream' });
+					this.response.chunks.forEach(chunk => response.write(chunk));
+					if (!this.response.hold) {
+						response.end();
+					}
+					return;
+				}
+				response.writeHead(this.response.status, { 'Content-Type': 'application/json' });
+				response.end(JSON.stringify(this.response.body));
+			});
+		});
+
+		return new Promise(resolve => this.server!.listen(0, '127.0.0.1', () => {
+			const address = this.server!.address() as { port: number };
+			resolve(`http://127.0.0.1:${address.port}`);
+		}));
+	}
+
+	stop(): Promise<void> {
+		this.server?.closeAllConnections();
+		return new Promise(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+	}
+}
+
+const chatCompletion = (content: string) => ({
+	id: 'cmpl-1',
+	object: 'chat.completion',
+	model: 'test-model',
+	created: 1700000000,
+	usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+	choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }]
+});
+
+const request: LlmRequest = {
+	messages: [
+		{ role: 'system', content: 'You are helpful.' },
+		{ role: 'user', content: 'Say hi' }
+	],
+	stop: ['---']
+};
+
+suite('LLM Providers Test Suite', () => {
+	const mock = new MockLlmServer();
+	let baseUrl: string;
+
+	const settings = (overrides: Partial<LlmSettings>): LlmSettings => ({
+		provider: 'openai',
+		model: 'test-model',
+		baseUrl,
+		temperature: 0.3,
+		maxTokens: 123,
+		...overrides
+	});
+
+	suiteSetup(async () => {
+		baseUrl = await mock.start();
+	});
+
+	suiteTeardown(async () => {
+		await mock.stop();
+	});
+
+	setup(() => {
+		mock.requests.length = 0;
+	});
+
+	test('OpenAI-compatible provider posts a chat completion request', async () => {
+		mock.response = { status: 200, body: chatCompletion('hi') };
+		const provider = LlmProviderFactory.create(settings({ provider: 'openai', baseUrl: `${baseUrl}/v1/`, apiKey: 'secret' }));
+
+		assert.strictEqual(await provider.complete(request), 'hi');
+
+		const [sent] = mock.requests;
+		assert.strictEqual(sent.url, '/v1/chat/completions');
+		assert.strictEqual(sent.headers.authorization, 'Bearer secret');
+		assert.deepStrictEqual(sent.body, {
+			model: 'test-model',
+			messages: request.messages,
+			temperature: 0.3,
+			max_tokens: 123,
+			stop: ['---']
+		});
+	});
+
+	test('OpenAI-compatible provider works without a key', async () => {
+		mock.response = { status: 200, body: chatCompletion('hi') };
+		await LlmProviderFactory.create(settings({ provider: 'openai' })).complete(request);
+
+		assert.strictEqual(mock.requests[0].headers.authorization, undefined);
+	});
+
+	test('reports the error message of a failed request', async () => {
+		mock.response = { status: 401, body: { error: { message: 'Invalid API key' } } };
+		const provider = LlmProviderFactory.create(settings({ provider: 'openai' }));
+
+		await assert.rejects(provider.complete(request), /\(401\): Invalid API key/);
+	});
+
+	test('reports an empty response', async () => {
+		mock.response = { status: 200, body: { choices: [] } };
+		const provider = LlmProviderFactory.create(settings({ provider: 'openai' }));
+
+		await assert.rejects(provider.complete(request), /No response/);
+	});
+
+	test('Ollama provider posts to /api/chat without streaming', async () => {
+		mock.response = { status: 200, body: { model: 'llama3.1', message: { role: 'assistant', content: 'hello' }, done: true } };
+		const provider = LlmProviderFactory.create(settings({ provider: 'ollama' }));
+
+		assert.strictEqual(await provider.complete(request), 'hello');
+
+		const [sent] = mock.requests;
+		assert.strictEqual(sent.url, '/api/chat');
+		assert.deepStrictEqual(sent.body, {
+			model: 'test-model',
+			messages: request.messages,
+			stream: false,
+			options: { temperature: 0.3, num_predict: 123, stop: ['---'] }
+		});
+	});
+
+	test('Mistral provider sends the configured model and limits', async () => {
+		mock.response = { status: 200, body: chatCompletion('bonjour') };
+		const provider = LlmProviderFactory.create(settings({ provider: 'mistral', apiKey: 'mistral-key' }));
+
+		assert.strictEqual(await provider.complete(request), 'bonjour');
+
+		const [sent] = mock.requests;
+		assert.strictEqual(sent.url, '/v1/chat/completions');
+		assert.strictEqual(sent.headers.authorization, 'Bearer mistral-key');
+		assert.strictEqual(fieldsOf(sent).model, 'test-model');
+		assert.strictEqual(fieldsOf(sent).temperature, 0.3);
+		assert.strictEqual(fieldsOf(sent).max_tokens, 123);
+	});
+
+	test('Mistral provider needs an API key', () => {
+		assert.throws(() => LlmProviderFactory.create(settings({ provider: 'mistral' })), /API key not found/);
+	});
+
+	test('OpenAI-compatible provider streams server-sent events', async () => {
+		const event = (content: string) => `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`;
+		mock.response = { status: 200, chunks: [event('#incl'), event('ude <'), `${event('iostream>')}data: [DONE]\n\n`] };
+		const pieces: string[] = [];
+
+		const reply = await LlmProviderFactory.create(settings({ provider: 'openai' })).complete({ ...request, onText: text => pieces.push(text) });
+
+		assert.strictEqual(reply, '#include <iostream>');
+		assert.deepStrictEqual(pieces, ['#incl', 'ude <', 'iostream>']);
+		assert.strictEqual(fieldsOf(mock.requests[0]).stream, true);
+	});
+
+	test('Ollama provider streams one JSON object per line', async () => {
+		const line = (content: string, done = false) => JSON.stringify({ message: { role: 'assistant', content }, done }) + '\n';
+		mock.response = { status: 200, chunks: [line('hel'), line('lo') + line('', true)] };
+		const pieces: string[] = [];
+
+		const reply = await LlmProviderFactory.create(settings({ provider: 'ollama' })).complete({ ...request, onText: text => pieces.push(text) });
+
+		assert.strictEqual(reply, 'hello');
+		assert.deepStrictEqual(pieces, ['hel', 'lo']);
+		assert.strictEqual(fieldsOf(mock.requests[0]).stream, true);
+	});
+
+	test('aborting a streamed request cancels it', async () => {
+		mock.response = { status: 200, chunks: [JSON.stringify({ message: { role: 'assistant', content: 'partial' }, done: false }) + '\n'], hold: true };
+		const controller = new AbortController();
+
+		await assert.rejects(
+			LlmProviderFactory.create(settings({ provider: 'ollama' })).complete({ ...request, signal: controller.signal, onText: () => controller.abort() }),
+			/Cancelled by user/
+		);
+	});
+
+	test('template generator extracts the code from the reply', async () => {
+		const provider: LlmProvider = {
+			name: 'Fake',
+			complete: async () => 'Here you go:\n```cpp\n#include <iostream>\nint main() {}\n```\n'
+		};
+		const generator = new LlmTemplateGenerator(provider);
+
+		const { code } = await generator.generateVerifiedCppTemplate({
+			title: 'Sum',
+			timeLimit: '1 second',
+			memoryLimit: '256 megabytes',
+			description: '',
+			inputFormat: '',
+			outputFormat: '',
+			sampleTests: [],
+			source: 'Codeforces'
+		}, async () => undefined, 0);
+
+		assert.strictEqual(code, '#include <iostream>\nint main() {}');
+	});
+});
+
+suite('Verified Template Generation Test Suite', () => {
+	const problem = {
+		title: 'Sum',
+		timeLimit: '1 second',
+		memoryLimit: '256 megabytes',
+		description: '',
+		inputFormat: '',
+		outputFormat: '',
+		sampleTests: [{ input: '1 2', output: '3' }],
+		source: 'Codeforces'
+	};
+
+	/** Replies with the queued answers in order and records each request. */
+	const scriptedProvider = (replies: string[]) => {
+		const requests: LlmRequest[] = [];
+		const provider: LlmProvider = {
+			name: 'Scripted',
+			complete: async (request: LlmRequest) => {
+				requests.push({ ...request, messages: [...request.messages] });
+				return replies[requests.length - 1];
+			}
+		};
+		return { provider, requests };
+	};
+
+	test('returns a template that passes right away', async () => {
+		const { provider, requests } = scriptedProvider(['#include <iostream>\nint main() {}']);
+
+		const result = await new LlmTemplateGenerator(provider).generateVerifiedCppTemplate(problem, async () => undefined, 2);
+
+		assert.deepStrictEqual(result, { code: '#include <iostream>\nint main() {}', passed: true, repairRounds: 0 });
+		assert.strictEqual(requests.length, 1);
+	});
+
+	test('sends the failure back and returns the repaired template', async () => {
+		const { provider, requests } = scriptedProvider(['#include <iostream>\nint main() { x; }', '#include <iostream>\nint main() {}']);
+		const verify = async (code: string) => code.includes('x;') ? 'error: \'x\' was not declared' : undefined;
+
+		const result = await new LlmTemplateGenerator(provider).generateVerifiedCppTemplate(problem, verify, 2);
+
+		assert.strictEqual(result.passed, true);
+		assert.strictEqual(result.repairRounds, 1);
+		assert.strictEqual(result.code, '#include <iostream>\nint main() {}');
+
+		const repairMessages = requests[1].messages;
+		assert.strictEqual(repairMessages.length, 4);
+		assert.deepStrictEqual(repairMessages[2], { role: 'assistant', content: '#include <iostream>\nint main() { x; }' });
+		assert.strictEqual(repairMessages[3].role, 'user');
+		assert.ok(repairMessages[3].content.includes('error: \'x\' was not declared'));
+	});
+
+	test('gives up after the last repair round', async () => {
+		const { provider, requests } = scriptedProvider(['#include <a>', '#include <b>']);
+
+		const result = await new LlmTemplateGenerator(provider).generateVerifiedCppTemplate(problem, async code => `still broken: ${code}`, 1);
+
+		assert.strictEqual(result.passed, false);
+		assert.strictEqual(result.repairRounds, 1);
+		assert.strictEqual(result.code, '#include <b>');
+		assert.strictEqual(result.failure, 'still broken: #include <b>');
+		assert.strictEqual(requests.length, 2);
+	});
+
+	test('stops when cancelled', async () => {
+		const { provider, requests } = scriptedProvider(['#include <a>']);
+
+		await assert.rejects(
+			new LlmTemplateGenerator(provider).generateVerifiedCppTemplate(problem, async () => undefined, 2, { signal: AbortSignal.abort() }),
+			/Cancelled by user/
+		);
+		assert.strictEqual(requests.length, 0);
+	});
+
+	test('passes the streamed reply on and starts over for each repair', async () => {
+		const events: string[] = [];
+		const provider: LlmProvider = {
+			name: 'Streaming',
+			complete: async (request: LlmRequest) => {
+				const reply = events.includes('attempt 1') ? '#include <b>' : '#include <a>';
+				request.onText?.(reply);
+				return reply;
+			}
+		};
+
+		const result = await new LlmTemplateGenerator(provider).generateVerifiedCppTemplate(
+			problem,
+			async code => code === '#include <a>' ? 'broken' : undefined,
+			2,
+			{ onAttempt: round => events.push(`attempt ${round}`), onText: text => events.push(text) }
+		);
+
+		assert.strictEqual(result.passed, true);
+		assert.deepStrictEqual(events, ['attempt 0', '#include <a>', 'attempt 1', '#include <b>']);
+	});
+});
+
+suite('Hint Generation Test Suite', () => {
+	const problem = {
+		title: 'Watermelon',
+		timeLimit: '1 second',
+		memoryLimit: '64 megabytes',
+		description: 'Split the watermelon of weight w into two even parts.',
+		inputFormat: 'One integer w.',
+		outputFormat: 'YES or NO.',
+		sampleTests: [{ input: '8', output: 'YES' }],
+		source: 'Codeforces'
+	};
+
+	const replyingProvider = (reply: string) => {
+		const requests: LlmRequest[] = [];
+		const provider: LlmProvider = {
+			name: 'Fake',
+			complete: async (request: LlmRequest) => {
+				requests.push(request);
+				return reply;
+			}
+		};
+		return { provider, requests };
+	};
+
+	test('returns the four hints in ladder order', async () => {
+		const { provider, requests } = replyingProvider('Sure!\n```json\n' + JSON.stringify([
+			{ level: 'approach', hint: 'Think about parity.' },
+			{ level: 'observation', hint: 'Both parts must be even.' },
+			{ level: 'complexity', hint: 'O(1) is enough.' },
+			{ level: 'dataStructure', hint: 'No data structure is needed.' }
+		]) + '\n```');
+
+		const hints = await new LlmHintGenerator(provider).generateHints(problem);
+
+		assert.deepStrictEqual(hints, [
+			{ level: 'observation', text: 'Both parts must be even.' },
+			{ level: 'approach', text: 'Think about parity.' },
+			{ level: 'complexity', text: 'O(1) is enough.' },
+			{ level: 'dataStructure', text: 'No data structure is needed.' }
+		]);
+		assert.ok(requests[0].messages[1].content.includes('Split the watermelon of weight w into two even parts.'));
+	});
+
+	test('removes code from the hints', async () => {
+		const { provider } = replyingProvider(JSON.stringify([
+			{ hint: 'Weights are small.' },
+			{ hint: 'Check one condition:\n```cpp\ncout << (w % 2 == 0 && w > 2 ? "YES" : "NO");\n```' },
+			{ hint: 'Constant time.' },
+			{ hint: 'None.' }
+		]));
+
+		const hints = await new LlmHintGenerator(provider).generateHints(problem);
+
+		assert.strictEqual(hints[1].text, 'Check one condition:');
+	});
+
+	test('accepts hints given as strings or text fields', async () => {
+		const { provider } = replyingProvider(JSON.stringify([
+			'Both parts must be even.',
+			{ level: 'approach', text: 'Think about parity.' },
+			{ level: 'complexity', hint: 'O(1) is enough.' },
+			{ level: 'dataStructure', hint: 'No data structure is needed.' }
+		]));
+
+		const hints = await new LlmHintGenerator(provider).generateHints(problem);
+
+		assert.deepStrictEqual(hints.map(hint => hint.text), [
+			'Both parts must be even.',
+			'Think about parity.',
+			'O(1) is enough.',
+			'No data structure is needed.'
+		]);
+		await assert.rejects(
+			new LlmHintGenerator(replyingProvider(JSON.stringify([1, 2, 3, 4])).provider).generateHints(problem),
+			/usable "observation" hint/
+		);
+	});
+
+	test('rejects a reply without the hints', async () => {
+		await assert.rejects(new LlmHintGenerator(replyingProvider('Just check if w is even.').provider).generateHints(problem), /expected format/);
+		await assert.rejects(
+			new LlmHintGenerator(replyingProvider(JSON.stringify([{ level: 'observation', hint: 'Parity.' }])).provider).generateHints(problem),
+			/usable "approach" hint/
+		);
+	});
+});
+
+suite('Failure Explanation Test Suite', () => {
+	const problem = {
+		title: 'Sum',
+		timeLimit: '1 second',
+		memoryLimit: '256 megabytes',
+		description: 'Print a + b.',
+		inputFormat: 'Two integers a and b.',
+		outputFormat: 'Their sum.',
+		sampleTests: [{ input: '1 2', output: '3' }],
+		source: 'Codeforces'
+	};
+
+	test('sends the numbered source and the failing test, and streams the analysis', async () => {
+		const requests: LlmRequest[] = [];
+		const provider: LlmProvider = {
+			name: 'Fake',
+			complete: async (request: LlmRequest) => {
+				requests.push(request);
+				request.onText?.('Line 3 ');
+				request.onText?.('overflows.');
+				return 'Line 3 overflows.';
+			}
+		};
+		const pieces: string[] = [];
+
+		const analysis = await new LlmFailureExplainer(provider).explainFailure(problem, {
+			source: '#include <iostream>\nint main() {\n    int a, b; std::cin >> a >> b; std::cout << a + b;\n}',
+			language: 'cpp',
+			verdict: 'WA',
+			input: '2000000000 2000000000',
+			expectedOutput: '4000000000',
+			actualOutput: '-294967296',
+			error: null,
+			stderr: 'x'.repeat(5000)
+		}, text => pieces.push(text));
+
+		assert.strictEqual(analysis, 'Line 3 overflows.');
+		assert.deepStrictEqual(pieces, ['Line 3 ', 'overflows.']);
+
+		const prompt = requests[0].messages[1].content;
+		assert.ok(prompt.includes('verdict WA'));
+		assert.ok(prompt.includes('Print a + b.'));
+		assert.ok(prompt.includes('   3 |     int a, b;'));
+		assert.ok(prompt.includes('## Expected Output\n```\n4000000000\n```'));
+		assert.ok(prompt.includes('## Actual Output\n```\n-294967296\n```'));
+		assert.ok(prompt.includes(`${'x'.repeat(4000)}\n... (truncated)`));
+		assert.ok(!prompt.includes('## Error'));
+	});
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+
+import { OutputChecker } from '../webview/OutputChecker';
+
+suite('OutputChecker Test Suite', () => {
+	const checker = new OutputChecker();
+
+	test('exact ignores trailing whitespace only', async () => {
+		assert.strictEqual((await checker.check({ type: 'exact' }, '', '1 2  \n3\n\n', '1 2\n3')).passed, true);
+		assert.strictEqual((await checker.check({ type: 'exact' }, '', '1  2\n3', '1 2\n3')).passed, false);
+	});
+
+	test('tokens ignores whitespace layout', async () => {
+		assert.strictEqual((await checker.check({ type: 'tokens' }, '', '1  2\n3', '1 2 3')).passed, true);
+
+		const result = await checker.check({ type: 'tokens' }, '', '1 2', '1 2 3');
+		assert.strictEqual(result.passed, false);
+		assert.strictEqual(result.message, 'expected 3 tokens, found 2');
+	});
+
+	test('caseInsensitive accepts YES/yes', async () => {
+		assert.strictEqual((await checker.check({ type: 'caseInsensitive' }, '', 'yes\nNo', 'YES\nNO')).passed, true);
+		assert.strictEqual((await checker.check({ type: 'caseInsensitive' }, '', 'yes', 'NO')).passed, false);
+	});
+
+	test('epsilon accepts absolute or relative error', async () => {
+		const config = { type: 'epsilon' as const, epsilon: 1e-6 };
+		assert.strictEqual((await checker.check(config, '', '0.3333334', '0.333333')).passed, true);
+		assert.strictEqual((await checker.check(config, '', '1000000.5', '1000000')).passed, true);
+		assert.strictEqual((await checker.check(config, '', '0.334', '0.333333')).passed, false);
+		assert.strictEqual((await checker.check(config, '', 'NO', 'NO')).passed, true);
+	});
+
+	test('unordered compares lines as a multiset', async () => {
+		assert.strictEqual((await checker.check({ type: 'unordered' }, '', '3\n1\n2', '1\n2\n3')).passed, true);
+		assert.strictEqual((await checker.check({ type: 'unordered' }, '', '1\n1\n2', '1\n2\n2')).passed, false);
+	});
+
+	test('testlib without a checker path fails', async () => {
+		const result = await checker.check({ type: 'testlib' }, '', '1', '1');
+		assert.strictEqual(result.passed, false);
+	});
+
+	test('testlib with a missing checker fails', async () => {
+		const result = await checker.check({ type: 'testlib', checkerPath: '/nonexistent/checker' }, '', '1', '1');
+		assert.strictEqual(result.passed, false);
+		assert.strictEqual(result.message, 'Checker not found: /nonexistent/checker');
+	});
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+
+import { OutputDiff } from '../webview/OutputDiff';
+
+suite('OutputDiff Test Suite', () => {
+	test('matching output has no mismatch', () => {
+		const diff = OutputDiff.compute('1 2\n3\n', '1 2  \r\n3\n\n');
+		assert.strictEqual(diff.firstMismatch, null);
+		assert.ok(diff.lines.every(line => line.matches));
+	});
+
+	test('marks the first differing line', () => {
+		const diff = OutputDiff.compute('YES\nNO\nYES', 'YES\nYES\nNO');
+		assert.strictEqual(diff.firstMismatch, 1);
+		assert.deepStrictEqual(diff.lines.map(line => line.matches), [true, false, false]);
+	});
+
+	test('reports missing and extra lines', () => {
+		const diff = OutputDiff.compute('1\n2', '1');
+		assert.strictEqual(diff.firstMismatch, 1);
+		assert.deepStrictEqual(diff.lines[1], { lineNumber: 2, expected: '2', actual: null, matches: false });
+	});
+});
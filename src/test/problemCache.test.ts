@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ProblemCache } from '../webview/ProblemCache';
+import { ProblemData } from '../webview/Interfaces';
+
+suite('ProblemCache Test Suite', () => {
+	const problem: ProblemData = {
+		title: 'Watermelon',
+		timeLimit: '1 second',
+		memoryLimit: '64 megabytes',
+		description: '',
+		inputFormat: '',
+		outputFormat: '',
+		sampleTests: [{ input: '8', output: 'YES' }],
+		source: 'Contest 4',
+		contestId: 4,
+		index: 'A',
+		url: 'https://codeforces.com/problemset/problem/4/A'
+	};
+
+	let cacheDir: string;
+	let cache: ProblemCache;
+
+	setup(() => {
+		cacheDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cf-cache-test-')), 'problems');
+		cache = new ProblemCache(cacheDir);
+	});
+
+	teardown(() => {
+		fs.rmSync(path.dirname(cacheDir), { recursive: true, force: true });
+	});
+
+	test('returns nothing for a problem that was never fetched', () => {
+		assert.strictEqual(cache.get(4, 'A'), undefined);
+	});
+
+	test('stores a problem with the time it was fetched', () => {
+		const entry = cache.set(problem);
+		const cached = cache.get(4, 'a');
+
+		assert.deepStrictEqual(cached?.problem, problem);
+		assert.strictEqual(cached?.fetchedAt, entry.fetchedAt);
+		assert.ok(!isNaN(Date.parse(entry.fetchedAt)));
+	});
+
+	test('refuses problems without a contest id and index or a URL', () => {
+		assert.throws(() => cache.set({ ...problem, contestId: undefined, url: undefined }));
+	});
+
+	test('keeps problems from other judges under their URL', () => {
+		const other = { ...problem, contestId: undefined, index: undefined, url: 'https://atcoder.jp/contests/abc300/tasks/abc300_a' };
+		cache.set(other);
+		cache.setStatus(other, 'passing', '/work/abc300_a.cpp');
+
+		assert.deepStrictEqual(cache.list().map(entry => [entry.problem.url, entry.status]), [[other.url, 'passing']]);
+		assert.strictEqual(cache.remove(other), true);
+		assert.deepStrictEqual(cache.list(), []);
+	});
+
+	test('clears every cached problem', () => {
+		cache.set(problem);
+		cache.set({ ...problem, index: 'B' });
+
+		assert.strictEqual(cache.clear(), 2);
+		assert.strictEqual(cache.get(4, 'A'), undefined);
+		assert.strictEqual(cache.clear(), 0);
+	});
+
+	test('lists and removes cached problems', () => {
+		cache.set(problem);
+		cache.set({ ...problem, index: 'B' });
+
+		assert.deepStrictEqual(cache.list().map(entry => entry.problem.index).sort(), ['A', 'B']);
+		assert.strictEqual(cache.remove({ contestId: 4, index: 'b' }), true);
+		assert.strictEqual(cache.remove({ contestId: 4, index: 'B' }), false);
+		assert.deepStrictEqual(cache.list().map(entry => entry.problem.index), ['A']);
+	});
+
+	test('records the test status and keeps it when the problem is fetched again', () => {
+		assert.strictEqual(cache.setStatus(problem, 'failing', '/work/4A.cpp'), undefined);
+
+		cache.set(problem);
+		cache.setStatus(problem, 'passing', '/work/4A.cpp');
+		cache.set({ ...problem, title: 'Watermelon (updated)' });
+		const cached = cache.get(4, 'A');
+
+		assert.strictEqual(cached?.status, 'passing');
+		assert.strictEqual(cached?.sourcePath, '/work/4A.cpp');
+		assert.strictEqual(cached?.problem.title, 'Watermelon (updated)');
+	});
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+
+import { ProblemPageParser } from '../webview/ProblemPageParser';
+import { readFixtureText } from './fixtures';
+
+suite('ProblemPageParser Test Suite', () => {
+	const parser = new ProblemPageParser();
+
+	test('parses the header, limits, difficulty and tags', () => {
+		const problem = parser.parse(readFixtureText('problem-4A.html'));
+
+		assert.strictEqual(problem.title, 'Watermelon');
+		assert.strictEqual(problem.timeLimit, '1 second');
+		assert.strictEqual(problem.memoryLimit, '64 megabytes');
+		assert.strictEqual(problem.difficulty, '*800');
+		assert.deepStrictEqual(problem.tags, ['brute force', 'math']);
+	});
+
+	test('keeps the statement sections as HTML without their titles', () => {
+		const problem = parser.parse(readFixtureText('problem-4A.html'));
+
+		assert.ok(problem.description.startsWith('<p>One hot summer day Pete'));
+		assert.ok(problem.description.includes('<span class="tex-span"><i>w</i></span>'));
+		assert.ok(problem.inputFormat.startsWith('<p>The first (and the only) input line'));
+		assert.ok(!problem.inputFormat.includes('section-title'));
+		assert.ok(problem.outputFormat.startsWith('<p>Print <span class="tex-font-style-tt">YES</span>'));
+	});
+
+	test('reads plain samples', () => {
+		const problem = parser.parse(readFixtureText('problem-4A.html'));
+
+		assert.deepStrictEqual(problem.sampleTests, [{ input: '8', output: 'YES' }]);
+	});
+
+	test('reads samples split into example lines or <br> tags', () => {
+		const problem = parser.parse(readFixtureText('problem-1352C.html'));
+
+		assert.strictEqual(problem.title, 'K-th Not Divisible by n');
+		assert.strictEqual(problem.difficulty, '*1200');
+		assert.deepStrictEqual(problem.tags, ['binary search']);
+		assert.deepStrictEqual(problem.sampleTests, [
+			{ input: '3\n3 7\n4 12\n2 1000000000', output: '10\n15\n1999999999' },
+			{ input: '1\n7 97', output: '113' }
+		]);
+	});
+
+	test('rejects pages without a problem statement', () => {
+		assert.throws(
+			() => parser.parse('<html><body>Just a moment...</body></html>'),
+			/Problem statement not found/
+		);
+	});
+});
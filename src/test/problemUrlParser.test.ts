@@ -0,0 +1,196 @@
+import * as assert from 'assert';
+
+import { ProblemUrlParser } from '../webview/ProblemUrlParser';
+
+suite('ProblemUrlParser Test Suite', () => {
+	suite('problem URLs', () => {
+		test('parses problemset URLs', () => {
+			assert.deepStrictEqual(ProblemUrlParser.parse('https://codeforces.com/problemset/problem/4/A'), {
+				kind: 'contest',
+				contestId: 4,
+				index: 'A',
+				host: 'codeforces.com'
+			});
+		});
+
+		test('parses contest URLs with multi-part indices', () => {
+			assert.deepStrictEqual(ProblemUrlParser.parse('https://codeforces.com/contest/1850/problem/G'), {
+				kind: 'contest',
+				contestId: 1850,
+				index: 'G',
+				host: 'codeforces.com'
+			});
+			assert.strictEqual(ProblemUrlParser.parse('https://codeforces.com/contest/1776/problem/F1').index, 'F1');
+			assert.strictEqual(ProblemUrlParser.parse('https://codeforces.com/contest/1/problem/b12').index, 'B12');
+		});
+
+		test('parses gym URLs', () => {
+			assert.deepStrictEqual(ProblemUrlParser.parse('https://codeforces.com/gym/104114/problem/K'), {
+				kind: 'gym',
+				contestId: 104114,
+				index: 'K',
+				host: 'codeforces.com'
+			});
+			assert.strictEqual(ProblemUrlParser.parse('https://codeforces.com/problemset/gymProblem/100001/A').kind, 'gym');
+		});
+
+		test('parses group URLs and keeps the group id as written', () => {
+			assert.deepStrictEqual(ProblemUrlParser.parse('https://codeforces.com/group/MWSDmqGsZm/contest/219158/problem/C'), {
+				kind: 'group',
+				contestId: 219158,
+				index: 'C',
+				groupId: 'MWSDmqGsZm',
+				host: 'codeforces.com'
+			});
+		});
+
+		test('accepts mirrors, subdomains and other schemes', () => {
+			assert.strictEqual(ProblemUrlParser.parse('https://m1.codeforces.com/contest/1850/problem/G').host, 'm1.codeforces.com');
+			assert.strictEqual(ProblemUrlParser.parse('https://m3.codeforces.com/problemset/problem/4/A').contestId, 4);
+			assert.strictEqual(ProblemUrlParser.parse('http://www.codeforces.com/contest/4/problem/A').host, 'www.codeforces.com');
+			assert.strictEqual(ProblemUrlParser.parse('https://codeforces.ru/contest/4/problem/A').host, 'codeforces.ru');
+			assert.strictEqual(ProblemUrlParser.parse('https://codeforc.es/contest/4/problem/A').host, 'codeforc.es');
+			assert.strictEqual(ProblemUrlParser.parse('https://CODEFORCES.COM/CONTEST/4/PROBLEM/a').index, 'A');
+		});
+
+		test('ignores query strings, fragments and trailing slashes', () => {
+			const expected = { kind: 'contest', contestId: 1850, index: 'G', host: 'codeforces.com' };
+			assert.deepStrictEqual(ProblemUrlParser.parse('https://codeforces.com/contest/1850/problem/G?mobile=true'), expected);
+			assert.deepStrictEqual(ProblemUrlParser.parse('https://codeforces.com/contest/1850/problem/G?locale=en#statement'), expected);
+			assert.deepStrictEqual(ProblemUrlParser.parse('https://codeforces.com/contest/1850/problem/G/'), expected);
+		});
+
+		test('accepts URLs without a scheme and surrounding whitespace', () => {
+			assert.deepStrictEqual(ProblemUrlParser.parse('  codeforces.com/contest/1850/problem/G \n'), {
+				kind: 'contest',
+				contestId: 1850,
+				index: 'G',
+				host: 'codeforces.com'
+			});
+		});
+	});
+
+	suite('bare problem IDs', () => {
+		const cases: [string, number, string][] = [
+			['1850G', 1850, 'G'],
+			['1850g', 1850, 'G'],
+			['1850 G', 1850, 'G'],
+			['1850/G', 1850, 'G'],
+			['1850-G', 1850, 'G'],
+			['1850_G', 1850, 'G'],
+			['CF1850G', 1850, 'G'],
+			['cf 1850 g', 1850, 'G'],
+			['1776F1', 1776, 'F1'],
+			['4A', 4, 'A']
+		];
+
+		cases.forEach(([input, contestId, index]) => {
+			test(`parses "${input}"`, () => {
+				assert.deepStrictEqual(ProblemUrlParser.parse(input), { kind: 'contest', contestId, index });
+			});
+		});
+
+		test('treats IDs in the gym range as gym problems', () => {
+			assert.deepStrictEqual(ProblemUrlParser.parse('104114K'), { kind: 'gym', contestId: 104114, index: 'K' });
+		});
+	});
+
+	suite('rejected input', () => {
+		[
+			'',
+			'hello',
+			'1850',
+			'1850GG',
+			'G1850',
+			'https://example.com/contest/1850/problem/G',
+			'https://codeforces.com.evil.com/contest/1850/problem/G',
+			'https://codeforces.com/contest/1850',
+			'https://codeforces.com/contest/abc/problem/G',
+			'https://codeforces.com/contest/1850/problem/GG',
+			'https://codeforces.com/blog/entry/1850',
+			'https://codeforces.com/contest/1850/submission/123',
+			'https://codeforces.com/contest/1850/problem/%E0'
+		].forEach(input => {
+			test(`rejects "${input}"`, () => {
+				assert.strictEqual(ProblemUrlParser.tryParse(input), undefined);
+				assert.throws(() => ProblemUrlParser.parse(input), /Not a Codeforces problem URL or ID/);
+			});
+		});
+	});
+
+	suite('contests', () => {
+		test('parses contest, gym and group URLs', () => {
+			assert.deepStrictEqual(ProblemUrlParser.parseContest('https://codeforces.com/contest/1850'), {
+				kind: 'contest',
+				contestId: 1850,
+				host: 'codeforces.com'
+			});
+			assert.deepStrictEqual(ProblemUrlParser.parseContest('https://codeforces.com/contest/1850/standings'), {
+				kind: 'contest',
+				contestId: 1850,
+				host: 'codeforces.com'
+			});
+			assert.deepStrictEqual(ProblemUrlParser.parseContest('m2.codeforces.com/gym/104114'), {
+				kind: 'gym',
+				contestId: 104114,
+				host: 'm2.codeforces.com'
+			});
+			assert.deepStrictEqual(ProblemUrlParser.parseContest('https://codeforces.com/group/MWSDmqGsZm/contest/219158'), {
+				kind: 'group',
+				contestId: 219158,
+				groupId: 'MWSDmqGsZm',
+				host: 'codeforces.com'
+			});
+		});
+
+		test('parses bare contest IDs', () => {
+			assert.deepStrictEqual(ProblemUrlParser.parseContest('1850'), { kind: 'contest', contestId: 1850 });
+			assert.deepStrictEqual(ProblemUrlParser.parseContest('CF1850'), { kind: 'contest', contestId: 1850 });
+			assert.deepStrictEqual(ProblemUrlParser.parseContest('104114'), { kind: 'gym', contestId: 104114 });
+		});
+
+		test('returns the contest of a problem', () => {
+			assert.deepStrictEqual(ProblemUrlParser.parseContest('1850G'), { kind: 'contest', contestId: 1850 });
+			assert.deepStrictEqual(ProblemUrlParser.parseContest('https://codeforces.com/problemset/problem/4/A'), {
+				kind: 'contest',
+				contestId: 4,
+				host: 'codeforces.com'
+			});
+		});
+
+		test('rejects other input', () => {
+			assert.strictEqual(ProblemUrlParser.tryParseContest('https://codeforces.com/blog/entry/1850'), undefined);
+			assert.strictEqual(ProblemUrlParser.tryParseContest('https://codeforces.com/problemset'), undefined);
+			assert.strictEqual(ProblemUrlParser.tryParseContest('https://codeforces.com/contest/%E0'), undefined);
+			assert.throws(() => ProblemUrlParser.parseContest('round 1850'), /Not a Codeforces contest URL or ID/);
+		});
+	});
+
+	suite('URL building', () => {
+		test('builds canonical URLs on the default host', () => {
+			assert.strictEqual(
+				ProblemUrlParser.toUrl(ProblemUrlParser.parse('1850 G')),
+				'https://codeforces.com/contest/1850/problem/G'
+			);
+			assert.strictEqual(
+				ProblemUrlParser.toUrl(ProblemUrlParser.parse('104114K')),
+				'https://codeforces.com/gym/104114/problem/K'
+			);
+		});
+
+		test('keeps the host and group of the original URL', () => {
+			assert.strictEqual(
+				ProblemUrlParser.toUrl(ProblemUrlParser.parse('https://m1.codeforces.com/problemset/problem/4/A?mobile=true')),
+				'https://m1.codeforces.com/contest/4/problem/A'
+			);
+			assert.strictEqual(
+				ProblemUrlParser.toUrl(ProblemUrlParser.parse('codeforces.com/group/MWSDmqGsZm/contest/219158/problem/C')),
+				'https://codeforces.com/group/MWSDmqGsZm/contest/219158/problem/C'
+			);
+			assert.strictEqual(
+				ProblemUrlParser.toContestUrl(ProblemUrlParser.parseContest('https://codeforces.com/gym/104114')),
+				'https://codeforces.com/gym/104114'
+			);
+		});
+	});
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ProblemsetStore } from '../webview/ProblemsetStore';
+import { ProblemsetQuery } from '../webview/ProblemsetQuery';
+import { CodeforcesApiContest, CodeforcesApiProblemset, CodeforcesApiResponse, ProblemsetFilter } from '../webview/Interfaces';
+import { readFixture } from './fixtures';
+
+suite('Problemset Test Suite', () => {
+	const snapshot = ProblemsetStore.build(
+		readFixture<CodeforcesApiResponse<CodeforcesApiProblemset>>('problemset-problems.json').result,
+		readFixture<CodeforcesApiResponse<CodeforcesApiContest[]>>('contest-list.json').result,
+		'2026-10-19T00:00:00.000Z'
+	);
+	const filter = (overrides: Partial<ProblemsetFilter>): ProblemsetFilter => ({ ...ProblemsetStore.defaultFilter, ...overrides });
+	const ids = (problems: { contestId: number; index: string }[]) => problems.map(ProblemsetQuery.key);
+
+	test('joins problems with their solved counts and contest divisions', () => {
+		const problem = snapshot.problems.find(entry => ProblemsetQuery.key(entry) === '1841C');
+
+		assert.strictEqual(snapshot.problems.length, 8);
+		assert.strictEqual(problem?.solvedCount, 8653);
+		assert.strictEqual(problem?.contestName, 'Educational Codeforces Round 150 (Rated for Div. 2)');
+		assert.strictEqual(problem?.division, 'div2');
+		assert.strictEqual(snapshot.problems.find(entry => entry.contestId === 1776)?.solvedCount, 0);
+	});
+
+	test('reads the division from the contest name', () => {
+		assert.strictEqual(ProblemsetStore.parseDivision('Codeforces Round 886 (Div. 4)'), 'div4');
+		assert.strictEqual(ProblemsetStore.parseDivision('CodeTON Round 5 (Div. 1 + Div. 2, Rated, Prizes!)'), 'div1+2');
+		assert.strictEqual(ProblemsetStore.parseDivision('Codeforces Round 900 (Div. 1 + 2)'), 'div1+2');
+		assert.strictEqual(ProblemsetStore.parseDivision('Codeforces Beta Round 4 (Div. 2 Only)'), 'div2');
+		assert.strictEqual(ProblemsetStore.parseDivision('SWERC 2022-2023 - Online Mirror'), 'other');
+		assert.strictEqual(ProblemsetStore.parseDivision(undefined), 'other');
+	});
+
+	test('filters by any or all of the selected tags', () => {
+		const tags = ['binary search', 'dp'];
+
+		assert.deepStrictEqual(ids(ProblemsetQuery.apply(snapshot.problems, filter({ tags }))), ['1352C', '1841C', '1848F']);
+		assert.deepStrictEqual(ids(ProblemsetQuery.apply(snapshot.problems, filter({ tags, tagMode: 'all' }))), ['1848F']);
+	});
+
+	test('filters by rating range, division and name or ID', () => {
+		assert.deepStrictEqual(
+			ids(ProblemsetQuery.apply(snapshot.problems, filter({ minRating: 1200, maxRating: 1800 }))),
+			['1352C', '1850G', '1841C']
+		);
+		assert.deepStrictEqual(ids(ProblemsetQuery.apply(snapshot.problems, filter({ divisions: ['div4'] }))), ['1850A', '1352C', '1850G']);
+		assert.deepStrictEqual(ids(ProblemsetQuery.apply(snapshot.problems, filter({ name: 'wIKI' }))), ['1848F']);
+		assert.deepStrictEqual(ids(ProblemsetQuery.apply(snapshot.problems, filter({ name: '1850g' }))), ['1850G']);
+	});
+
+	test('sorts by rating with unrated problems last, or by solved count', () => {
+		assert.deepStrictEqual(
+			ids(ProblemsetQuery.apply(snapshot.problems, filter({ sortOrder: 'desc' }))),
+			['1842I', '1848F', '1841C', '1850G', '1352C', '1850A', '4A', '1776M']
+		);
+		assert.deepStrictEqual(
+			ids(ProblemsetQuery.apply(snapshot.problems, filter({ sortBy: 'solvedCount', sortOrder: 'desc' }))).slice(0, 3),
+			['4A', '1352C', '1850A']
+		);
+	});
+
+	test('picks a random unsolved problem that matches the filter', () => {
+		const solved = new Set(['1850A']);
+		const easy = filter({ maxRating: 800 });
+
+		assert.strictEqual(ProblemsetQuery.key(ProblemsetQuery.pickRandom(snapshot.problems, easy, solved, () => 0.99)!), '4A');
+		assert.strictEqual(ProblemsetQuery.pickRandom(snapshot.problems, easy, new Set(['1850A', '4A'])), undefined);
+	});
+
+	test('lists every tag once, alphabetically', () => {
+		const tags = ProblemsetQuery.getTags(snapshot.problems);
+
+		assert.strictEqual(tags[0], 'binary search');
+		assert.strictEqual(new Set(tags).size, tags.length);
+		assert.ok(tags.includes('trees'));
+	});
+
+	test('looks problems up in a recently fetched problemset without refreshing it', async () => {
+		const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cf-problemset-test-'));
+		try {
+			fs.writeFileSync(path.join(storageDir, 'problems.json'), JSON.stringify({ ...snapshot, fetchedAt: new Date().toISOString() }));
+			const store = new ProblemsetStore(storageDir);
+
+			assert.deepStrictEqual(await store.find(1850, 'G'), snapshot.problems.find(problem => ProblemsetQuery.key(problem) === '1850G'));
+			assert.strictEqual(await store.find(1850, 'Z'), undefined);
+		} finally {
+			fs.rmSync(storageDir, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+
+import { ResourceLimits } from '../webview/ResourceLimits';
+import { ProblemData } from '../webview/Interfaces';
+
+suite('ResourceLimits Test Suite', () => {
+	test('parses time limits', () => {
+		assert.strictEqual(ResourceLimits.parseTimeLimit('2 seconds'), 2000);
+		assert.strictEqual(ResourceLimits.parseTimeLimit('1 second'), 1000);
+		assert.strictEqual(ResourceLimits.parseTimeLimit('2.5 seconds'), 2500);
+		assert.strictEqual(ResourceLimits.parseTimeLimit('500 milliseconds'), 500);
+		assert.strictEqual(ResourceLimits.parseTimeLimit('unknown'), undefined);
+	});
+
+	test('parses memory limits in kilobytes', () => {
+		assert.strictEqual(ResourceLimits.parseMemoryLimit('256 megabytes'), 256 * 1024);
+		assert.strictEqual(ResourceLimits.parseMemoryLimit('1 gigabyte'), 1024 * 1024);
+		assert.strictEqual(ResourceLimits.parseMemoryLimit('64 MB'), 64 * 1024);
+		assert.strictEqual(ResourceLimits.parseMemoryLimit(''), undefined);
+	});
+
+	test('reports the exceeded limit of a finished run', () => {
+		const limits = { timeLimitMs: 1000, memoryLimitKb: 256 * 1024 };
+
+		assert.strictEqual(ResourceLimits.getExceededLimit({ cpuTime: 900, peakMemoryKb: 1024 }, limits, 3000), undefined);
+		assert.deepStrictEqual(ResourceLimits.getExceededLimit({ cpuTime: 1200 }, limits, 1300), {
+			verdict: 'TLE',
+			error: 'Time Limit Exceeded (1200 ms > 1000 ms)'
+		});
+		assert.strictEqual(ResourceLimits.getExceededLimit({}, limits, 1500)?.verdict, 'TLE');
+		assert.strictEqual(ResourceLimits.getExceededLimit({ cpuTime: 10 }, limits, 20, 'MLE')?.verdict, 'MLE');
+		assert.deepStrictEqual(ResourceLimits.getExceededLimit({ peakMemoryKb: 300 * 1024 }, limits, 10), {
+			verdict: 'MLE',
+			error: `Memory Limit Exceeded (${300 * 1024} KB > ${256 * 1024} KB)`
+		});
+	});
+
+	test('applies multipliers and falls back to the default time limit', () => {
+		const problem = { timeLimit: '2 seconds', memoryLimit: '256 megabytes' } as ProblemData;
+		assert.deepStrictEqual(ResourceLimits.fromProblem(problem, 1.5, 2), {
+			timeLimitMs: 3000,
+			memoryLimitKb: 512 * 1024
+		});
+
+		const unknown = { timeLimit: '', memoryLimit: '' } as ProblemData;
+		assert.deepStrictEqual(ResourceLimits.fromProblem(unknown), {
+			timeLimitMs: ResourceLimits.defaultTimeLimitMs,
+			memoryLimitKb: undefined
+		});
+	});
+});
@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+
+import { SanitizerReport } from '../webview/SanitizerReport';
+
+suite('SanitizerReport Test Suite', () => {
+	test('parses an AddressSanitizer report', () => {
+		const stderr = [
+			'=================================================================',
+			'==6008==ERROR: AddressSanitizer: heap-buffer-overflow on address 0x602000000048 at pc 0x562db9b0078e bp 0x7ffe94f6cc60 sp 0x7ffe94f6cc58',
+			'READ of size 4 at 0x602000000048 thread T0',
+			'    #0 0x562db9b0078d in main /tmp/w9/a.cpp:3',
+			'    #1 0x7f7f8e845249  (/lib/x86_64-linux-gnu/libc.so.6+0x27249)',
+			'',
+			'allocated by thread T0 here:',
+			'    #0 0x7f7f8eab9628 in operator new[](unsigned long) ../../../../src/libsanitizer/asan/asan_new_delete.cpp:98',
+			'',
+			'SUMMARY: AddressSanitizer: heap-buffer-overflow /tmp/w9/a.cpp:3 in main'
+		].join('\n');
+
+		assert.deepStrictEqual(SanitizerReport.parse(stderr), {
+			tool: 'AddressSanitizer',
+			message: 'heap-buffer-overflow (READ of size 4)',
+			location: '/tmp/w9/a.cpp:3 in main'
+		});
+	});
+
+	test('parses an UndefinedBehaviorSanitizer report', () => {
+		const stderr = "a.cpp:4:25: runtime error: signed integer overflow: 2147483647 + 2 cannot be represented in type 'int'\n";
+
+		const finding = SanitizerReport.parse(stderr);
+		assert.deepStrictEqual(finding, {
+			tool: 'UndefinedBehaviorSanitizer',
+			message: "signed integer overflow: 2147483647 + 2 cannot be represented in type 'int'",
+			location: 'a.cpp:4:25'
+		});
+		assert.strictEqual(
+			SanitizerReport.format(finding!),
+			"UndefinedBehaviorSanitizer: signed integer overflow: 2147483647 + 2 cannot be represented in type 'int'\n    at a.cpp:4:25"
+		);
+	});
+
+	test('parses a _GLIBCXX_DEBUG assertion', () => {
+		const stderr = [
+			'/usr/include/c++/12/debug/vector:442:',
+			'In function:',
+			'    std::debug::vector<_Tp, _Allocator>::reference std::debug::vector<_Tp, ',
+			'    _Allocator>::operator[](size_type) [with _Tp = int]',
+			'',
+			'Error: attempt to subscript container with out-of-bounds index 5, but ',
+			'container only holds 3 elements.',
+			'',
+			'Objects involved in the operation:'
+		].join('\n');
+
+		assert.deepStrictEqual(SanitizerReport.parse(stderr), {
+			tool: '_GLIBCXX_DEBUG',
+			message: 'attempt to subscript container with out-of-bounds index 5, but container only holds 3 elements.'
+		});
+	});
+
+	test('ignores ordinary stderr output', () => {
+		assert.strictEqual(SanitizerReport.parse('debug: n = 5\nError: not from a sanitizer\n'), undefined);
+	});
+});
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import { SourceBundler } from '../webview/SourceBundler';
+import { BundleOptions } from '../webview/Interfaces';
+
+const fixtureDir = path.resolve(__dirname, '..', '..', 'src', 'test', 'fixtures', 'bundle');
+
+const bundle = (options: Partial<BundleOptions> = {}) => new SourceBundler({
+	includePaths: [path.join(fixtureDir, 'include')],
+	stripLocalBlocks: true,
+	removeComments: false,
+	removeUnused: false,
+	...options
+}).bundle(path.join(fixtureDir, 'main.cpp'));
+
+const count = (text: string, part: string): number => text.split(part).length - 1;
+
+suite('SourceBundler Test Suite', () => {
+	test('inlines local headers once and keeps system headers', () => {
+		const result = bundle();
+
+		assert.ok(result.code.startsWith('#include <bits/stdc++.h>\n'));
+		assert.ok(!result.code.includes('#include "lib/'));
+		assert.ok(!result.code.includes('#include <algo/'));
+		assert.ok(!result.code.includes('#pragma once'));
+		assert.strictEqual(count(result.code, 'struct SegTree {'), 1);
+		assert.strictEqual(count(result.code, 'long long gcd_ll('), 1);
+		assert.deepStrictEqual(
+			result.includedFiles.map(file => path.relative(fixtureDir, file).split(path.sep).join('/')),
+			['lib/segtree.hpp', 'lib/math.hpp', 'include/algo/power.hpp']
+		);
+		assert.deepStrictEqual(result.missingIncludes, []);
+	});
+
+	test('puts headers before the code that includes them', () => {
+		const { code } = bundle();
+
+		assert.ok(code.indexOf('long long gcd_ll(') < code.indexOf('struct SegTree {'));
+		assert.ok(code.indexOf('struct SegTree {') < code.indexOf('int main()'));
+	});
+
+	test('drops #ifdef LOCAL blocks and keeps their #else branch', () => {
+		const { code } = bundle();
+
+		assert.ok(!code.includes('LOCAL'));
+		assert.ok(!code.includes('std::cerr'));
+		assert.ok(code.includes('#define dbg(...)\n'));
+	});
+
+	test('keeps #ifdef LOCAL blocks when stripping is off', () => {
+		const { code } = bundle({ stripLocalBlocks: false });
+
+		assert.ok(code.includes('#ifdef LOCAL'));
+		assert.ok(code.includes('std::cerr'));
+	});
+
+	test('removes comments but not comment-like strings', () => {
+		const { code } = bundle({ removeComments: true });
+
+		assert.ok(!code.includes('Reads the array'));
+		assert.ok(!code.includes('/* done */'));
+		assert.ok(!code.includes('Number theory helpers'));
+		assert.ok(code.includes('"// not a comment"'));
+		assert.ok(code.includes('1\'000\'000\'007'));
+	});
+
+	test('removes library definitions the solution does not use', () => {
+		const { code } = bundle({ removeUnused: true });
+
+		assert.ok(code.includes('long long gcd_ll('));
+		assert.ok(code.includes('struct SegTree {'));
+		assert.ok(code.includes('long long power('));
+		assert.ok(!code.includes('lcm_ll'));
+		assert.ok(!code.includes('struct Fraction'));
+		assert.ok(!code.includes('int square('));
+		assert.ok(code.includes('namespace algo {'));
+		assert.ok(code.includes('const long long big'));
+		assert.ok(code.includes('int main()'));
+	});
+
+	test('leaves includes outside the include paths in place', () => {
+		const result = new SourceBundler({
+			includePaths: [],
+			stripLocalBlocks: true,
+			removeComments: false,
+			removeUnused: false
+		}).bundle(path.join(fixtureDir, 'main.cpp'));
+
+		assert.ok(result.code.includes('#include <algo/power.hpp>'));
+		assert.deepStrictEqual(result.missingIncludes, []);
+	});
+
+	test('resolves #if defined(LOCAL) chains with #elif', () => {
+		const lines = SourceBundler.stripLocalBlocks([
+			'#if defined(LOCAL)',
+			'debug();',
+			'#elif ONLINE_JUDGE',
+			'judge();',
+			'#else',
+			'other();',
+			'#endif',
+			'#ifndef LOCAL',
+			'fast();',
+			'#else',
+			'slow();',
+			'#endif'
+		]);
+
+		assert.deepStrictEqual(lines, ['#if ONLINE_JUDGE', 'judge();', '#else', 'other();', '#endif', 'fast();']);
+	});
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+
+import { TemplateRenderer } from '../webview/TemplateRenderer';
+import { ProblemData } from '../webview/Interfaces';
+
+suite('TemplateRenderer Test Suite', () => {
+	const problem: ProblemData = {
+		title: 'Watermelon',
+		timeLimit: '1 second',
+		memoryLimit: '64 megabytes',
+		description: '',
+		inputFormat: '',
+		outputFormat: '',
+		sampleTests: [
+			{ input: '8', output: 'YES' },
+			{ input: '3', output: 'NO', explanation: '3 is odd' }
+		],
+		source: 'Contest 4',
+		contestId: 4,
+		index: 'A',
+		url: 'https://codeforces.com/problemset/problem/4/A'
+	};
+	const date = new Date(2024, 0, 5);
+
+	test('fills the problem placeholders', () => {
+		const { content } = TemplateRenderer.render(
+			'// ${contestId}${index} ${title} (${timeLimit}, ${memoryLimit})\n// ${url}\n// ${date} ${fileBase}',
+			problem,
+			'watermelon',
+			date
+		);
+
+		assert.strictEqual(
+			content,
+			'// 4A Watermelon (1 second, 64 megabytes)\n// https://codeforces.com/problemset/problem/4/A\n// 2024-01-05 watermelon'
+		);
+	});
+
+	test('formats the samples', () => {
+		const { content } = TemplateRenderer.render('${samples}', problem, 'a', date);
+
+		assert.strictEqual(content, [
+			'Test 1:', 'Input:', '8', '', 'Expected Output:', 'YES',
+			'',
+			'Test 2:', 'Input:', '3', '', 'Expected Output:', 'NO', '', 'Explanation: 3 is odd'
+		].join('\n'));
+	});
+
+	test('removes the cursor marker and reports its offset', () => {
+		const rendered = TemplateRenderer.render('int main() {\n    ${cursor}\n}\n', problem, 'a', date);
+
+		assert.strictEqual(rendered.content, 'int main() {\n    \n}\n');
+		assert.strictEqual(rendered.cursorOffset, 'int main() {\n    '.length);
+	});
+
+	test('leaves unknown placeholders and missing values alone', () => {
+		const rendered = TemplateRenderer.render(
+			'echo ${HOME} [${contestId}] [${index}]',
+			{ ...problem, contestId: undefined, index: undefined, title: '${title}' },
+			'a',
+			date
+		);
+
+		assert.strictEqual(rendered.content, 'echo ${HOME} [] []');
+		assert.strictEqual(rendered.cursorOffset, undefined);
+	});
+
+	test('does not expand placeholders inside values', () => {
+		const { content } = TemplateRenderer.render('${title}', { ...problem, title: 'Sum ${url}' }, 'a', date);
+
+		assert.strictEqual(content, 'Sum ${url}');
+	});
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+
+import { UserProgressStore } from '../webview/UserProgressStore';
+import { ProgressStatistics } from '../webview/ProgressStatistics';
+import { CodeforcesApiResponse, CodeforcesApiSubmission } from '../webview/Interfaces';
+import { readFixture } from './fixtures';
+
+suite('UserProgress Test Suite', () => {
+	const submissions = readFixture<CodeforcesApiResponse<CodeforcesApiSubmission[]>>('user-status.json').result;
+	const progress = UserProgressStore.parse('practice_account', submissions, '2026-10-19T12:00:00.000Z');
+	const stateOf = (key: string) =>
+		progress.problems.find(problem => `${problem.contestId}${problem.index}` === key)?.state;
+
+	test('marks problems with an accepted submission as solved and the rest as attempted', () => {
+		assert.strictEqual(progress.problems.length, 9);
+		assert.strictEqual(stateOf('1850G'), 'solved');
+		assert.strictEqual(stateOf('4A'), 'solved');
+		assert.strictEqual(stateOf('1848F'), 'attempted');
+		// Still being judged
+		assert.strictEqual(stateOf('1776M'), 'attempted');
+	});
+
+	test('skips problems outside contests', () => {
+		assert.ok(progress.problems.every(problem => problem.contestId !== undefined));
+	});
+
+	test('dates a solve by its first accepted submission', () => {
+		const problem = progress.problems.find(entry => entry.contestId === 1352);
+
+		assert.strictEqual(problem?.solvedAt, Date.parse('2026-10-17T12:00:00Z') / 1000);
+	});
+
+	test('counts solved problems by rating and by tag', () => {
+		const stats = ProgressStatistics.compute(progress, new Date('2026-10-19T12:00:00Z'));
+
+		assert.strictEqual(stats.solved, 7);
+		assert.strictEqual(stats.attempted, 2);
+		assert.deepStrictEqual(stats.byRating, [
+			{ rating: 800, count: 3 },
+			{ rating: 1200, count: 1 },
+			{ rating: 1500, count: 1 },
+			{ rating: 1800, count: 1 },
+			{ rating: 3500, count: 1 }
+		]);
+		assert.deepStrictEqual(stats.byTag.slice(0, 2), [{ tag: 'math', count: 4 }, { tag: 'brute force', count: 2 }]);
+		assert.ok(!stats.byTag.some(entry => entry.tag === 'bitmasks'));
+	});
+
+	test('counts first solves per day and the current and longest streaks', () => {
+		const stats = ProgressStatistics.compute(progress, new Date('2026-10-19T12:00:00Z'));
+
+		assert.strictEqual(stats.solvedPerDay['2026-10-19'], 1);
+		assert.strictEqual(stats.solvedPerDay['2026-10-16'], undefined);
+		assert.strictEqual(stats.currentStreak, 3);
+		assert.strictEqual(stats.longestStreak, 4);
+	});
+
+	test('keeps the current streak until a full day passes without a solve', () => {
+		assert.strictEqual(ProgressStatistics.compute(progress, new Date('2026-10-20T12:00:00Z')).currentStreak, 3);
+		assert.strictEqual(ProgressStatistics.compute(progress, new Date('2026-10-21T12:00:00Z')).currentStreak, 0);
+	});
+});
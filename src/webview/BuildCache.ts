@@ -0,0 +1,166 @@
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { LanguageConfig } from './Interfaces';
+import { LanguageRegistry } from './LanguageRegistry';
+
+/**
+ * Per-workspace cache of build outputs in `.codeforces/build/<hash>/`, keyed
+ * by the source, the local headers it includes and the commands used to build
+ * and run it. An entry is reused as long as none of these change.
+ */
+export class BuildCache {
+    private static readonly maxEntries = 30;
+    private static readonly builtMarker = '.built';
+
+    /**
+     * @param getWorkspaceDir returns the open workspace folder, if any; without
+     * one the cache lives in the system temp directory
+     */
+    constructor(private readonly getWorkspaceDir: () => string | undefined) { }
+
+    public getCacheRoot(): string {
+        const workspaceDir = this.getWorkspaceDir();
+        const root = workspaceDir
+            ? path.join(workspaceDir, '.codeforces', 'build')
+            : path.join(os.tmpdir(), 'cf-helper-build');
+
+        if (!fs.existsSync(root)) {
+            fs.mkdirSync(root, { recursive: true });
+            // Keep build outputs out of the user's repository
+            fs.writeFileSync(path.join(root, '.gitignore'), '*\n');
+        }
+        return root;
+    }
+
+    public getEntryDir(sourceFilePath: string, language: LanguageConfig, extraKey: string = ''): string {
+        const hash = crypto.createHash('sha256');
+        hash.update(language.id);
+        hash.update('\0' + (language.compileCommand ?? ''));
+        hash.update('\0' + language.runCommand);
+        hash.update('\0' + extraKey);
+        hash.update('\0' + sourceFilePath);
+        this.collectSources(sourceFilePath).forEach(file => {
+            hash.update('\0');
+            hash.update(fs.readFileSync(file));
+        });
+
+        return path.join(this.getCacheRoot(), hash.digest('hex').slice(0, 16));
+    }
+
+    public isBuilt(entryDir: string): boolean {
+        return fs.existsSync(path.join(entryDir, BuildCache.builtMarker));
+    }
+
+    public markUsed(entryDir: string): void {
+        const now = new Date();
+        fs.utimesSync(entryDir, now, now);
+    }
+
+    public markBuilt(entryDir: string): void {
+        fs.writeFileSync(path.join(entryDir, BuildCache.builtMarker), new Date().toISOString());
+        this.prune();
+    }
+
+    public discard(entryDir: string): void {
+        fs.rmSync(entryDir, { recursive: true, force: true });
+    }
+
+    /**
+     * Builds `bits/stdc++.h` into a precompiled header matching the flags of
+     * `compileCommand` and returns the directory to add with `-I`, or
+     * undefined when the compiler can't produce one.
+     */
+    public async getPrecompiledHeaderDir(compileCommand: string, sourceFilePath: string): Promise<string | undefined> {
+        const tokens = LanguageRegistry.splitCommand(compileCommand);
+        const flags: string[] = [];
+        for (let i = 0; i < tokens.length; i++) {
+            if (tokens[i] === '-o') {
+                i++;
+            } else if (tokens[i] !== sourceFilePath) {
+                flags.push(tokens[i]);
+            }
+        }
+
+        const [compiler, ...compilerFlags] = flags;
+        const key = crypto.createHash('sha256').update(flags.join('\0')).digest('hex').slice(0, 16);
+        const pchDir = path.join(this.getCacheRoot(), 'pch', key);
+        const gchPath = path.join(pchDir, 'bits', 'stdc++.h.gch');
+
+        if (fs.existsSync(gchPath)) {
+            return pchDir;
+        }
+
+        try {
+            const headerPath = await this.findSystemHeader(compiler, compilerFlags);
+            fs.mkdirSync(path.dirname(gchPath), { recursive: true });
+            await this.execFile(compiler, [...compilerFlags, '-x', 'c++-header', headerPath, '-o', gchPath]);
+            return pchDir;
+        } catch (error) {
+            console.warn('Failed to build precompiled header:', error);
+            fs.rmSync(pchDir, { recursive: true, force: true });
+            return undefined;
+        }
+    }
+
+    private async findSystemHeader(compiler: string, flags: string[]): Promise<string> {
+        const { stderr } = await this.execFile(
+            compiler,
+            [...flags, '-H', '-fsyntax-only', '-x', 'c++', '-'],
+            '#include <bits/stdc++.h>\n'
+        );
+        const match = stderr.match(/^\.\s+(.*bits[\\/]stdc\+\+\.h)\s*$/m);
+        if (!match) {
+            throw new Error('bits/stdc++.h not found');
+        }
+        return match[1];
+    }
+
+    private execFile(command: string, args: string[], input?: string): Promise<{ stdout: string; stderr: string }> {
+        return new Promise((resolve, reject) => {
+            const child = cp.execFile(command, args, (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error(stderr || error.message));
+                    return;
+                }
+                resolve({ stdout, stderr });
+            });
+            child.stdin?.end(input ?? '');
+        });
+    }
+
+    /**
+     * The source itself plus every local `#include "..."` it pulls in,
+     * followed recursively.
+     */
+    private collectSources(sourceFilePath: string, seen: Set<string> = new Set()): string[] {
+        const resolved = path.resolve(sourceFilePath);
+        if (seen.has(resolved) || !fs.existsSync(resolved)) {
+            return [];
+        }
+        seen.add(resolved);
+
+        const files = [resolved];
+        const content = fs.readFileSync(resolved, 'utf-8');
+        for (const match of content.matchAll(/^\s*#\s*include\s*"([^"]+)"/gm)) {
+            files.push(...this.collectSources(path.join(path.dirname(resolved), match[1]), seen));
+        }
+        return files;
+    }
+
+    private prune(): void {
+        const root = this.getCacheRoot();
+        const entries = fs.readdirSync(root, { withFileTypes: true })
+            .filter(entry => entry.isDirectory() && entry.name !== 'pch')
+            .map(entry => {
+                const entryDir = path.join(root, entry.name);
+                return { entryDir, mtime: fs.statSync(entryDir).mtimeMs };
+            })
+            .sort((a, b) => b.mtime - a.mtime);
+
+        entries.slice(BuildCache.maxEntries).forEach(entry => this.discard(entry.entryDir));
+    }
+}
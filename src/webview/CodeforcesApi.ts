@@ -0,0 +1,28 @@
+import { CodeforcesApiResponse } from './Interfaces';
+
+/**
+ * Calls methods of the public Codeforces API, which needs no login.
+ */
+export class CodeforcesApi {
+    private static readonly baseUrl = 'https://codeforces.com/api';
+
+    /**
+     * @returns the `result` of a successful call
+     */
+    public static async call<T>(method: string, params: Record<string, string> = {}): Promise<T> {
+        const query = new URLSearchParams(params).toString();
+        const apiUrl = `${CodeforcesApi.baseUrl}/${method}${query ? `?${query}` : ''}`;
+
+        try {
+            const response = await fetch(apiUrl);
+            const data = await response.json() as CodeforcesApiResponse<T>;
+
+            if (data.status !== 'OK') {
+                throw new Error(`API Error: ${data.comment}`);
+            }
+            return data.result;
+        } catch (error) {
+            throw new Error(`Failed to fetch ${method} from Codeforces API: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
@@ -0,0 +1,55 @@
+import { CompanionTask, ProblemData } from './Interfaces';
+import { ProblemUrlParser } from './ProblemUrlParser';
+
+/**
+ * Validates Competitive Companion payloads and turns them into `ProblemData`.
+ * Companion sends tests and limits but no statement, so the text sections
+ * point back to the original page.
+ */
+export class CompanionProtocol {
+    public static isTask(value: unknown): value is CompanionTask {
+        if (typeof value !== 'object' || value === null) {
+            return false;
+        }
+        const task = value as Partial<CompanionTask>;
+        return typeof task.name === 'string' &&
+            typeof task.url === 'string' &&
+            typeof task.timeLimit === 'number' &&
+            typeof task.memoryLimit === 'number' &&
+            Array.isArray(task.tests) &&
+            task.tests.every(test => typeof test?.input === 'string' && typeof test?.output === 'string') &&
+            typeof task.batch?.id === 'string' &&
+            typeof task.batch?.size === 'number';
+    }
+
+    public static toProblemData(task: CompanionTask): ProblemData {
+        const identifier = ProblemUrlParser.tryParse(task.url);
+        const seconds = task.timeLimit / 1000;
+        const link = `<a href="${CompanionProtocol.escapeAttribute(task.url)}">${CompanionProtocol.escapeText(task.url)}</a>`;
+
+        return {
+            title: identifier ? task.name.replace(/^[A-Z]\d*\.\s*/, '') : task.name,
+            timeLimit: `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`,
+            memoryLimit: `${task.memoryLimit} megabytes`,
+            description: `<p>Received from Competitive Companion. The full statement is at ${link}.</p>`,
+            inputFormat: 'See problem statement',
+            outputFormat: 'See problem statement',
+            sampleTests: task.tests.map(test => ({
+                input: test.input.trimEnd(),
+                output: test.output.trimEnd()
+            })),
+            source: task.group || 'Competitive Companion',
+            contestId: identifier?.contestId,
+            index: identifier?.index,
+            url: task.url
+        };
+    }
+
+    private static escapeText(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+
+    private static escapeAttribute(text: string): string {
+        return CompanionProtocol.escapeText(text).replace(/"/g, '&quot;');
+    }
+}
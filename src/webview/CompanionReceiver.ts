@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+
+import { CompanionTask } from './Interfaces';
+import { CompanionServer } from './CompanionServer';
+import { CompanionProtocol } from './CompanionProtocol';
+import { ProblemWebviewProvider } from './ProblemWebViewProvider';
+import { ContestOverviewProvider } from './ContestOverviewProvider';
+
+/**
+ * Opens problems sent by the Competitive Companion browser extension: a
+ * single problem goes straight to the Problem Viewer, a batch (a whole
+ * contest) is imported into the workspace and shown in the contest overview.
+ */
+export class CompanionReceiver implements vscode.Disposable {
+    public static readonly defaultPort = 27121;
+
+    private readonly server = new CompanionServer(tasks => this.handleBatch(tasks));
+
+    constructor(
+        private readonly problemWebviewProvider: ProblemWebviewProvider,
+        private readonly contestOverviewProvider: ContestOverviewProvider
+    ) { }
+
+    public isRunning(): boolean {
+        return this.server.isRunning();
+    }
+
+    public async toggle(): Promise<void> {
+        if (this.isRunning()) {
+            await this.stop();
+        } else {
+            await this.start();
+        }
+    }
+
+    public async start(): Promise<void> {
+        const port = vscode.workspace
+            .getConfiguration('smartCodeforcesHelper')
+            .get<number>('companion.port', CompanionReceiver.defaultPort);
+
+        try {
+            await this.server.start(port);
+            vscode.window.showInformationMessage(`📡 Listening for Competitive Companion on port ${port}`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to start the Competitive Companion listener: ${errorMessage}`);
+        }
+    }
+
+    public async stop(): Promise<void> {
+        await this.server.stop();
+        vscode.window.showInformationMessage('Competitive Companion listener stopped');
+    }
+
+    public dispose(): void {
+        this.server.stop();
+    }
+
+    private handleBatch(tasks: CompanionTask[]): void {
+        try {
+            const problems = tasks.map(task => CompanionProtocol.toProblemData(task));
+            // Codeforces problems are not cached: Companion sends no statement, so a later
+            // Load Problem should still scrape it. Other judges can't be scraped at all.
+            problems
+                .filter(problem => problem.contestId === undefined)
+                .forEach(problem => this.problemWebviewProvider.cacheProblem(problem));
+
+            if (problems.length === 1) {
+                this.problemWebviewProvider.showProblemData(problems[0]);
+            } else {
+                this.contestOverviewProvider.importProblems(tasks[0].group || 'Competitive Companion', problems);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to open the problem from Competitive Companion: ${errorMessage}`);
+        }
+    }
+}
@@ -0,0 +1,136 @@
+import * as http from 'http';
+
+import { CompanionTask } from './Interfaces';
+import { CompanionProtocol } from './CompanionProtocol';
+
+interface PendingBatch {
+    tasks: CompanionTask[];
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * Local HTTP endpoint for the Competitive Companion browser extension. Each
+ * problem arrives as its own POST; problems parsed together share a batch id
+ * and are handed over as one list once the whole batch is in.
+ *
+ * Any web page can send requests to localhost, so only JSON posts that come
+ * from a browser extension (or carry no origin at all) are accepted. A page
+ * cannot send `application/json` cross-origin without a preflight, which
+ * this server never answers.
+ */
+export class CompanionServer {
+    private static readonly maxBodyBytes = 64 * 1024 * 1024;
+    private static readonly batchTimeout = 10000;
+    private static readonly extensionOriginPattern = /^(?:chrome|moz|safari-web)-extension:\/\//i;
+
+    private server: http.Server | undefined;
+    private readonly batches = new Map<string, PendingBatch>();
+
+    constructor(private readonly onBatch: (tasks: CompanionTask[]) => void) { }
+
+    public isRunning(): boolean {
+        return this.server !== undefined;
+    }
+
+    /**
+     * Starts listening on localhost and resolves with the port in use.
+     */
+    public start(port: number): Promise<number> {
+        if (this.server) {
+            return Promise.reject(new Error('The Competitive Companion listener is already running'));
+        }
+
+        return new Promise((resolve, reject) => {
+            const server = http.createServer((request, response) => this.handleRequest(request, response));
+            server.once('error', (error: NodeJS.ErrnoException) => {
+                reject(error.code === 'EADDRINUSE'
+                    ? new Error(`Port ${port} is already in use`)
+                    : error);
+            });
+            server.listen(port, '127.0.0.1', () => {
+                this.server = server;
+                const address = server.address();
+                resolve(typeof address === 'object' && address ? address.port : port);
+            });
+        });
+    }
+
+    public stop(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        this.batches.forEach(batch => clearTimeout(batch.timer));
+        this.batches.clear();
+
+        if (!server) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => server.close(() => resolve()));
+    }
+
+    private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+        if (request.method !== 'POST') {
+            response.writeHead(405).end();
+            return;
+        }
+        if (!/^application\/json\s*(?:;|$)/i.test(request.headers['content-type'] ?? '')) {
+            response.writeHead(415).end('Expected application/json');
+            return;
+        }
+        const origin = request.headers.origin;
+        if (origin && !CompanionServer.extensionOriginPattern.test(origin)) {
+            response.writeHead(403).end();
+            return;
+        }
+
+        let body = '';
+        let tooLarge = false;
+        request.setEncoding('utf-8');
+        request.on('data', (chunk: string) => {
+            body += chunk;
+            if (body.length > CompanionServer.maxBodyBytes) {
+                tooLarge = true;
+                request.destroy();
+            }
+        });
+        request.on('end', () => {
+            if (tooLarge) {
+                return;
+            }
+
+            let task: unknown;
+            try {
+                task = JSON.parse(body);
+            } catch (error) {
+                response.writeHead(400).end('Invalid JSON');
+                return;
+            }
+            if (!CompanionProtocol.isTask(task)) {
+                response.writeHead(400).end('Not a Competitive Companion task');
+                return;
+            }
+
+            this.addTask(task);
+            response.writeHead(200).end();
+        });
+    }
+
+    private addTask(task: CompanionTask): void {
+        const batchId = task.batch.id;
+        const batch: PendingBatch = this.batches.get(batchId) ?? { tasks: [] };
+        clearTimeout(batch.timer);
+        batch.tasks.push(task);
+
+        if (batch.tasks.length >= task.batch.size) {
+            this.batches.delete(batchId);
+            this.onBatch(batch.tasks);
+            return;
+        }
+
+        // Hand over what arrived if the rest of the batch never comes
+        batch.timer = setTimeout(() => {
+            this.batches.delete(batchId);
+            this.onBatch(batch.tasks);
+        }, CompanionServer.batchTimeout);
+        this.batches.set(batchId, batch);
+    }
+}
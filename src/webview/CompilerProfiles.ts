@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+
+import { CompilerProfile } from './Interfaces';
+
+/**
+ * Named sets of C++ compiler options. The built-in "release" profile matches
+ * the judge; "debug" adds sanitizers and checked containers. Profiles from
+ * `smartCodeforcesHelper.compilerProfiles` are added to these or override
+ * fields of the built-in profile with the same name.
+ */
+export class CompilerProfiles {
+    public static readonly defaultProfile = 'release';
+
+    private static readonly builtInProfiles: Record<string, CompilerProfile> = {
+        release: {
+            compiler: 'g++',
+            standard: 'c++17',
+            optimization: 'O2',
+            defines: [],
+            warnings: [],
+            flags: []
+        },
+        debug: {
+            compiler: 'g++',
+            standard: 'c++17',
+            optimization: 'O0',
+            defines: ['LOCAL', '_GLIBCXX_DEBUG'],
+            warnings: ['all', 'extra', 'shadow'],
+            flags: ['-g', '-fsanitize=address,undefined']
+        }
+    };
+
+    public getProfiles(): Record<string, CompilerProfile> {
+        const configured = vscode.workspace
+            .getConfiguration('smartCodeforcesHelper')
+            .get<Record<string, Partial<CompilerProfile>>>('compilerProfiles', {});
+
+        const profiles: Record<string, CompilerProfile> = { ...CompilerProfiles.builtInProfiles };
+        Object.entries(configured).forEach(([name, profile]) => {
+            const base = CompilerProfiles.builtInProfiles[name] ?? CompilerProfiles.builtInProfiles.release;
+            profiles[name] = { ...base, ...profile };
+        });
+        return profiles;
+    }
+
+    public getActiveProfileName(): string {
+        const name = vscode.workspace
+            .getConfiguration('smartCodeforcesHelper')
+            .get<string>('compilerProfile', CompilerProfiles.defaultProfile);
+        return this.getProfiles()[name] ? name : CompilerProfiles.defaultProfile;
+    }
+
+    public async setActiveProfile(name: string): Promise<void> {
+        if (!this.getProfiles()[name]) {
+            throw new Error(`Unknown compiler profile "${name}"`);
+        }
+        const target = vscode.workspace.workspaceFolders
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+        await vscode.workspace.getConfiguration('smartCodeforcesHelper').update('compilerProfile', name, target);
+    }
+
+    /**
+     * Lets the user pick the active profile from a quick pick.
+     */
+    public async selectProfile(): Promise<void> {
+        const activeName = this.getActiveProfileName();
+        const items = Object.entries(this.getProfiles()).map(([name, profile]) => ({
+            label: name,
+            description: name === activeName ? '(active)' : undefined,
+            detail: this.getCompileCommand(profile)
+        }));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the compiler profile used for C++ builds'
+        });
+        if (picked) {
+            await this.setActiveProfile(picked.label);
+        }
+    }
+
+    /**
+     * The C++ compile command template for a profile, using the same
+     * placeholders as `smartCodeforcesHelper.languages`.
+     */
+    public getCompileCommand(profile: CompilerProfile = this.getProfiles()[this.getActiveProfileName()]): string {
+        const compiler = /\s/.test(profile.compiler) ? `"${profile.compiler}"` : profile.compiler;
+        return [
+            compiler,
+            '-o "${exe}" "${file}"',
+            `-std=${profile.standard}`,
+            profile.optimization ? `-${profile.optimization}` : '',
+            ...profile.defines.map(define => `-D${define}`),
+            ...profile.warnings.map(warning => `-W${warning}`),
+            ...profile.flags
+        ].filter(part => part !== '').join(' ');
+    }
+}
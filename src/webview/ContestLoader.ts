@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+    CodeforcesApiStandings,
+    ContestIdentifier,
+    ContestOverview,
+    ContestProblemEntry,
+    ProblemData
+} from './Interfaces';
+import { TemplateGenerator } from './TemplateGenerator';
+import { ProblemUrlParser } from './ProblemUrlParser';
+import { CodeforcesApi } from './CodeforcesApi';
+
+/**
+ * Fetches every problem of a contest and lays them out as `<kind>-<id>/<index>/`
+ * folders (`contest-1850/A`, `gym-104114/K`) holding the source file, the
+ * samples as `sample-N.in`/`sample-N.out` and the problem metadata in
+ * `problem.json`.
+ */
+export class ContestLoader {
+    public static readonly overviewFile = 'contest.json';
+
+    constructor(
+        private readonly loadProblem: (problemUrl: string) => Promise<ProblemData>,
+        private readonly templateGenerator: TemplateGenerator
+    ) { }
+
+    public async fetchContest(contestId: number): Promise<CodeforcesApiStandings> {
+        // The standings carry the contest's problem list; one row is enough
+        const { contest, problems } = await CodeforcesApi.call<CodeforcesApiStandings>('contest.standings', {
+            contestId: String(contestId),
+            from: '1',
+            count: '1'
+        });
+        return { contest, problems };
+    }
+
+    public async loadContest(
+        contestIdentifier: ContestIdentifier,
+        rootDir: string,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken
+    ): Promise<ContestOverview> {
+        const { contestId } = contestIdentifier;
+        const { contest, problems } = await this.fetchContest(contestId);
+        const folder = path.join(rootDir, `${contestIdentifier.kind}-${contestId}`);
+        const entries: ContestProblemEntry[] = [];
+
+        for (const problem of problems) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            progress.report({ message: `${problem.index}. ${problem.name}`, increment: 100 / problems.length });
+
+            const entry = {
+                index: problem.index,
+                name: problem.name,
+                url: ProblemUrlParser.toUrl({ ...contestIdentifier, index: problem.index }),
+                rating: problem.rating
+            };
+
+            try {
+                const problemData = await this.loadProblem(entry.url);
+                entries.push({
+                    ...entry,
+                    status: 'loaded',
+                    sourcePath: this.writeProblemFolder(path.join(folder, problem.index), problemData),
+                    sampleCount: problemData.sampleTests.length
+                });
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                entries.push({ ...entry, status: 'failed', error: errorMessage });
+            }
+        }
+
+        return this.saveOverview({
+            contestId,
+            name: contest.name,
+            folder,
+            loadedAt: new Date().toISOString(),
+            problems: entries
+        });
+    }
+
+    /**
+     * Lays out problems that were fetched elsewhere (e.g. a Competitive
+     * Companion batch) the same way as a loaded contest. Problems from one
+     * Codeforces contest keep their own indices and go to its usual folder;
+     * anything else goes to a folder named after `name`, with problems
+     * indexed A, B, C... Z, AA, AB... in order.
+     */
+    public importProblems(name: string, problems: ProblemData[], rootDir: string): ContestOverview {
+        const contest = problems[0]?.url ? ProblemUrlParser.tryParseContest(problems[0].url) : undefined;
+        const sameContest = contest !== undefined
+            && problems.every(problem => problem.contestId === contest.contestId && problem.index);
+        const folderName = sameContest
+            ? `${contest.kind}-${contest.contestId}`
+            : name.replace(/[^a-zA-Z0-9\s-]/g, '').trim().replace(/\s+/g, '_') || 'imported';
+        const folder = path.join(rootDir, folderName);
+
+        const entries: ContestProblemEntry[] = problems.map((problemData, i) => {
+            const index = sameContest && problemData.index ? problemData.index : ContestLoader.toLetterIndex(i);
+            return {
+                index,
+                name: problemData.title,
+                url: problemData.url ?? '',
+                status: 'loaded',
+                sourcePath: this.writeProblemFolder(path.join(folder, index), problemData),
+                sampleCount: problemData.sampleTests.length
+            };
+        });
+
+        return this.saveOverview({
+            contestId: sameContest ? contest.contestId : undefined,
+            name,
+            folder,
+            loadedAt: new Date().toISOString(),
+            problems: entries
+        });
+    }
+
+    /**
+     * Spreadsheet-style letters for a 0-based position: 0 is A, 25 is Z, 26 is AA.
+     */
+    private static toLetterIndex(position: number): string {
+        let index = '';
+        for (let rest = position + 1; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+            index = String.fromCharCode(65 + (rest - 1) % 26) + index;
+        }
+        return index;
+    }
+
+    private saveOverview(overview: ContestOverview): ContestOverview {
+        fs.mkdirSync(overview.folder, { recursive: true });
+        fs.writeFileSync(path.join(overview.folder, ContestLoader.overviewFile), JSON.stringify(overview, null, 2), 'utf-8');
+        return overview;
+    }
+
+    /**
+     * Writes the problem's folder and returns the path of its source file.
+     * An existing source file is left alone so reloading never loses code.
+     */
+    private writeProblemFolder(problemDir: string, problemData: ProblemData): string {
+        fs.mkdirSync(problemDir, { recursive: true });
+        fs.writeFileSync(path.join(problemDir, 'problem.json'), JSON.stringify(problemData, null, 2), 'utf-8');
+
+        problemData.sampleTests.forEach((testCase, i) => {
+            fs.writeFileSync(path.join(problemDir, `sample-${i + 1}.in`), testCase.input + '\n', 'utf-8');
+            fs.writeFileSync(path.join(problemDir, `sample-${i + 1}.out`), testCase.output + '\n', 'utf-8');
+        });
+
+        const template = this.templateGenerator.getDefaultTemplate();
+        const fileBase = path.basename(problemDir);
+        const sourcePath = path.join(problemDir, `${fileBase}${template.extension}`);
+        if (!fs.existsSync(sourcePath)) {
+            fs.writeFileSync(sourcePath, this.templateGenerator.render(problemData, fileBase, template).content, 'utf-8');
+        }
+        return sourcePath;
+    }
+}
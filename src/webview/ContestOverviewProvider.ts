@@ -0,0 +1,272 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { ContestOverview, ContestProblemEntry, ProblemData } from './Interfaces';
+import { ContestLoader } from './ContestLoader';
+import { ProblemWebviewProvider } from './ProblemWebViewProvider';
+import { ProblemUrlParser } from './ProblemUrlParser';
+
+export class ContestOverviewProvider {
+    private static readonly viewType = 'contestOverview';
+    private panel: vscode.WebviewPanel | undefined;
+    private overview: ContestOverview | undefined;
+
+    contestLoader: ContestLoader;
+
+    constructor(private readonly problemWebviewProvider: ProblemWebviewProvider) {
+        this.contestLoader = new ContestLoader(
+            problemUrl => problemWebviewProvider.loadProblem(problemUrl, false),
+            problemWebviewProvider.templateGenerator
+        );
+    }
+
+    /**
+     * Loads every problem of the contest into the workspace and shows the
+     * overview page.
+     */
+    public async loadContest(input: string): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showErrorMessage('No workspace folder is open. Please open a folder first.');
+            return;
+        }
+
+        const contest = ProblemUrlParser.parseContest(input);
+        const overview = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Loading contest ${contest.contestId}`,
+            cancellable: true
+        }, (progress, token) => this.contestLoader.loadContest(contest, workspaceFolder.uri.fsPath, progress, token));
+
+        this.show(overview);
+
+        const failed = overview.problems.filter(problem => problem.status === 'failed').length;
+        if (failed > 0) {
+            vscode.window.showWarningMessage(`Loaded ${overview.problems.length - failed} problems, ${failed} failed`);
+        } else {
+            vscode.window.showInformationMessage(`✅ Loaded ${overview.problems.length} problems from ${overview.name}`);
+        }
+    }
+
+    /**
+     * Writes problems received as a batch into the workspace and shows them
+     * as a contest.
+     */
+    public importProblems(name: string, problems: ProblemData[]): void {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showErrorMessage('No workspace folder is open. Please open a folder first.');
+            return;
+        }
+
+        this.show(this.contestLoader.importProblems(name, problems, workspaceFolder.uri.fsPath));
+        vscode.window.showInformationMessage(`✅ Imported ${problems.length} problems from ${name}`);
+    }
+
+    public show(overview: ContestOverview): void {
+        this.overview = overview;
+
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.One);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                ContestOverviewProvider.viewType,
+                'Contest Overview',
+                vscode.ViewColumn.One,
+                { enableScripts: true, retainContextWhenHidden: true }
+            );
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            }, null);
+
+            this.panel.webview.onDidReceiveMessage(
+                message => {
+                    switch (message.command) {
+                        case 'openProblem':
+                            this.openProblem(message.position);
+                            break;
+                    }
+                }
+            );
+        }
+
+        this.panel.title = overview.contestId !== undefined ? `Contest ${overview.contestId}` : overview.name;
+        this.panel.webview.html = this.getWebviewContent(overview, this.panel.webview);
+    }
+
+    private async openProblem(position: number): Promise<void> {
+        const problem = this.overview?.problems[position];
+        if (!problem) {
+            return;
+        }
+
+        try {
+            if (problem.sourcePath && fs.existsSync(problem.sourcePath)) {
+                const document = await vscode.workspace.openTextDocument(problem.sourcePath);
+                await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.One, preview: false });
+            }
+
+            // The saved metadata also covers problems that can't be fetched by URL
+            const metadataPath = problem.sourcePath && path.join(path.dirname(problem.sourcePath), 'problem.json');
+            if (metadataPath && fs.existsSync(metadataPath)) {
+                this.problemWebviewProvider.showProblemData(JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as ProblemData);
+            } else {
+                await this.problemWebviewProvider.showProblem(problem.url);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to open problem ${problem.index}: ${errorMessage}`);
+        }
+    }
+
+    private getStatusLabel(problem: ContestProblemEntry): string {
+        if (problem.status === 'failed') {
+            return `<span class="status failed" title="${this.escapeHtml(problem.error ?? '')}">Failed to load</span>`;
+        }
+        return `<span class="status loaded">Ready · ${problem.sampleCount ?? 0} samples</span>`;
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    /**
+     * Only scripts carrying this page's nonce run, so rows name their
+     * position in `data-index` instead of using inline event handlers.
+     */
+    private getWebviewContent(overview: ContestOverview, webview: vscode.Webview): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        const rows = overview.problems.map((problem, position) => `
+                    <tr data-index="${position}">
+                        <td class="index">${this.escapeHtml(problem.index)}</td>
+                        <td>${this.escapeHtml(problem.name)}</td>
+                        <td>${problem.rating !== undefined ? problem.rating : '—'}</td>
+                        <td>${this.getStatusLabel(problem)}</td>
+                    </tr>`).join('');
+
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+            <title>Contest Overview</title>
+            <style>
+                :root {
+                    --bg-primary: #1e1e1e;
+                    --bg-secondary: #252526;
+                    --bg-tertiary: #2d2d30;
+                    --text-primary: #cccccc;
+                    --text-secondary: #9d9d9d;
+                    --accent-blue: #007acc;
+                    --border: #3e3e42;
+                    --success: #4caf50;
+                    --error: #f44336;
+                }
+
+                body {
+                    font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+                    background: var(--bg-primary);
+                    color: var(--text-primary);
+                    margin: 0;
+                    padding: 20px;
+                }
+
+                .header {
+                    background: linear-gradient(135deg, var(--accent-blue), #005a9e);
+                    padding: 20px;
+                    border-radius: 12px;
+                    margin-bottom: 24px;
+                    color: white;
+                }
+
+                .header h1 {
+                    margin: 0 0 8px 0;
+                    font-size: 1.6em;
+                }
+
+                .header-meta {
+                    font-size: 0.9em;
+                    opacity: 0.9;
+                }
+
+                table {
+                    width: 100%;
+                    border-collapse: collapse;
+                    background: var(--bg-secondary);
+                    border-radius: 12px;
+                    overflow: hidden;
+                }
+
+                th, td {
+                    padding: 10px 14px;
+                    text-align: left;
+                    border-bottom: 1px solid var(--border);
+                }
+
+                th {
+                    background: var(--bg-tertiary);
+                    color: var(--text-secondary);
+                    font-weight: 600;
+                }
+
+                tbody tr {
+                    cursor: pointer;
+                }
+
+                tbody tr:hover {
+                    background: var(--bg-tertiary);
+                }
+
+                td.index {
+                    font-weight: 600;
+                    width: 60px;
+                }
+
+                .status.loaded {
+                    color: var(--success);
+                }
+
+                .status.failed {
+                    color: var(--error);
+                }
+            </style>
+        </head>
+        <body>
+            <div class="header">
+                <h1>${this.escapeHtml(overview.name)}</h1>
+                <div class="header-meta">
+                    ${overview.contestId !== undefined ? `Contest ${overview.contestId} · ` : ''}${overview.problems.length} problems · ${this.escapeHtml(overview.folder)}
+                </div>
+            </div>
+
+            <table>
+                <thead>
+                    <tr><th>#</th><th>Problem</th><th>Rating</th><th>Status</th></tr>
+                </thead>
+                <tbody>${rows}
+                </tbody>
+            </table>
+
+            <script nonce="${nonce}">
+                const vscode = acquireVsCodeApi();
+
+                document.addEventListener('click', event => {
+                    const row = event.target.closest('tr[data-index]');
+                    if (row) {
+                        vscode.postMessage({ command: 'openProblem', position: Number(row.dataset.index) });
+                    }
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+}
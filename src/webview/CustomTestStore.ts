@@ -0,0 +1,60 @@
+import { ProblemData, TestCase } from './Interfaces';
+import { WorkspaceStore } from './WorkspaceStore';
+
+/**
+ * Persists user-defined test cases in `.codeforces/tests/<problem>.json`
+ * inside the first workspace folder.
+ */
+export class CustomTestStore extends WorkspaceStore {
+    protected readonly storageDir = 'tests';
+
+    public load(problemData: ProblemData): TestCase[] {
+        const stored = this.readJson<TestCase[]>(problemData);
+        if (!Array.isArray(stored)) {
+            return [];
+        }
+        return stored.map(test => ({
+            input: String(test.input ?? ''),
+            output: String(test.output ?? ''),
+            kind: 'custom'
+        }));
+    }
+
+    public add(problemData: ProblemData, testCase: TestCase = { input: '', output: '' }): TestCase[] {
+        const tests = this.load(problemData);
+        tests.push({ input: testCase.input, output: testCase.output, kind: 'custom' });
+        return this.save(problemData, tests);
+    }
+
+    public update(problemData: ProblemData, index: number, testCase: TestCase): TestCase[] {
+        const tests = this.load(problemData);
+        this.assertIndex(tests, index);
+        tests[index] = { input: testCase.input, output: testCase.output, kind: 'custom' };
+        return this.save(problemData, tests);
+    }
+
+    public duplicate(problemData: ProblemData, index: number): TestCase[] {
+        const tests = this.load(problemData);
+        this.assertIndex(tests, index);
+        tests.splice(index + 1, 0, { ...tests[index] });
+        return this.save(problemData, tests);
+    }
+
+    public remove(problemData: ProblemData, index: number): TestCase[] {
+        const tests = this.load(problemData);
+        this.assertIndex(tests, index);
+        tests.splice(index, 1);
+        return this.save(problemData, tests);
+    }
+
+    private save(problemData: ProblemData, tests: TestCase[]): TestCase[] {
+        this.writeJson(problemData, tests.map(test => ({ input: test.input, output: test.output })));
+        return tests;
+    }
+
+    private assertIndex(tests: TestCase[], index: number): void {
+        if (!Number.isInteger(index) || index < 0 || index >= tests.length) {
+            throw new Error(`Custom test ${index + 1} does not exist`);
+        }
+    }
+}
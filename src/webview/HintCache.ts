@@ -0,0 +1,41 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CachedHints, Hint, ProblemData } from './Interfaces';
+import { WorkspaceStore } from './WorkspaceStore';
+
+/**
+ * Generated hints kept on disk, one file per problem, so reopening a
+ * problem shows its hints again without another LLM call.
+ */
+export class HintCache {
+    constructor(private readonly cacheDir: string) { }
+
+    public get(problemData: ProblemData): CachedHints | undefined {
+        const filePath = this.getPath(problemData);
+        if (!fs.existsSync(filePath)) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CachedHints;
+        } catch (error) {
+            console.warn(`Failed to read cached hints ${filePath}:`, error);
+            return undefined;
+        }
+    }
+
+    public set(problemData: ProblemData, hints: Hint[]): CachedHints {
+        const entry: CachedHints = {
+            generatedAt: new Date().toISOString(),
+            hints
+        };
+        fs.mkdirSync(this.cacheDir, { recursive: true });
+        fs.writeFileSync(this.getPath(problemData), JSON.stringify(entry, null, 2), 'utf-8');
+        return entry;
+    }
+
+    private getPath(problemData: ProblemData): string {
+        return path.join(this.cacheDir, `${WorkspaceStore.getProblemKey(problemData)}.json`);
+    }
+}
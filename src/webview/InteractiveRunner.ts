@@ -0,0 +1,339 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ExecutionLimits, InteractiveConfig, LimitVerdict, RunnableProgram, TestCase, TestResult, Verdict } from './Interfaces';
+import { ResourceLimits } from './ResourceLimits';
+import { ProcessMonitor } from './ProcessMonitor';
+import { SanitizerReport } from './SanitizerReport';
+
+interface ScriptStep {
+    direction: 'send' | 'expect';
+    text: string;
+}
+
+interface Outcome {
+    verdict: Verdict;
+    error: string | null;
+}
+
+/**
+ * Runs a solution for an interactive problem, either against an interactor
+ * program or against a scripted-responses file, and records the exchange.
+ *
+ * The interactor is started as `interactor <input> <output>` (the testlib
+ * convention): it reads the test from `<input>`, talks to the solution over
+ * stdin/stdout and reports its verdict through the exit code.
+ *
+ * A script has one message per line: `> text` is sent to the solution and
+ * `< text` is the line the solution must print next (`< *` accepts anything).
+ *
+ * The solution runs under the same CPU time and memory limits as a normal
+ * run, and the whole exchange gets the same wall-clock cut-off.
+ */
+export class InteractiveRunner {
+    private static readonly defaultIdleTimeout = 3000;
+
+    public async runWithInteractor(
+        solution: RunnableProgram,
+        interactor: RunnableProgram,
+        config: InteractiveConfig,
+        testCase: TestCase,
+        testNumber: number,
+        limits: ExecutionLimits = { timeLimitMs: ResourceLimits.defaultTimeLimitMs }
+    ): Promise<TestResult> {
+        const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cf-interactive-'));
+        const inputPath = path.join(directory, 'input.txt');
+        const outputPath = path.join(directory, 'output.txt');
+        fs.writeFileSync(inputPath, testCase.input);
+
+        try {
+            return await new Promise((resolve) => {
+                const startTime = Date.now();
+                const kind = testCase.kind ?? 'sample';
+                const transcript: string[] = [];
+                let solutionOutput = '';
+                let solutionStderr = '';
+                let interactorStderr = '';
+                let solutionCode: number | null | undefined;
+                let interactorCode: number | null | undefined;
+                let killed: Outcome | undefined;
+                let limitExceeded: LimitVerdict | undefined;
+
+                const solutionProcess = cp.spawn(solution.command, solution.args, {
+                    cwd: solution.cwd,
+                    env: SanitizerReport.getRunEnvironment()
+                });
+                const interactorProcess = cp.spawn(interactor.command, [...interactor.args, inputPath, outputPath], {
+                    cwd: interactor.cwd
+                });
+                const monitor = ProcessMonitor.enforce(solutionProcess, limits, (verdict) => {
+                    limitExceeded = limitExceeded ?? verdict;
+                    interactorProcess.kill();
+                });
+
+                const stopAll = (verdict: Verdict, error: string) => {
+                    killed = killed ?? { verdict, error };
+                    solutionProcess.kill();
+                    interactorProcess.kill();
+                };
+
+                const idleTimeout = config.idleTimeoutMs ?? InteractiveRunner.defaultIdleTimeout;
+                let idleTimer = setTimeout(() => stopAll('ILE', 'Idleness Limit Exceeded'), idleTimeout);
+                const touch = () => {
+                    clearTimeout(idleTimer);
+                    idleTimer = setTimeout(() => stopAll('ILE', 'Idleness Limit Exceeded'), idleTimeout);
+                };
+                const totalTimer = setTimeout(() => stopAll('TLE', 'Time Limit Exceeded'), ResourceLimits.getWallTimeoutMs(limits));
+
+                solutionProcess.stdin.on('error', () => { });
+                interactorProcess.stdin.on('error', () => { });
+
+                solutionProcess.stdout.on('data', (data) => {
+                    const chunk = data.toString();
+                    solutionOutput += chunk;
+                    this.appendTranscript(transcript, 'solution', chunk);
+                    interactorProcess.stdin.write(chunk);
+                    touch();
+                });
+
+                interactorProcess.stdout.on('data', (data) => {
+                    const chunk = data.toString();
+                    this.appendTranscript(transcript, 'interactor', chunk);
+                    solutionProcess.stdin.write(chunk);
+                    touch();
+                });
+
+                solutionProcess.stderr.on('data', (data) => { solutionStderr += data.toString(); });
+                interactorProcess.stderr.on('data', (data) => { interactorStderr += data.toString(); });
+
+                const finish = () => {
+                    if (solutionCode === undefined || interactorCode === undefined) {
+                        return;
+                    }
+                    clearTimeout(idleTimer);
+                    clearTimeout(totalTimer);
+                    const usage = monitor.stop();
+
+                    const outcome = killed
+                        ?? ResourceLimits.getExceededLimit(usage, limits, Date.now() - startTime, limitExceeded)
+                        ?? this.getInteractorVerdict(interactorCode, solutionCode, interactorStderr, solutionStderr);
+
+                    resolve({
+                        testNumber,
+                        passed: outcome.verdict === 'AC',
+                        verdict: outcome.verdict,
+                        input: testCase.input,
+                        expectedOutput: testCase.output,
+                        actualOutput: solutionOutput,
+                        error: outcome.error,
+                        executionTime: Date.now() - startTime,
+                        cpuTime: usage.cpuTime,
+                        memoryUsage: usage.peakMemoryKb,
+                        stderr: solutionStderr,
+                        kind,
+                        transcript: transcript.join('\n')
+                    });
+                };
+
+                solutionProcess.on('error', (error) => stopAll('FAIL', `Failed to start "${solution.command}": ${error.message}`));
+                interactorProcess.on('error', (error) => stopAll('FAIL', `Failed to start interactor: ${error.message}`));
+
+                solutionProcess.on('close', (code) => {
+                    solutionCode = code;
+                    interactorProcess.stdin.end();
+                    finish();
+                });
+
+                interactorProcess.on('close', (code) => {
+                    interactorCode = code;
+                    solutionProcess.stdin.end();
+                    finish();
+                });
+            });
+        } finally {
+            fs.rmSync(directory, { recursive: true, force: true });
+        }
+    }
+
+    public async runWithScript(
+        solution: RunnableProgram,
+        config: InteractiveConfig,
+        script: string,
+        testCase: TestCase,
+        testNumber: number,
+        limits: ExecutionLimits = { timeLimitMs: ResourceLimits.defaultTimeLimitMs }
+    ): Promise<TestResult> {
+        const steps = this.parseScript(script);
+
+        return new Promise((resolve) => {
+            const startTime = Date.now();
+            const kind = testCase.kind ?? 'sample';
+            const transcript: string[] = [];
+            let solutionOutput = '';
+            let stderr = '';
+            let pendingLine = '';
+            let stepIndex = 0;
+            let failure: Outcome | undefined;
+            let limitExceeded: LimitVerdict | undefined;
+
+            const solutionProcess = cp.spawn(solution.command, solution.args, {
+                cwd: solution.cwd,
+                env: SanitizerReport.getRunEnvironment()
+            });
+            solutionProcess.stdin.on('error', () => { });
+            const monitor = ProcessMonitor.enforce(solutionProcess, limits, (verdict) => {
+                limitExceeded = limitExceeded ?? verdict;
+            });
+
+            const fail = (verdict: Verdict, error: string) => {
+                failure = failure ?? { verdict, error };
+                solutionProcess.kill();
+            };
+
+            const idleTimeout = config.idleTimeoutMs ?? InteractiveRunner.defaultIdleTimeout;
+            let idleTimer = setTimeout(() => fail('ILE', 'Idleness Limit Exceeded'), idleTimeout);
+            const touch = () => {
+                clearTimeout(idleTimer);
+                idleTimer = setTimeout(() => fail('ILE', 'Idleness Limit Exceeded'), idleTimeout);
+            };
+            const totalTimer = setTimeout(() => fail('TLE', 'Time Limit Exceeded'), ResourceLimits.getWallTimeoutMs(limits));
+
+            const sendPendingResponses = () => {
+                while (stepIndex < steps.length && steps[stepIndex].direction === 'send') {
+                    const text = steps[stepIndex].text;
+                    this.appendTranscript(transcript, 'interactor', text);
+                    solutionProcess.stdin.write(text + '\n');
+                    stepIndex++;
+                }
+                if (stepIndex >= steps.length) {
+                    solutionProcess.stdin.end();
+                }
+            };
+
+            const handleLine = (line: string) => {
+                const received = line.trim();
+                if (received === '') {
+                    return;
+                }
+                this.appendTranscript(transcript, 'solution', received);
+
+                const step = steps[stepIndex];
+                if (!step) {
+                    fail('PE', `Protocol Error: unexpected output "${received}" after the script ended`);
+                    return;
+                }
+                if (step.text !== '*' && step.text !== received) {
+                    fail('PE', `Protocol Error: expected "${step.text}", found "${received}"`);
+                    return;
+                }
+                stepIndex++;
+                sendPendingResponses();
+            };
+
+            solutionProcess.stdout.on('data', (data) => {
+                const chunk = data.toString();
+                solutionOutput += chunk;
+                touch();
+
+                pendingLine += chunk;
+                const lines = pendingLine.split('\n');
+                pendingLine = lines.pop() ?? '';
+                lines.forEach(line => {
+                    if (failure === undefined) {
+                        handleLine(line);
+                    }
+                });
+            });
+
+            solutionProcess.stderr.on('data', (data) => { stderr += data.toString(); });
+
+            solutionProcess.on('error', (error) => fail('FAIL', `Failed to start "${solution.command}": ${error.message}`));
+
+            solutionProcess.on('close', (code) => {
+                clearTimeout(idleTimer);
+                clearTimeout(totalTimer);
+                const usage = monitor.stop();
+
+                if (failure === undefined && pendingLine.trim() !== '') {
+                    handleLine(pendingLine);
+                }
+
+                const stopped = failure ?? ResourceLimits.getExceededLimit(usage, limits, Date.now() - startTime, limitExceeded);
+                let outcome: Outcome = stopped ?? { verdict: 'AC', error: null };
+                if (!stopped && code !== 0) {
+                    outcome = { verdict: 'RE', error: `Runtime Error (Exit code: ${code})\n${stderr}` };
+                } else if (!stopped && stepIndex < steps.length) {
+                    outcome = {
+                        verdict: 'PE',
+                        error: `Protocol Error: solution exited while the script expected "${steps[stepIndex].text}"`
+                    };
+                }
+
+                resolve({
+                    testNumber,
+                    passed: outcome.verdict === 'AC',
+                    verdict: outcome.verdict,
+                    input: script,
+                    expectedOutput: steps.filter(step => step.direction === 'expect').map(step => step.text).join('\n'),
+                    actualOutput: solutionOutput,
+                    error: outcome.error,
+                    executionTime: Date.now() - startTime,
+                    cpuTime: usage.cpuTime,
+                    memoryUsage: usage.peakMemoryKb,
+                    stderr,
+                    kind,
+                    transcript: transcript.join('\n')
+                });
+            });
+
+            sendPendingResponses();
+        });
+    }
+
+    public parseScript(script: string): ScriptStep[] {
+        return script
+            .split('\n')
+            .map(line => line.trimEnd())
+            .filter(line => line.startsWith('>') || line.startsWith('<'))
+            .map(line => ({
+                direction: line.startsWith('>') ? 'send' as const : 'expect' as const,
+                text: line.slice(1).trim()
+            }));
+    }
+
+    /**
+     * Maps the interactor's testlib exit code to a verdict.
+     */
+    private getInteractorVerdict(
+        interactorCode: number | null,
+        solutionCode: number | null,
+        interactorStderr: string,
+        solutionStderr: string
+    ): Outcome {
+        const comment = interactorStderr.trim();
+        const withComment = (message: string) => comment ? `${message}: ${comment}` : message;
+
+        switch (interactorCode) {
+            case 0:
+                return solutionCode === 0
+                    ? { verdict: 'AC', error: null }
+                    : { verdict: 'RE', error: `Runtime Error (Exit code: ${solutionCode})\n${solutionStderr}` };
+            case 1:
+                return { verdict: 'WA', error: withComment('Wrong Answer') };
+            case 2:
+                return { verdict: 'PE', error: withComment('Protocol Error') };
+            case 3:
+                return { verdict: 'FAIL', error: withComment('Interactor Failed') };
+            default:
+                return { verdict: 'FAIL', error: withComment(`Interactor exited with code ${interactorCode}`) };
+        }
+    }
+
+    private appendTranscript(transcript: string[], source: 'solution' | 'interactor', chunk: string): void {
+        chunk.split('\n')
+            .filter(line => line.trim() !== '')
+            .forEach(line => transcript.push(`[${source}] ${line}`));
+    }
+}
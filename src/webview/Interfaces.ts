@@ -1,7 +1,10 @@
+export type TestKind = 'sample' | 'custom';
+
 export interface TestCase {
     input: string;
     output: string;
     explanation?: string;
+    kind?: TestKind;
 }
 
 export interface ProblemData {
@@ -14,6 +17,30 @@ export interface ProblemData {
     sampleTests: TestCase[];
     source: string;
     difficulty?: string;
+    tags?: string[];
+    contestId?: number;
+    index?: string;
+    url?: string;
+}
+
+export type ContestKind = 'contest' | 'gym' | 'group';
+
+export interface ContestIdentifier {
+    kind: ContestKind;
+    contestId: number;
+    groupId?: string;
+    host?: string;
+}
+
+export interface ProblemIdentifier extends ContestIdentifier {
+    index: string;
+}
+
+/** The envelope around every Codeforces API reply */
+export interface CodeforcesApiResponse<T> {
+    status: 'OK' | 'FAILED';
+    comment?: string;
+    result: T;
 }
 
 export interface CodeforcesApiProblem {
@@ -25,12 +52,309 @@ export interface CodeforcesApiProblem {
     tags: string[];
 }
 
+export interface CodeforcesApiContest {
+    id: number;
+    name: string;
+    type: string;
+    phase: string;
+    durationSeconds: number;
+    startTimeSeconds?: number;
+}
+
+export interface CodeforcesApiProblemStatistics {
+    contestId: number;
+    index: string;
+    solvedCount: number;
+}
+
+/** The part of the `contest.standings` result that describes the contest */
+export interface CodeforcesApiStandings {
+    contest: CodeforcesApiContest;
+    problems: CodeforcesApiProblem[];
+}
+
+/** The `result` of `problemset.problems` */
+export interface CodeforcesApiProblemset {
+    problems: CodeforcesApiProblem[];
+    problemStatistics: CodeforcesApiProblemStatistics[];
+}
+
+export interface CodeforcesApiSubmission {
+    id: number;
+    contestId?: number;
+    creationTimeSeconds: number;
+    /** `contestId` is missing for problems outside contests, e.g. acm.sgu.ru */
+    problem: Omit<CodeforcesApiProblem, 'contestId'> & { contestId?: number };
+    programmingLanguage: string;
+    /** Missing while the submission is being judged */
+    verdict?: string;
+}
+
+export type ContestDivision = 'div1' | 'div2' | 'div3' | 'div4' | 'div1+2' | 'other';
+
+export interface ProblemsetProblem extends CodeforcesApiProblem {
+    solvedCount: number;
+    contestName?: string;
+    division: ContestDivision;
+}
+
+export interface ProblemsetSnapshot {
+    fetchedAt: string;
+    problems: ProblemsetProblem[];
+}
+
+export interface ProblemsetFilter {
+    /** Matched against the problem name and its ID such as `1850G` */
+    name: string;
+    tags: string[];
+    /** Whether a problem needs any or all of `tags` */
+    tagMode: 'any' | 'all';
+    minRating?: number;
+    maxRating?: number;
+    /** Empty for every division */
+    divisions: ContestDivision[];
+    sortBy: 'rating' | 'solvedCount';
+    sortOrder: 'asc' | 'desc';
+}
+
+export type Verdict = 'AC' | 'WA' | 'TLE' | 'MLE' | 'RE' | 'ILE' | 'PE' | 'FAIL';
+
+/** The verdicts for a run that went over the problem's limits */
+export type LimitVerdict = Extract<Verdict, 'TLE' | 'MLE'>;
+
 export interface TestResult {
     testNumber: number;
     passed: boolean;
+    verdict: Verdict;
     input: string;
     expectedOutput: string;
     actualOutput: string;
     error: string | null;
     executionTime: number;
-}
\ No newline at end of file
+    cpuTime?: number;
+    memoryUsage?: number; // peak RSS in KB
+    stderr?: string;
+    kind: TestKind;
+    transcript?: string;
+}
+
+export interface DiffLine {
+    lineNumber: number;
+    expected: string | null;
+    actual: string | null;
+    matches: boolean;
+}
+
+export interface OutputDiffResult {
+    lines: DiffLine[];
+    firstMismatch: number | null;
+}
+
+export interface ExecutionLimits {
+    timeLimitMs: number;
+    memoryLimitKb?: number;
+}
+
+export interface ProcessUsage {
+    cpuTime?: number;
+    peakMemoryKb?: number;
+}
+
+export interface LanguageConfig {
+    id: string;
+    name: string;
+    extensions: string[];
+    languageIds: string[];
+    compileCommand?: string;
+    runCommand: string;
+}
+
+/**
+ * The settings `LanguageRegistry` applies on top of its built-in languages.
+ */
+export interface LanguageSettings {
+    /** Command overrides from `smartCodeforcesHelper.languages`, by language id */
+    getOverrides(): Record<string, Partial<LanguageConfig>>;
+    /** Language id `.py` files resolve to, `python` or `pypy` */
+    getPythonInterpreter(): string;
+    /** C++ compile command of the active compiler profile */
+    getCppCompileCommand(): string;
+}
+
+export interface RunnableProgram {
+    command: string;
+    args: string[];
+    cwd: string;
+    artifacts: string[];
+}
+
+export type CheckerType = 'exact' | 'tokens' | 'caseInsensitive' | 'epsilon' | 'unordered' | 'testlib';
+
+export interface CheckerConfig {
+    type: CheckerType;
+    epsilon?: number;
+    checkerPath?: string;
+}
+
+export interface CheckResult {
+    passed: boolean;
+    message?: string;
+}
+
+export type InteractiveMode = 'interactor' | 'script';
+
+export interface InteractiveConfig {
+    mode: InteractiveMode;
+    interactorPath?: string;
+    scriptPath?: string;
+    idleTimeoutMs?: number;
+}
+
+export interface ProblemSettings {
+    checker?: CheckerConfig;
+    interactive?: InteractiveConfig;
+}
+
+export interface CompilerProfile {
+    compiler: string;
+    standard: string;
+    optimization: string;
+    defines: string[];
+    warnings: string[];
+    flags: string[];
+}
+
+export interface SanitizerFinding {
+    tool: string;
+    message: string;
+    location?: string;
+}
+
+/** Outcome of the last run of a problem's samples */
+export type ProblemStatus = 'failing' | 'passing';
+
+export interface CachedProblem {
+    fetchedAt: string;
+    problem: ProblemData;
+    status?: ProblemStatus;
+    /** Source file the tests last ran against */
+    sourcePath?: string;
+}
+
+/** What a handle's submissions to a problem achieved on Codeforces */
+export type SolveState = 'solved' | 'attempted';
+
+export interface ProgressProblem {
+    contestId: number;
+    index: string;
+    name: string;
+    rating?: number;
+    tags: string[];
+    state: SolveState;
+    /** Time of the first accepted submission, in seconds since the epoch */
+    solvedAt?: number;
+}
+
+export interface UserProgress {
+    handle: string;
+    syncedAt: string;
+    problems: ProgressProblem[];
+}
+
+export interface ProgressStats {
+    solved: number;
+    attempted: number;
+    /** Solved problems per rating, by ascending rating; unrated problems are left out */
+    byRating: { rating: number; count: number }[];
+    /** Solved problems per tag, most solved first */
+    byTag: { tag: string; count: number }[];
+    /** Problems first solved on each day, keyed by local `YYYY-MM-DD` */
+    solvedPerDay: Record<string, number>;
+    /** Days in a row with a solve, up to today or yesterday */
+    currentStreak: number;
+    longestStreak: number;
+}
+
+export type ContestProblemStatus = 'loaded' | 'failed';
+
+export interface ContestProblemEntry {
+    index: string;
+    name: string;
+    url: string;
+    rating?: number;
+    status: ContestProblemStatus;
+    error?: string;
+    sourcePath?: string;
+    sampleCount?: number;
+}
+
+export interface ContestOverview {
+    contestId?: number;
+    name: string;
+    folder: string;
+    loadedAt: string;
+    problems: ContestProblemEntry[];
+}
+
+/**
+ * A problem as sent by the Competitive Companion browser extension.
+ * Limits are in milliseconds and megabytes.
+ */
+export interface CompanionTask {
+    name: string;
+    group: string;
+    url: string;
+    interactive?: boolean;
+    timeLimit: number;
+    memoryLimit: number;
+    tests: TestCase[];
+    batch: {
+        id: string;
+        size: number;
+    };
+}
+
+export interface BundleOptions {
+    /** Extra directories searched for `#include "..."` and `#include <...>` */
+    includePaths: string[];
+    stripLocalBlocks: boolean;
+    removeComments: boolean;
+    removeUnused: boolean;
+}
+
+export interface BundleResult {
+    code: string;
+    includedFiles: string[];
+    /** Quoted includes that were not found and were left in place */
+    missingIncludes: string[];
+}
+
+export type TemplateScope = 'workspace' | 'user' | 'builtIn';
+
+export interface SourceTemplate {
+    /** File name including the extension, e.g. `default.cpp`; also the template's id */
+    fileName: string;
+    extension: string;
+    scope: TemplateScope;
+    content: string;
+    /** Absolute path, for templates stored as files */
+    path?: string;
+}
+
+export interface RenderedTemplate {
+    content: string;
+    /** Offset of the `${cursor}` marker in `content`, if the template has one */
+    cursorOffset?: number;
+}
+
+export type HintLevel = 'observation' | 'approach' | 'complexity' | 'dataStructure';
+
+export interface Hint {
+    level: HintLevel;
+    text: string;
+}
+
+export interface CachedHints {
+    generatedAt: string;
+    hints: Hint[];
+}
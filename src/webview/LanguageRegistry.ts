@@ -0,0 +1,169 @@
+import * as path from 'path';
+
+import { LanguageConfig, LanguageSettings } from './Interfaces';
+
+export class LanguageRegistry {
+    private static readonly builtInLanguages: LanguageConfig[] = [
+        {
+            id: 'c',
+            name: 'C',
+            extensions: ['.c'],
+            languageIds: ['c'],
+            compileCommand: 'gcc -o "${exe}" "${file}" -std=c11 -O2 -lm',
+            runCommand: '"${exe}"'
+        },
+        {
+            id: 'cpp',
+            name: 'C++',
+            extensions: ['.cpp', '.cc', '.cxx'],
+            languageIds: ['cpp'],
+            compileCommand: 'g++ -o "${exe}" "${file}" -std=c++17 -O2',
+            runCommand: '"${exe}"'
+        },
+        {
+            id: 'java',
+            name: 'Java',
+            extensions: ['.java'],
+            languageIds: ['java'],
+            compileCommand: 'javac -d "${outDir}" "${file}"',
+            runCommand: 'java -Xss64m -cp "${outDir}" ${fileBase}'
+        },
+        {
+            id: 'python',
+            name: 'Python (CPython)',
+            extensions: ['.py'],
+            languageIds: ['python'],
+            runCommand: 'python3 "${file}"'
+        },
+        {
+            id: 'pypy',
+            name: 'Python (PyPy)',
+            extensions: ['.py'],
+            languageIds: ['python'],
+            runCommand: 'pypy3 "${file}"'
+        },
+        {
+            id: 'rust',
+            name: 'Rust',
+            extensions: ['.rs'],
+            languageIds: ['rust'],
+            compileCommand: 'rustc --edition 2021 -O -o "${exe}" "${file}"',
+            runCommand: '"${exe}"'
+        },
+        {
+            id: 'go',
+            name: 'Go',
+            extensions: ['.go'],
+            languageIds: ['go'],
+            compileCommand: 'go build -o "${exe}" "${file}"',
+            runCommand: '"${exe}"'
+        },
+        {
+            id: 'kotlin',
+            name: 'Kotlin',
+            extensions: ['.kt'],
+            languageIds: ['kotlin'],
+            compileCommand: 'kotlinc "${file}" -include-runtime -d "${outDir}/${fileBase}.jar"',
+            runCommand: 'java -Xss64m -jar "${outDir}/${fileBase}.jar"'
+        }
+    ];
+
+    constructor(private readonly settings: LanguageSettings) { }
+
+    /**
+     * Returns the built-in languages with any command overrides from
+     * `smartCodeforcesHelper.languages` applied. C++ is built with the active
+     * compiler profile unless its compile command is overridden.
+     */
+    public getLanguages(): LanguageConfig[] {
+        const overrides = this.settings.getOverrides();
+
+        return LanguageRegistry.builtInLanguages.map(builtIn => {
+            const language = builtIn.id === 'cpp'
+                ? { ...builtIn, compileCommand: this.settings.getCppCompileCommand() }
+                : builtIn;
+            const override = overrides[language.id];
+            if (!override) {
+                return language;
+            }
+            return {
+                ...language,
+                compileCommand: override.compileCommand ?? language.compileCommand,
+                runCommand: override.runCommand ?? language.runCommand
+            };
+        });
+    }
+
+    /**
+     * Picks the language for a source file, first by extension and then by the
+     * editor's languageId. Python files resolve to CPython or PyPy depending on
+     * `smartCodeforcesHelper.pythonInterpreter`.
+     */
+    public resolve(fileName: string, languageId?: string): LanguageConfig | undefined {
+        const extension = path.extname(fileName).toLowerCase();
+        const candidates = this.getLanguages().filter(language =>
+            language.extensions.includes(extension) ||
+            (languageId !== undefined && language.languageIds.includes(languageId))
+        );
+
+        if (candidates.length <= 1) {
+            return candidates[0];
+        }
+
+        const preferredPython = this.settings.getPythonInterpreter();
+
+        return candidates.find(language => language.id === preferredPython) ?? candidates[0];
+    }
+
+    public getSupportedLanguageNames(): string[] {
+        return LanguageRegistry.builtInLanguages.map(language => language.name);
+    }
+
+    /**
+     * Replaces `${name}` placeholders in a command template.
+     */
+    public static expandCommand(template: string, variables: Record<string, string>): string {
+        return template.replace(/\$\{(\w+)\}/g, (match, name: string) =>
+            variables[name] !== undefined ? variables[name] : match
+        );
+    }
+
+    /**
+     * Splits a command line into the program and its arguments, honouring
+     * single and double quotes, so it can be spawned without a shell.
+     */
+    public static splitCommand(commandLine: string): string[] {
+        const parts: string[] = [];
+        let current = '';
+        let quote: string | null = null;
+        let hasToken = false;
+
+        for (const char of commandLine) {
+            if (quote) {
+                if (char === quote) {
+                    quote = null;
+                } else {
+                    current += char;
+                }
+            } else if (char === '"' || char === '\'') {
+                quote = char;
+                hasToken = true;
+            } else if (/\s/.test(char)) {
+                if (hasToken) {
+                    parts.push(current);
+                    current = '';
+                    hasToken = false;
+                }
+            } else {
+                current += char;
+                hasToken = true;
+            }
+        }
+
+        if (hasToken) {
+            parts.push(current);
+        }
+
+        return parts;
+    }
+}
@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+
+import { LlmProvider, LlmProviderName, LlmSettings } from '../autoCodeGenerator/LlmProvider';
+import { LlmProviderFactory } from '../autoCodeGenerator/LlmProviderFactory';
+import { LlmTemplateGenerator } from '../autoCodeGenerator/LlmTemplateGenerator';
+import { LlmHintGenerator } from '../autoCodeGenerator/LlmHintGenerator';
+import { LlmFailureExplainer } from '../autoCodeGenerator/LlmFailureExplainer';
+
+/**
+ * Reads the `smartCodeforcesHelper.llm.*` settings and keeps provider API
+ * keys in VS Code's secret storage. Providers are created on demand so
+ * setting changes apply to the next request.
+ */
+export class LlmConfiguration {
+    private static readonly providerLabels: Record<LlmProviderName, string> = {
+        mistral: 'Mistral',
+        openai: 'OpenAI-compatible endpoint',
+        ollama: 'Ollama'
+    };
+
+    /** Environment variables still honoured when no key is stored */
+    private static readonly apiKeyVariables: Partial<Record<LlmProviderName, string>> = {
+        mistral: 'MISTRAL_API_KEY',
+        openai: 'OPENAI_API_KEY'
+    };
+
+    constructor(private readonly secrets: vscode.SecretStorage) { }
+
+    public getProviderName(): LlmProviderName {
+        return vscode.workspace
+            .getConfiguration('smartCodeforcesHelper.llm')
+            .get<LlmProviderName>('provider', 'mistral');
+    }
+
+    public async getSettings(): Promise<LlmSettings> {
+        const config = vscode.workspace.getConfiguration('smartCodeforcesHelper.llm');
+        const provider = this.getProviderName();
+
+        return {
+            provider,
+            model: config.get<string>('model', '') || LlmProviderFactory.defaultModels[provider],
+            baseUrl: config.get<string>('baseUrl', '') || LlmProviderFactory.defaultBaseUrls[provider],
+            apiKey: await this.getApiKey(provider),
+            temperature: config.get<number>('temperature', 0.1),
+            maxTokens: config.get<number>('maxTokens', 2000)
+        };
+    }
+
+    /**
+     * Whether the configured provider has what it needs: Mistral and the
+     * OpenAI API itself need a key, other OpenAI-compatible endpoints and
+     * Ollama may run without one.
+     */
+    public async isAvailable(): Promise<boolean> {
+        const settings = await this.getSettings();
+        switch (settings.provider) {
+            case 'mistral':
+                return settings.apiKey !== undefined;
+            case 'openai':
+                return settings.apiKey !== undefined || settings.baseUrl !== LlmProviderFactory.defaultBaseUrls.openai;
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Tells the user that the AI features are off, offering to set a key.
+     */
+    public async promptForApiKey(): Promise<void> {
+        const answer = await vscode.window.showWarningMessage(
+            'AI features are off until an API key is set for the configured provider.',
+            'Set API Key'
+        );
+        if (answer === 'Set API Key') {
+            await vscode.commands.executeCommand('smart-codeforces-helper.setApiKey');
+        }
+    }
+
+    public async createProvider(): Promise<LlmProvider> {
+        if (!await this.isAvailable()) {
+            throw new Error(`No API key is set for ${LlmConfiguration.providerLabels[this.getProviderName()]}. Run "Set API Key" first.`);
+        }
+        return LlmProviderFactory.create(await this.getSettings());
+    }
+
+    public async createTemplateGenerator(): Promise<LlmTemplateGenerator> {
+        return new LlmTemplateGenerator(await this.createProvider());
+    }
+
+    public async createHintGenerator(): Promise<LlmHintGenerator> {
+        return new LlmHintGenerator(await this.createProvider());
+    }
+
+    public async createFailureExplainer(): Promise<LlmFailureExplainer> {
+        return new LlmFailureExplainer(await this.createProvider());
+    }
+
+    /**
+     * Asks for a provider's API key and stores it in secret storage.
+     */
+    public async setApiKey(): Promise<void> {
+        const provider = await this.pickProvider('Select the provider to set the API key for');
+        if (!provider) {
+            return;
+        }
+
+        const apiKey = await vscode.window.showInputBox({
+            prompt: `API key for ${LlmConfiguration.providerLabels[provider]}`,
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() === '' ? 'The API key cannot be empty' : undefined
+        });
+        if (!apiKey) {
+            return;
+        }
+
+        await this.secrets.store(LlmConfiguration.getSecretKey(provider), apiKey.trim());
+        vscode.window.showInformationMessage(`🔑 API key for ${LlmConfiguration.providerLabels[provider]} saved`);
+    }
+
+    public async clearApiKey(): Promise<void> {
+        const provider = await this.pickProvider('Select the provider to remove the API key of');
+        if (!provider) {
+            return;
+        }
+
+        await this.secrets.delete(LlmConfiguration.getSecretKey(provider));
+        vscode.window.showInformationMessage(`API key for ${LlmConfiguration.providerLabels[provider]} removed`);
+    }
+
+    /**
+     * Quick pick of the providers that use a key (not Ollama), with the
+     * active provider first.
+     */
+    private async pickProvider(placeHolder: string): Promise<LlmProviderName | undefined> {
+        const current = this.getProviderName();
+        const providers = (Object.keys(LlmConfiguration.apiKeyVariables) as LlmProviderName[])
+            .sort((a, b) => Number(b === current) - Number(a === current));
+
+        const picked = await vscode.window.showQuickPick(
+            providers.map(provider => ({
+                label: LlmConfiguration.providerLabels[provider],
+                description: provider === current ? '(active)' : undefined,
+                provider
+            })),
+            { placeHolder }
+        );
+        return picked?.provider;
+    }
+
+    private async getApiKey(provider: LlmProviderName): Promise<string | undefined> {
+        const variable = LlmConfiguration.apiKeyVariables[provider];
+        if (!variable) {
+            return undefined;
+        }
+        return await this.secrets.get(LlmConfiguration.getSecretKey(provider)) || process.env[variable] || undefined;
+    }
+
+    private static getSecretKey(provider: LlmProviderName): string {
+        return `smartCodeforcesHelper.apiKey.${provider}`;
+    }
+}
@@ -0,0 +1,171 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { CheckerConfig, CheckResult } from './Interfaces';
+
+export class OutputChecker {
+    private static readonly defaultEpsilon = 1e-6;
+    private static readonly checkerTimeout = 10000;
+
+    public async check(config: CheckerConfig, input: string, actual: string, expected: string): Promise<CheckResult> {
+        switch (config.type) {
+            case 'tokens':
+                return this.compareTokens(actual, expected, (a, b) => a === b);
+            case 'caseInsensitive':
+                return this.compareTokens(actual, expected, (a, b) => a.toLowerCase() === b.toLowerCase());
+            case 'epsilon':
+                return this.compareTokens(actual, expected,
+                    (a, b) => this.numbersMatch(a, b, config.epsilon ?? OutputChecker.defaultEpsilon));
+            case 'unordered':
+                return this.compareUnorderedLines(actual, expected);
+            case 'testlib':
+                return this.runTestlibChecker(config, input, actual, expected);
+            case 'exact':
+            default:
+                return this.compareExact(actual, expected);
+        }
+    }
+
+    private compareExact(actual: string, expected: string): CheckResult {
+        const normalizeOutput = (output: string): string => {
+            return output
+                .split('\n')                    // Split into lines
+                .map(line => line.trimEnd())    // Remove trailing spaces from each line
+                .join('\n')                     // Rejoin
+                .trim();                        // Remove leading/trailing newlines
+        };
+
+        return { passed: normalizeOutput(actual) === normalizeOutput(expected) };
+    }
+
+    private compareTokens(actual: string, expected: string, equals: (a: string, b: string) => boolean): CheckResult {
+        const actualTokens = this.tokenize(actual);
+        const expectedTokens = this.tokenize(expected);
+
+        const common = Math.min(actualTokens.length, expectedTokens.length);
+        for (let i = 0; i < common; i++) {
+            if (!equals(actualTokens[i], expectedTokens[i])) {
+                return {
+                    passed: false,
+                    message: `token ${i + 1} differs: expected "${expectedTokens[i]}", found "${actualTokens[i]}"`
+                };
+            }
+        }
+
+        if (actualTokens.length !== expectedTokens.length) {
+            return {
+                passed: false,
+                message: `expected ${expectedTokens.length} tokens, found ${actualTokens.length}`
+            };
+        }
+
+        return { passed: true };
+    }
+
+    private compareUnorderedLines(actual: string, expected: string): CheckResult {
+        const toSortedLines = (output: string): string[] => output
+            .split('\n')
+            .map(line => line.trim())
+            .filter(line => line !== '')
+            .sort();
+
+        const actualLines = toSortedLines(actual);
+        const expectedLines = toSortedLines(expected);
+
+        if (actualLines.length !== expectedLines.length) {
+            return {
+                passed: false,
+                message: `expected ${expectedLines.length} lines, found ${actualLines.length}`
+            };
+        }
+
+        const missing = expectedLines.find((line, i) => line !== actualLines[i]);
+        if (missing !== undefined) {
+            return { passed: false, message: 'lines differ even when order is ignored' };
+        }
+
+        return { passed: true };
+    }
+
+    /**
+     * Numbers match when either the absolute or the relative error is within
+     * epsilon; anything that isn't a number must match exactly.
+     */
+    private numbersMatch(actual: string, expected: string, epsilon: number): boolean {
+        const actualValue = Number(actual);
+        const expectedValue = Number(expected);
+
+        if (!Number.isFinite(actualValue) || !Number.isFinite(expectedValue)) {
+            return actual === expected;
+        }
+
+        const difference = Math.abs(actualValue - expectedValue);
+        return difference <= epsilon || difference <= epsilon * Math.abs(expectedValue);
+    }
+
+    private tokenize(output: string): string[] {
+        return output.split(/\s+/).filter(token => token !== '');
+    }
+
+    /**
+     * Runs a testlib-style checker as `checker <input> <output> <answer>` and
+     * maps its exit code: 0 accepted, 1 wrong answer, 2 presentation error,
+     * 3 checker failure, 7 partial score.
+     */
+    private async runTestlibChecker(config: CheckerConfig, input: string, actual: string, expected: string): Promise<CheckResult> {
+        const { checkerPath } = config;
+        if (!checkerPath) {
+            return { passed: false, message: 'No checker executable configured' };
+        }
+        if (!fs.existsSync(checkerPath)) {
+            return { passed: false, message: `Checker not found: ${checkerPath}` };
+        }
+
+        let directory: string | undefined;
+        try {
+            directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cf-checker-'));
+            const inputPath = path.join(directory, 'input.txt');
+            const outputPath = path.join(directory, 'output.txt');
+            const answerPath = path.join(directory, 'answer.txt');
+
+            fs.writeFileSync(inputPath, input);
+            fs.writeFileSync(outputPath, actual);
+            fs.writeFileSync(answerPath, expected);
+
+            return await new Promise((resolve) => {
+                cp.execFile(checkerPath, [inputPath, outputPath, answerPath], {
+                    timeout: OutputChecker.checkerTimeout
+                }, (error, stdout, stderr) => {
+                    const comment = (stderr || stdout).trim();
+                    const exitCode = error ? (typeof error.code === 'number' ? error.code : null) : 0;
+
+                    switch (exitCode) {
+                        case 0:
+                            resolve({ passed: true, message: comment || undefined });
+                            break;
+                        case 1:
+                            resolve({ passed: false, message: comment || 'checker reported wrong answer' });
+                            break;
+                        case 2:
+                            resolve({ passed: false, message: `Presentation Error${comment ? `: ${comment}` : ''}` });
+                            break;
+                        case 7:
+                            resolve({ passed: false, message: `Partial score${comment ? `: ${comment}` : ''}` });
+                            break;
+                        default:
+                            resolve({
+                                passed: false,
+                                message: `Checker failed${exitCode !== null ? ` (exit code ${exitCode})` : ''}: ${comment || error?.message}`
+                            });
+                    }
+                });
+            });
+        } finally {
+            if (directory) {
+                fs.rmSync(directory, { recursive: true, force: true });
+            }
+        }
+    }
+}
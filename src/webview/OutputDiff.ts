@@ -0,0 +1,38 @@
+import { DiffLine, OutputDiffResult } from './Interfaces';
+
+/**
+ * Line-by-line comparison of expected and actual output, the way judges
+ * compare them: line i against line i, ignoring trailing whitespace and
+ * trailing blank lines.
+ */
+export class OutputDiff {
+    public static compute(expected: string, actual: string): OutputDiffResult {
+        const expectedLines = OutputDiff.toLines(expected);
+        const actualLines = OutputDiff.toLines(actual);
+        const lineCount = Math.max(expectedLines.length, actualLines.length);
+
+        const lines: DiffLine[] = [];
+        let firstMismatch: number | null = null;
+
+        for (let i = 0; i < lineCount; i++) {
+            const expectedLine = i < expectedLines.length ? expectedLines[i] : null;
+            const actualLine = i < actualLines.length ? actualLines[i] : null;
+            const matches = expectedLine === actualLine;
+
+            if (!matches && firstMismatch === null) {
+                firstMismatch = i;
+            }
+            lines.push({ lineNumber: i + 1, expected: expectedLine, actual: actualLine, matches });
+        }
+
+        return { lines, firstMismatch };
+    }
+
+    private static toLines(output: string): string[] {
+        const lines = output.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd());
+        while (lines.length > 0 && lines[lines.length - 1] === '') {
+            lines.pop();
+        }
+        return lines;
+    }
+}
@@ -0,0 +1,120 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CachedProblem, ProblemData, ProblemStatus } from './Interfaces';
+
+/**
+ * Fetched problems kept on disk as `<contestId><index>.json`, so a problem
+ * that was opened once loads instantly and without a network connection.
+ * Problems from other judges have no contest id and are kept as
+ * `url-<hash of their URL>.json` instead.
+ */
+export class ProblemCache {
+    constructor(private readonly cacheDir: string) { }
+
+    public get(contestId: number, index: string): CachedProblem | undefined {
+        return this.getByKey(ProblemCache.getKey({ contestId, index }));
+    }
+
+    /**
+     * Stores a freshly fetched problem, keeping the test status of an
+     * earlier copy.
+     */
+    public set(problemData: ProblemData): CachedProblem {
+        const key = ProblemCache.getKey(problemData);
+        if (!key) {
+            throw new Error('Only problems with a contest id and index, or a URL, can be cached');
+        }
+
+        const previous = this.getByKey(key);
+        return this.write(key, {
+            fetchedAt: new Date().toISOString(),
+            problem: problemData,
+            status: previous?.status,
+            sourcePath: previous?.sourcePath
+        });
+    }
+
+    /**
+     * Records the outcome of a test run of a cached problem; does nothing for
+     * problems that are not cached.
+     */
+    public setStatus(problemData: ProblemData, status: ProblemStatus, sourcePath: string): CachedProblem | undefined {
+        const key = ProblemCache.getKey(problemData);
+        const entry = key ? this.getByKey(key) : undefined;
+        return key && entry ? this.write(key, { ...entry, status, sourcePath }) : undefined;
+    }
+
+    /**
+     * Every cached problem, in no particular order.
+     */
+    public list(): CachedProblem[] {
+        if (!fs.existsSync(this.cacheDir)) {
+            return [];
+        }
+        return fs.readdirSync(this.cacheDir)
+            .filter(file => file.endsWith('.json'))
+            .map(file => this.read(path.join(this.cacheDir, file)))
+            .filter((entry): entry is CachedProblem => entry !== undefined);
+    }
+
+    public remove(problemData: Pick<ProblemData, 'contestId' | 'index' | 'url'>): boolean {
+        const key = ProblemCache.getKey(problemData);
+        const filePath = key && this.getPath(key);
+        if (!filePath || !fs.existsSync(filePath)) {
+            return false;
+        }
+        fs.rmSync(filePath, { force: true });
+        return true;
+    }
+
+    /**
+     * Removes every cached problem and returns how many there were.
+     */
+    public clear(): number {
+        if (!fs.existsSync(this.cacheDir)) {
+            return 0;
+        }
+        const files = fs.readdirSync(this.cacheDir).filter(file => file.endsWith('.json'));
+        files.forEach(file => fs.rmSync(path.join(this.cacheDir, file), { force: true }));
+        return files.length;
+    }
+
+    private getByKey(key: string | undefined): CachedProblem | undefined {
+        const filePath = key && this.getPath(key);
+        if (!filePath || !fs.existsSync(filePath)) {
+            return undefined;
+        }
+        return this.read(filePath);
+    }
+
+    private read(filePath: string): CachedProblem | undefined {
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CachedProblem;
+        } catch (error) {
+            console.warn(`Failed to read cached problem ${filePath}:`, error);
+            return undefined;
+        }
+    }
+
+    private write(key: string, entry: CachedProblem): CachedProblem {
+        fs.mkdirSync(this.cacheDir, { recursive: true });
+        fs.writeFileSync(this.getPath(key), JSON.stringify(entry, null, 2), 'utf-8');
+        return entry;
+    }
+
+    private getPath(key: string): string {
+        return path.join(this.cacheDir, `${key}.json`);
+    }
+
+    private static getKey(problemData: Pick<ProblemData, 'contestId' | 'index' | 'url'>): string | undefined {
+        if (problemData.contestId !== undefined && problemData.index) {
+            return `${problemData.contestId}${problemData.index.toUpperCase()}`;
+        }
+        if (problemData.url) {
+            return `url-${crypto.createHash('sha256').update(problemData.url).digest('hex').slice(0, 16)}`;
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CachedProblem, ProblemData, ProblemStatus, SolveState } from './Interfaces';
+import { ProblemWebviewProvider } from './ProblemWebViewProvider';
+
+interface ContestItem {
+    kind: 'contest';
+    label: string;
+    /** Undefined for the group of problems from other judges */
+    contestId: number | undefined;
+    problems: CachedProblem[];
+}
+
+interface ProblemItem {
+    kind: 'problem';
+    entry: CachedProblem;
+}
+
+type ExplorerItem = ContestItem | ProblemItem;
+
+/**
+ * Sidebar tree of the problems in the problem cache, grouped by contest,
+ * with their test status, rating and tags. Problems solved on Codeforces,
+ * as of the last progress sync, are marked as such. Problems without a
+ * Codeforces contest, such as ones from other judges, are grouped last
+ * under "Other".
+ */
+export class ProblemExplorerProvider implements vscode.TreeDataProvider<ExplorerItem>, vscode.Disposable {
+    public static readonly viewId = 'smartCodeforcesHelper.problemExplorer';
+
+    private readonly changed = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changed.event;
+    private readonly problemsListener: vscode.Disposable;
+
+    constructor(private readonly problemWebviewProvider: ProblemWebviewProvider) {
+        this.problemsListener = problemWebviewProvider.onDidChangeProblems(() => this.refresh());
+    }
+
+    public refresh(): void {
+        this.changed.fire();
+    }
+
+    public getChildren(element?: ExplorerItem): ExplorerItem[] {
+        if (element?.kind === 'contest') {
+            return element.problems
+                .sort((a, b) => (a.problem.index ?? '').localeCompare(b.problem.index ?? '', undefined, { numeric: true }))
+                .map(entry => ({ kind: 'problem', entry }));
+        }
+        if (element) {
+            return [];
+        }
+
+        const contests = new Map<number | undefined, ContestItem>();
+        this.problemWebviewProvider.problemCache.list().forEach(entry => {
+            const { contestId } = entry.problem;
+            const label = contestId === undefined ? 'Other' : entry.problem.source || `Contest ${contestId}`;
+            const contest: ContestItem = contests.get(contestId) ?? { kind: 'contest', label, contestId, problems: [] };
+            contest.problems.push(entry);
+            contests.set(contestId, contest);
+        });
+        // Most recent contests first, then the other judges
+        return [...contests.values()].sort((a, b) => (b.contestId ?? -1) - (a.contestId ?? -1));
+    }
+
+    public getTreeItem(element: ExplorerItem): vscode.TreeItem {
+        if (element.kind === 'contest') {
+            const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+            const passing = element.problems.filter(entry => entry.status === 'passing').length;
+            item.description = `${passing}/${element.problems.length} passing`;
+            item.iconPath = new vscode.ThemeIcon('folder');
+            item.contextValue = 'contest';
+            return item;
+        }
+
+        const { problem, status } = element.entry;
+        const rating = problem.difficulty?.replace(/^\*/, '');
+        const tags = problem.tags ?? [];
+        const solveState = this.problemWebviewProvider.userProgress.getState(problem.contestId, problem.index);
+
+        const item = new vscode.TreeItem(this.getLabel(problem), vscode.TreeItemCollapsibleState.None);
+        item.id = problem.contestId !== undefined && problem.index ? `${problem.contestId}${problem.index}` : problem.url;
+        item.description = [rating, tags.join(', ')].filter(part => part).join(' · ');
+        item.iconPath = this.getIcon(status, solveState);
+        item.tooltip = new vscode.MarkdownString([
+            `**${this.getLabel(problem)}**`,
+            `Status: ${status === 'passing' ? 'all samples passing' : status === 'failing' ? 'failing' : 'not attempted'}`,
+            ...(solveState ? [`Codeforces: ${solveState}`] : []),
+            ...(rating ? [`Rating: ${rating}`] : []),
+            ...(tags.length > 0 ? [`Tags: ${tags.join(', ')}`] : [])
+        ].join('\n\n'));
+        item.contextValue = 'problem';
+        item.command = {
+            command: 'smart-codeforces-helper.openProblemStatement',
+            title: 'Open Statement',
+            arguments: [element]
+        };
+        return item;
+    }
+
+    public openStatement(item: ExplorerItem | undefined): void {
+        const entry = this.getEntry(item);
+        if (entry) {
+            this.problemWebviewProvider.showProblemData(entry.problem);
+        }
+    }
+
+    public async openSource(item: ExplorerItem | undefined): Promise<boolean> {
+        const entry = this.getEntry(item);
+        if (!entry) {
+            return false;
+        }
+
+        const sourcePath = this.findSource(entry);
+        if (!sourcePath) {
+            vscode.window.showWarningMessage(
+                `No source file is known for ${this.getLabel(entry.problem)}. Run its tests from the source file once, or load its contest.`
+            );
+            return false;
+        }
+        const document = await vscode.workspace.openTextDocument(sourcePath);
+        await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.One, preview: false });
+        return true;
+    }
+
+    /**
+     * Opens the problem's source file and statement and runs its tests.
+     */
+    public async runTests(item: ExplorerItem | undefined): Promise<void> {
+        const entry = this.getEntry(item);
+        if (!entry || !await this.openSource(item)) {
+            return;
+        }
+        this.problemWebviewProvider.showProblemData(entry.problem);
+        await this.problemWebviewProvider.runTests();
+    }
+
+    public async remove(item: ExplorerItem | undefined): Promise<void> {
+        const entry = this.getEntry(item);
+        if (!entry) {
+            return;
+        }
+
+        const answer = await vscode.window.showWarningMessage(
+            `Remove ${this.getLabel(entry.problem)} from the problem explorer? Its source files are kept.`,
+            { modal: true },
+            'Remove'
+        );
+        if (answer === 'Remove') {
+            this.problemWebviewProvider.removeProblem(entry.problem);
+        }
+    }
+
+    public dispose(): void {
+        this.problemsListener.dispose();
+        this.changed.dispose();
+    }
+
+    /**
+     * An accepted submission outranks the local test status; a failed one
+     * only shows when the samples were never run.
+     */
+    private getIcon(status: ProblemStatus | undefined, solveState: SolveState | undefined): vscode.ThemeIcon {
+        if (solveState === 'solved') {
+            return new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed'));
+        }
+        if (status === 'passing') {
+            return new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+        }
+        if (status === 'failing' || solveState === 'attempted') {
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+        }
+        return new vscode.ThemeIcon('circle-large-outline');
+    }
+
+    private getLabel(problem: ProblemData): string {
+        return problem.index ? `${problem.index}. ${problem.title}` : problem.title;
+    }
+
+    private getEntry(item: ExplorerItem | undefined): CachedProblem | undefined {
+        return item?.kind === 'problem' ? item.entry : undefined;
+    }
+
+    /**
+     * The source file the tests last ran against, or else the one a loaded
+     * contest put in `<kind>-<contestId>/<index>/`.
+     */
+    private findSource(entry: CachedProblem): string | undefined {
+        if (entry.sourcePath && fs.existsSync(entry.sourcePath)) {
+            return entry.sourcePath;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const { contestId, index } = entry.problem;
+        if (!workspaceFolder || contestId === undefined || !index) {
+            return undefined;
+        }
+        for (const kind of ['contest', 'gym']) {
+            const problemDir = path.join(workspaceFolder.uri.fsPath, `${kind}-${contestId}`, index);
+            const source = fs.existsSync(problemDir)
+                ? fs.readdirSync(problemDir).find(file => path.parse(file).name === index)
+                : undefined;
+            if (source) {
+                return path.join(problemDir, source);
+            }
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,123 @@
+import { HTMLElement, parse } from 'node-html-parser';
+
+import { ProblemData, TestCase } from './Interfaces';
+
+/**
+ * Extracts `ProblemData` from the HTML of a Codeforces problem page. Works on
+ * the static markup, so no browser is needed.
+ */
+export class ProblemPageParser {
+    public parse(html: string): ProblemData {
+        // `pre` is parsed as markup too: sample lines are wrapped in elements
+        const root = parse(html, { blockTextElements: { script: true, noscript: true, style: true } });
+        const statement = root.querySelector('.problem-statement');
+        if (!statement) {
+            throw new Error('Problem statement not found in the page');
+        }
+
+        const title = this.cleanText(statement.querySelector('.header .title')?.text ?? '')
+            .replace(/^[A-Z]\d*\.\s*/, '');
+
+        return {
+            title: title || 'Problem Title',
+            timeLimit: this.getPropertyValue(statement, '.time-limit') || '1 second',
+            memoryLimit: this.getPropertyValue(statement, '.memory-limit') || '256 megabytes',
+            description: this.getLegend(statement) || 'Problem description',
+            inputFormat: this.getSection(statement, '.input-specification') || 'See problem statement',
+            outputFormat: this.getSection(statement, '.output-specification') || 'See problem statement',
+            sampleTests: this.getSampleTests(statement),
+            source: 'Codeforces',
+            difficulty: this.getDifficulty(root),
+            tags: this.getTags(root)
+        };
+    }
+
+    /**
+     * Text of a header property such as `.time-limit`, without its
+     * "time limit per test" caption.
+     */
+    private getPropertyValue(statement: HTMLElement, selector: string): string {
+        const property = statement.querySelector(selector);
+        if (!property) {
+            return '';
+        }
+        const caption = property.querySelector('.property-title')?.text ?? '';
+        return this.cleanText(property.text.replace(caption, ''));
+    }
+
+    /**
+     * The statement body: the unnamed `div`s between the header and the
+     * input specification.
+     */
+    private getLegend(statement: HTMLElement): string {
+        return statement.childNodes
+            .filter((node): node is HTMLElement => node instanceof HTMLElement && node.tagName === 'DIV' && !node.classNames)
+            .map(node => node.innerHTML.trim())
+            .join(' ');
+    }
+
+    private getSection(statement: HTMLElement, selector: string): string {
+        const section = statement.querySelector(selector);
+        if (!section) {
+            return '';
+        }
+        return section.childNodes
+            .filter(node => !(node instanceof HTMLElement && node.classList.contains('section-title')))
+            .map(node => node.toString())
+            .join('')
+            .trim();
+    }
+
+    /**
+     * Inputs and outputs are paired by position; a single `.sample-test`
+     * block may hold several of each.
+     */
+    private getSampleTests(statement: HTMLElement): TestCase[] {
+        const inputs = statement.querySelectorAll('.sample-test .input pre');
+        const outputs = statement.querySelectorAll('.sample-test .output pre');
+        const sampleTests: TestCase[] = [];
+
+        for (let i = 0; i < Math.min(inputs.length, outputs.length); i++) {
+            const input = this.getPreText(inputs[i]);
+            const output = this.getPreText(outputs[i]);
+            if (input && output) {
+                sampleTests.push({ input, output });
+            }
+        }
+        return sampleTests;
+    }
+
+    /**
+     * Sample text, whether the lines are wrapped in `.test-example-line`
+     * elements, separated by `<br>` or plain newlines.
+     */
+    private getPreText(pre: HTMLElement): string {
+        const exampleLines = pre.querySelectorAll('.test-example-line');
+        const text = exampleLines.length > 0
+            ? exampleLines.map(line => line.text).join('\n')
+            : parse(pre.innerHTML.replace(/<br\s*\/?>/gi, '\n')).text;
+
+        return text
+            .replace(/\r\n/g, '\n')
+            .split('\n')
+            .map(line => line.trimEnd())
+            .join('\n')
+            .trim();
+    }
+
+    private getDifficulty(root: HTMLElement): string | undefined {
+        const tag = root.querySelectorAll('.tag-box').find(element => element.getAttribute('title') === 'Difficulty');
+        return tag ? this.cleanText(tag.text) : undefined;
+    }
+
+    private getTags(root: HTMLElement): string[] {
+        return root.querySelectorAll('.tag-box')
+            .filter(element => element.getAttribute('title') !== 'Difficulty')
+            .map(element => this.cleanText(element.text))
+            .filter(tag => tag !== '');
+    }
+
+    private cleanText(text: string): string {
+        return text.replace(/\s+/g, ' ').trim();
+    }
+}
@@ -1,66 +1,104 @@
-import * as puppeteer from 'puppeteer';
+import * as vscode from 'vscode';
 
-import { ProblemData, CodeforcesApiProblem, TestCase } from "./Interfaces";
+import { ProblemData, ProblemsetProblem, TestCase } from "./Interfaces";
+import { ProblemPageParser } from './ProblemPageParser';
+import { ProblemUrlParser } from './ProblemUrlParser';
+import { ProblemsetStore } from './ProblemsetStore';
 
 export class ProblemScraper {
-    public async extractProblemData(url: string): Promise<ProblemData> {
-        const urlMatch = url.match(/\/problemset\/problem\/(\d+)\/([A-Z]\d?)/i) ||
-            url.match(/\/contest\/(\d+)\/problem\/([A-Z]\d?)/i);
-
-        if (!urlMatch) {
-            throw new Error('Invalid Codeforces problem URL format');
+    private static readonly userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+    pageParser = new ProblemPageParser();
+
+    constructor(private readonly problemsetStore: ProblemsetStore) { }
+
+    /**
+     * Fetches a problem given its URL or ID in any form `ProblemUrlParser`
+     * accepts.
+     */
+    public async extractProblemData(problem: string): Promise<ProblemData> {
+        const identifier = ProblemUrlParser.parse(problem);
+        const { contestId, index: problemIndex } = identifier;
+        const url = ProblemUrlParser.toUrl(identifier);
+        const scrapedData = await this.scrapeProblemPage(url);
+
+        // The page shows the rating in its tag list; the API is only needed when it doesn't.
+        // problemset.problems only lists regular contests.
+        let { title, difficulty, tags } = scrapedData;
+        if (!difficulty && identifier.kind === 'contest') {
+            try {
+                const apiData = await this.fetchFromCodeforcesAPI(contestId, problemIndex);
+                title = apiData.name || title;
+                difficulty = apiData.rating ? `*${apiData.rating}` : undefined;
+                tags = tags?.length ? tags : apiData.tags;
+            } catch (apiError) {
+                console.warn('API fetch failed, using the scraped data only:', apiError);
+            }
         }
 
-        const contestId = parseInt(urlMatch[1]);
-        const problemIndex = urlMatch[2].toUpperCase();
+        return {
+            ...scrapedData,
+            title,
+            difficulty,
+            tags,
+            source: `${identifier.kind === 'gym' ? 'Gym' : 'Contest'} ${contestId}`,
+            contestId,
+            index: problemIndex,
+            url
+        };
+    }
 
+    /**
+     * Downloads the problem page and parses its HTML. Puppeteer is only used
+     * when that fails and `smartCodeforcesHelper.scraper.puppeteerFallback`
+     * is enabled.
+     */
+    public async scrapeProblemPage(url: string): Promise<ProblemData> {
         try {
-            const apiData = await this.fetchFromCodeforcesAPI(contestId, problemIndex);
-            const detailedData = await this.scrapeWithOptimizedPuppeteer(url);
-
-            return {
-                title: apiData.name || detailedData.title,
-                timeLimit: detailedData.timeLimit,
-                memoryLimit: detailedData.memoryLimit,
-                description: detailedData.description,
-                inputFormat: detailedData.inputFormat,
-                outputFormat: detailedData.outputFormat,
-                sampleTests: detailedData.sampleTests,
-                source: `Contest ${contestId}`,
-                difficulty: apiData.rating ? `*${apiData.rating}` : detailedData.difficulty
-            };
-        } catch (apiError) {
-            console.warn('API fetch failed, using scraping only:', apiError);
-            return await this.scrapeWithOptimizedPuppeteer(url);
+            return await this.scrapeWithHttp(url);
+        } catch (error) {
+            const usePuppeteer = vscode.workspace
+                .getConfiguration('smartCodeforcesHelper')
+                .get<boolean>('scraper.puppeteerFallback', false);
+            if (!usePuppeteer) {
+                throw error;
+            }
+            console.warn('HTTP scraping failed, falling back to Puppeteer:', error);
+            return this.scrapeWithOptimizedPuppeteer(url);
         }
     }
 
-    public async fetchFromCodeforcesAPI(contestId: number, problemIndex: string): Promise<CodeforcesApiProblem> {
-        const apiUrl = `https://codeforces.com/api/problemset.problems`;
-
+    public async scrapeWithHttp(url: string): Promise<ProblemData> {
+        let html: string;
         try {
-            const response = await fetch(apiUrl);
-            const data = await response.json();
-
-            if (data.status !== 'OK') {
-                throw new Error(`API Error: ${data.comment}`);
+            const response = await fetch(url, {
+                headers: { 'User-Agent': ProblemScraper.userAgent }
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`);
             }
+            html = await response.text();
+        } catch (error) {
+            throw new Error(`Failed to download ${url}: ${error instanceof Error ? error.message : String(error)}`);
+        }
 
-            const problem = data.result.problems.find((p: CodeforcesApiProblem) =>
-                p.contestId === contestId && p.index === problemIndex
-            );
+        return this.pageParser.parse(html);
+    }
 
-            if (!problem) {
-                throw new Error(`Problem ${contestId}/${problemIndex} not found in API`);
-            }
+    public async fetchFromCodeforcesAPI(contestId: number, problemIndex: string): Promise<ProblemsetProblem> {
+        const problem = await this.problemsetStore.find(contestId, problemIndex);
 
-            return problem;
-        } catch (error) {
-            throw new Error(`Failed to fetch from Codeforces API: ${error}`);
+        if (!problem) {
+            throw new Error(`Problem ${contestId}/${problemIndex} not found in API`);
         }
+        return problem;
     }
 
     public async scrapeWithOptimizedPuppeteer(url: string): Promise<ProblemData> {
+        const puppeteer = await import('puppeteer').catch(() => {
+            throw new Error('Puppeteer is not installed. Install it or disable smartCodeforcesHelper.scraper.puppeteerFallback.');
+        });
+
         const browser = await puppeteer.launch({
             headless: true,
             args: [
@@ -91,7 +129,7 @@ export class ProblemScraper {
 
             await page.setViewport({ width: 800, height: 600 });
 
-            await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36');
+            await page.setUserAgent(ProblemScraper.userAgent);
 
             console.log('Loading problem page...');
             await page.goto(url, {
@@ -295,6 +333,9 @@ export class ProblemScraper {
             memoryLimit: "64 megabytes",
             source: "Codeforces Round #4 (Div. 2)",
             difficulty: "800",
+            contestId: 4,
+            index: "A",
+            url: url,
             description: `One hot summer day Pete and his friend Billy decided to buy a watermelon. They chose the biggest and the most beautiful watermelon in the whole store. But to their surprise, the cashier told them that the price of the watermelon is <strong>w</strong> dollars, where <strong>w</strong> is even. Pete and Billy are only able to eat the watermelon if they can divide it into two parts such that each part weighs an even number of kilograms and each part weighs at least 2 kilograms.`,
             inputFormat: "The first line contains a single integer <strong>w</strong> (1 ≤ w ≤ 100) — the weight of the watermelon.",
             outputFormat: "Print <strong>YES</strong> if the watermelon can be divided according to the rules, and <strong>NO</strong> otherwise.",
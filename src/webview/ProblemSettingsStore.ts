@@ -0,0 +1,37 @@
+import { CheckerConfig, InteractiveConfig, ProblemData, ProblemSettings } from './Interfaces';
+import { WorkspaceStore } from './WorkspaceStore';
+
+/**
+ * Persists per-problem settings such as the output checker and interactive
+ * mode in `.codeforces/settings/<problem>.json`.
+ */
+export class ProblemSettingsStore extends WorkspaceStore {
+    protected readonly storageDir = 'settings';
+
+    public load(problemData: ProblemData): ProblemSettings {
+        return this.readJson<ProblemSettings>(problemData) ?? {};
+    }
+
+    public getChecker(problemData: ProblemData): CheckerConfig {
+        return this.load(problemData).checker ?? { type: 'exact' };
+    }
+
+    public setChecker(problemData: ProblemData, checker: CheckerConfig): ProblemSettings {
+        const settings = { ...this.load(problemData), checker };
+        this.writeJson(problemData, settings);
+        return settings;
+    }
+
+    public getInteractive(problemData: ProblemData): InteractiveConfig | undefined {
+        return this.load(problemData).interactive;
+    }
+
+    /**
+     * Pass `undefined` to switch the problem back to normal stdin/stdout tests.
+     */
+    public setInteractive(problemData: ProblemData, interactive: InteractiveConfig | undefined): ProblemSettings {
+        const settings = { ...this.load(problemData), interactive };
+        this.writeJson(problemData, settings);
+        return settings;
+    }
+}
@@ -0,0 +1,172 @@
+import { ContestIdentifier, ContestKind, ProblemIdentifier } from './Interfaces';
+
+/**
+ * Turns the ways people refer to Codeforces problems and contests into typed
+ * identifiers: problemset, contest, gym and group URLs on the main site or a
+ * mirror (with or without scheme, query string or fragment), and bare IDs
+ * such as `1850G`, `1850 G`, `1850/G` or `CF1850G`.
+ */
+export class ProblemUrlParser {
+    public static readonly defaultHost = 'codeforces.com';
+
+    /** Gym contests are numbered from 100001, so bare IDs above this are gym problems. */
+    private static readonly firstGymId = 100000;
+
+    private static readonly hostPattern = /^(?:[\w-]+\.)*(?:codeforces\.(?:com|ru|ml|net)|codeforc\.es)$/i;
+    private static readonly indexPattern = /^[A-Za-z]\d{0,2}$/;
+    private static readonly bareProblemPattern = /^(?:cf)?\s*(\d+)\s*[\s/_-]?\s*([A-Za-z]\d{0,2})$/i;
+    private static readonly bareContestPattern = /^(?:cf)?\s*(\d+)$/i;
+
+    public static parse(input: string): ProblemIdentifier {
+        const identifier = ProblemUrlParser.tryParse(input);
+        if (!identifier) {
+            throw new Error(`Not a Codeforces problem URL or ID: "${input.trim()}"`);
+        }
+        return identifier;
+    }
+
+    public static tryParse(input: string): ProblemIdentifier | undefined {
+        const trimmed = input.trim();
+
+        const bare = trimmed.match(ProblemUrlParser.bareProblemPattern);
+        if (bare) {
+            const contestId = parseInt(bare[1], 10);
+            return {
+                kind: ProblemUrlParser.getBareKind(contestId),
+                contestId,
+                index: bare[2].toUpperCase()
+            };
+        }
+
+        const location = ProblemUrlParser.parseLocation(trimmed);
+        if (!location) {
+            return undefined;
+        }
+        const { host, segments } = location;
+
+        // /problemset/problem/<contest>/<index> and /problemset/gymProblem/<contest>/<index>
+        if (segments[0] === 'problemset' && segments.length === 4 &&
+            (segments[1] === 'problem' || segments[1] === 'gymproblem')) {
+            return ProblemUrlParser.createProblem(segments[1] === 'problem' ? 'contest' : 'gym', segments[2], segments[3], host);
+        }
+
+        // /contest/<contest>/problem/<index> and /gym/<contest>/problem/<index>
+        if ((segments[0] === 'contest' || segments[0] === 'gym') && segments.length === 4 && segments[2] === 'problem') {
+            return ProblemUrlParser.createProblem(segments[0], segments[1], segments[3], host);
+        }
+
+        // /group/<group>/contest/<contest>/problem/<index>
+        if (segments[0] === 'group' && segments.length === 6 && segments[2] === 'contest' && segments[4] === 'problem') {
+            const problem = ProblemUrlParser.createProblem('group', segments[3], segments[5], host);
+            return problem && { ...problem, groupId: location.originalSegments[1] };
+        }
+
+        return undefined;
+    }
+
+    public static parseContest(input: string): ContestIdentifier {
+        const identifier = ProblemUrlParser.tryParseContest(input);
+        if (!identifier) {
+            throw new Error(`Not a Codeforces contest URL or ID: "${input.trim()}"`);
+        }
+        return identifier;
+    }
+
+    /**
+     * Accepts contest URLs, bare contest IDs and anything `tryParse`
+     * accepts, in which case the problem's contest is returned.
+     */
+    public static tryParseContest(input: string): ContestIdentifier | undefined {
+        const trimmed = input.trim();
+
+        const bare = trimmed.match(ProblemUrlParser.bareContestPattern);
+        if (bare) {
+            const contestId = parseInt(bare[1], 10);
+            return { kind: ProblemUrlParser.getBareKind(contestId), contestId };
+        }
+
+        const problem = ProblemUrlParser.tryParse(trimmed);
+        if (problem) {
+            const { index, ...contest } = problem;
+            return contest;
+        }
+
+        const location = ProblemUrlParser.parseLocation(trimmed);
+        if (!location) {
+            return undefined;
+        }
+        const { host, segments } = location;
+
+        if ((segments[0] === 'contest' || segments[0] === 'gym') && /^\d+$/.test(segments[1] ?? '')) {
+            return { kind: segments[0], contestId: parseInt(segments[1], 10), host };
+        }
+
+        if (segments[0] === 'group' && segments[2] === 'contest' && /^\d+$/.test(segments[3] ?? '')) {
+            return { kind: 'group', contestId: parseInt(segments[3], 10), groupId: location.originalSegments[1], host };
+        }
+
+        return undefined;
+    }
+
+    public static toContestUrl(contest: ContestIdentifier): string {
+        const base = `https://${contest.host ?? ProblemUrlParser.defaultHost}`;
+        switch (contest.kind) {
+            case 'gym':
+                return `${base}/gym/${contest.contestId}`;
+            case 'group':
+                return `${base}/group/${contest.groupId}/contest/${contest.contestId}`;
+            default:
+                return `${base}/contest/${contest.contestId}`;
+        }
+    }
+
+    public static toUrl(problem: ProblemIdentifier): string {
+        return `${ProblemUrlParser.toContestUrl(problem)}/problem/${problem.index}`;
+    }
+
+    private static getBareKind(contestId: number): ContestKind {
+        return contestId > ProblemUrlParser.firstGymId ? 'gym' : 'contest';
+    }
+
+    private static createProblem(
+        kind: ContestKind,
+        contestId: string,
+        index: string,
+        host: string
+    ): ProblemIdentifier | undefined {
+        if (!/^\d+$/.test(contestId) || !ProblemUrlParser.indexPattern.test(index)) {
+            return undefined;
+        }
+        return { kind, contestId: parseInt(contestId, 10), index: index.toUpperCase(), host };
+    }
+
+    /**
+     * The host and lower-cased path segments of a Codeforces URL, or
+     * undefined when the input isn't one or has a malformed escape. The
+     * scheme is optional.
+     */
+    private static parseLocation(input: string): { host: string; segments: string[]; originalSegments: string[] } | undefined {
+        let url: URL;
+        try {
+            url = new URL(/^[a-z]+:\/\//i.test(input) ? input : `https://${input}`);
+        } catch (error) {
+            return undefined;
+        }
+
+        if (!ProblemUrlParser.hostPattern.test(url.hostname)) {
+            return undefined;
+        }
+
+        let originalSegments: string[];
+        try {
+            originalSegments = url.pathname.split('/').filter(segment => segment !== '').map(segment => decodeURIComponent(segment));
+        } catch (error) {
+            return undefined;
+        }
+        return {
+            host: url.hostname.toLowerCase(),
+            segments: originalSegments.map(segment => segment.toLowerCase()),
+            originalSegments
+        };
+    }
+}
@@ -1,25 +1,89 @@
 import * as vscode from 'vscode';
 
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 
-import { ProblemData } from './Interfaces';
+import { CheckerConfig, InteractiveConfig, ProblemData, SourceTemplate, TestCase, TestResult, UserProgress } from './Interfaces';
 import { TestCaseHandler } from './TestCaseHandler';
+import { CustomTestStore } from './CustomTestStore';
+import { StressTester } from './StressTester';
+import { ProblemSettingsStore } from './ProblemSettingsStore';
+import { OutputDiff } from './OutputDiff';
 import { ProblemScraper } from './ProblemScraper';
 import { TemplateGenerator } from './TemplateGenerator';
+import { TemplateVerifier } from './TemplateVerifier';
+import { LlmConfiguration } from './LlmConfiguration';
+import { StreamingEditor } from './StreamingEditor';
+import { CompilerProfiles } from './CompilerProfiles';
+import { ProblemCache } from './ProblemCache';
+import { HintCache } from './HintCache';
+import { ProblemUrlParser } from './ProblemUrlParser';
+import { UserProgressStore } from './UserProgressStore';
+import { ProblemsetStore } from './ProblemsetStore';
 
 export class ProblemWebviewProvider {
     private static readonly viewType = 'problemViewer';
     private panel: vscode.WebviewPanel | undefined;
     private currentProblemData: ProblemData | undefined;
+    /** Latest result of each test of the current problem, by test number */
+    private lastTestResults = new Map<number, TestResult>();
+    private readonly problemsChanged = new vscode.EventEmitter<void>();
+
+    /** Fires when a problem is cached or removed, its test status changes or progress is synced */
+    readonly onDidChangeProblems = this.problemsChanged.event;
+
+    customTestStore = new CustomTestStore();
+    problemSettingsStore = new ProblemSettingsStore();
+    testCaseHandler = new TestCaseHandler(this.customTestStore, this.problemSettingsStore);
+    stressTester = new StressTester(this.testCaseHandler, this.customTestStore, this.problemSettingsStore);
+    templateVerifier = new TemplateVerifier(this.testCaseHandler);
+    problemScraper: ProblemScraper;
+    compilerProfiles = new CompilerProfiles();
+    templateGenerator: TemplateGenerator;
+    problemCache: ProblemCache;
+    hintCache: HintCache;
+    userProgress: UserProgressStore;
+    problemsetStore: ProblemsetStore;
+    llmConfiguration: LlmConfiguration;
+
+    constructor(private readonly extensionUri: vscode.Uri, storageUri: vscode.Uri, secrets: vscode.SecretStorage) {
+        this.llmConfiguration = new LlmConfiguration(secrets);
+        this.templateGenerator = new TemplateGenerator(path.join(storageUri.fsPath, 'templates'));
+        this.problemCache = new ProblemCache(path.join(storageUri.fsPath, 'problems'));
+        this.hintCache = new HintCache(path.join(storageUri.fsPath, 'hints'));
+        this.userProgress = new UserProgressStore(path.join(storageUri.fsPath, 'progress.json'));
+        this.problemsetStore = new ProblemsetStore(path.join(storageUri.fsPath, 'problemset'));
+        this.problemScraper = new ProblemScraper(this.problemsetStore);
+    }
+
+    /**
+     * Opens the viewer for a problem. Problems are served from the on-disk
+     * cache unless `refresh` is set; without a URL a sample problem is shown.
+     */
+    public async showProblem(problemUrl?: string, refresh: boolean = false) {
+        let problemData: ProblemData;
+        if (problemUrl) {
+            problemData = await this.loadProblem(problemUrl, refresh);
+        } else {
+            problemData = this.problemScraper.getDummyProblemData();
+        }
 
-    testCaseHandler = new TestCaseHandler();
-    problemScraper = new ProblemScraper();
-    templateGenerator = new TemplateGenerator();
+        this.showProblemData(problemData);
+    }
 
-    constructor(private readonly extensionUri: vscode.Uri) { }
+    /**
+     * Opens the viewer for problem data that was obtained elsewhere, e.g.
+     * from Competitive Companion.
+     */
+    public showProblemData(problemData: ProblemData): void {
+        const panel = this.revealPanel();
+        this.currentProblemData = problemData;
+        this.lastTestResults.clear();
+        panel.webview.html = this.getWebviewContent(problemData, panel.webview);
+    }
 
-    public async showProblem(problemUrl?: string) {
+    private revealPanel(): vscode.WebviewPanel {
         if (this.panel) {
             this.panel.reveal(vscode.ViewColumn.Two);
         } else {
@@ -34,7 +98,19 @@ export class ProblemWebviewProvider {
                 }
             );
 
+            const configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('smartCodeforcesHelper.compilerProfile') ||
+                    event.affectsConfiguration('smartCodeforcesHelper.compilerProfiles')) {
+                    this.panel?.webview.postMessage({
+                        command: 'compilerProfileUpdated',
+                        profiles: Object.keys(this.compilerProfiles.getProfiles()),
+                        activeProfile: this.compilerProfiles.getActiveProfileName()
+                    });
+                }
+            });
+
             this.panel.onDidDispose(() => {
+                configurationListener.dispose();
                 this.panel = undefined;
             }, null);
 
@@ -42,31 +118,185 @@ export class ProblemWebviewProvider {
                 message => {
                     switch (message.command) {
                         case 'runTests':
-                            this.testCaseHandler.handleRunTests(this.currentProblemData);
+                            this.runTests(message.testNumbers);
                             break;
                         case 'generateScript':
                             this.handleGenerateScript();
                             break;
+                        case 'stressTest':
+                            this.runStressTest();
+                            break;
+                        case 'setChecker':
+                            this.handleSetChecker(message.checker);
+                            break;
+                        case 'browseChecker':
+                            this.handleBrowseChecker();
+                            break;
+                        case 'setInteractive':
+                            this.handleSetInteractive(message.interactive);
+                            break;
+                        case 'browseInteractive':
+                            this.handleBrowseInteractive(message.mode);
+                            break;
+                        case 'setCompilerProfile':
+                            this.handleSetCompilerProfile(message.profile);
+                            break;
+                        case 'getHints':
+                            this.handleGetHints();
+                            break;
+                        case 'explainFailure':
+                            this.handleExplainFailure(message.testNumber);
+                            break;
                         case 'copyTestCase':
                             this.testCaseHandler.handleCopyTestCase(message.testCase);
                             break;
+                        case 'addCustomTest':
+                        case 'updateCustomTest':
+                        case 'duplicateCustomTest':
+                        case 'deleteCustomTest':
+                            this.handleCustomTestMessage(message);
+                            break;
                     }
                 }
             );
         }
 
+        return this.panel;
+    }
+
+    /**
+     * Fetches the current problem again, or asks for a URL when none is open.
+     */
+    public async refreshProblem(): Promise<void> {
+        const problemUrl = this.currentProblemData?.url ?? await vscode.window.showInputBox({
+            placeHolder: 'Enter a problem URL or ID, e.g. 1850G',
+            prompt: 'Codeforces problem to fetch again'
+        });
+        if (!problemUrl) {
+            return;
+        }
+        await this.showProblem(problemUrl, true);
+    }
+
+    public clearProblemCache(): number {
+        const removed = this.problemCache.clear();
+        this.problemsChanged.fire();
+        return removed;
+    }
+
+    /**
+     * Reads which problems the handle solved or attempted on Codeforces and
+     * updates every view that marks them.
+     */
+    public async syncProgress(handle: string): Promise<UserProgress> {
+        const progress = await this.userProgress.sync(handle);
+        this.problemsChanged.fire();
+        this.panel?.webview.postMessage({
+            command: 'solveStateUpdated',
+            state: this.userProgress.getState(this.currentProblemData?.contestId, this.currentProblemData?.index) ?? null
+        });
+        return progress;
+    }
+
+    public removeProblem(problemData: ProblemData): void {
+        this.problemCache.remove(problemData);
+        this.problemsChanged.fire();
+    }
+
+    /**
+     * Caches a problem received from elsewhere (e.g. Competitive Companion)
+     * so the problem explorer lists it.
+     */
+    public cacheProblem(problemData: ProblemData): void {
+        try {
+            this.problemCache.set(problemData);
+            this.problemsChanged.fire();
+        } catch (error) {
+            console.warn('Failed to cache problem:', error);
+        }
+    }
+
+    /**
+     * Returns the problem from the cache, fetching and caching it when it is
+     * missing or `refresh` is set.
+     */
+    public async loadProblem(problemUrl: string, refresh: boolean): Promise<ProblemData> {
+        const { contestId, index } = ProblemUrlParser.parse(problemUrl);
+        const cached = this.problemCache.get(contestId, index);
+        if (cached && !refresh) {
+            return cached.problem;
+        }
+
         let problemData: ProblemData;
-        if (problemUrl) {
+        try {
             problemData = await this.problemScraper.extractProblemData(problemUrl);
-        } else {
-            problemData = this.problemScraper.getDummyProblemData();
+        } catch (error) {
+            if (!cached) {
+                throw error;
+            }
+            const fetchedAt = new Date(cached.fetchedAt).toLocaleString();
+            vscode.window.showWarningMessage(`Could not refresh the problem, showing the copy fetched at ${fetchedAt}.`);
+            return cached.problem;
         }
 
-        this.currentProblemData = problemData;
-        this.panel.webview.html = this.getWebviewContent(problemData);
+        try {
+            this.problemCache.set(problemData);
+            this.problemsChanged.fire();
+        } catch (error) {
+            console.warn('Failed to cache problem:', error);
+        }
+        return problemData;
     }
 
-    private async createAndOpenFile(fileName: string, content: string, language: string = 'cpp'): Promise<void> {
+    public async runTests(testNumbers?: number[]): Promise<void> {
+        this.panel?.webview.postMessage({ command: 'testsRunning', testNumbers: testNumbers ?? null });
+
+        const results = await this.testCaseHandler.handleRunTests(this.currentProblemData, testNumbers);
+        if (!testNumbers) {
+            this.lastTestResults.clear();
+        }
+        results?.forEach(result => this.lastTestResults.set(result.testNumber, result));
+        if (results && results.length > 0) {
+            this.updateProblemStatus();
+        }
+
+        this.panel?.webview.postMessage({
+            command: 'testResults',
+            results: (results ?? []).map(result => ({
+                ...result,
+                diff: OutputDiff.compute(result.expectedOutput, result.actualOutput)
+            }))
+        });
+    }
+
+    /**
+     * Marks the problem as passing once every sample passed and as failing
+     * as soon as one fails.
+     */
+    private updateProblemStatus(): void {
+        const problemData = this.currentProblemData;
+        const source = this.testCaseHandler.lastSource;
+        if (!problemData || !source) {
+            return;
+        }
+
+        const samples = [...this.lastTestResults.values()].filter(result => result.kind === 'sample');
+        const status = samples.some(result => !result.passed)
+            ? 'failing'
+            : samples.length === problemData.sampleTests.length ? 'passing' : undefined;
+        if (status && this.problemCache.setStatus(problemData, status, source.path)) {
+            this.problemsChanged.fire();
+        }
+    }
+
+    public async runStressTest(): Promise<void> {
+        const tests = await this.stressTester.handleStressTest(this.currentProblemData);
+        if (tests) {
+            this.panel?.webview.postMessage({ command: 'customTestsUpdated', tests });
+        }
+    }
+
+    private async createAndOpenFile(fileName: string, content: string, language: string = 'cpp', cursorOffset?: number): Promise<void> {
         try {
             const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
             if (!workspaceFolder) {
@@ -89,10 +319,15 @@ export class ProblemWebviewProvider {
             fs.writeFileSync(filePath, content, 'utf-8');
 
             const document = await vscode.workspace.openTextDocument(filePath);
-            await vscode.window.showTextDocument(document, {
+            const editor = await vscode.window.showTextDocument(document, {
                 viewColumn: vscode.ViewColumn.One,
                 preview: false
             });
+            if (cursorOffset !== undefined) {
+                const position = document.positionAt(cursorOffset);
+                editor.selection = new vscode.Selection(position, position);
+                editor.revealRange(new vscode.Range(position, position));
+            }
 
             if (this.panel) {
                 this.panel.reveal(vscode.ViewColumn.Beside, false);
@@ -104,6 +339,247 @@ export class ProblemWebviewProvider {
         }
     }
 
+    private handleCustomTestMessage(message: { command: string; index?: number; testCase?: TestCase }): void {
+        if (!this.currentProblemData) {
+            vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
+            return;
+        }
+
+        try {
+            const problemData = this.currentProblemData;
+            const index = message.index ?? -1;
+            let tests: TestCase[];
+
+            switch (message.command) {
+                case 'addCustomTest':
+                    tests = this.customTestStore.add(problemData);
+                    break;
+                case 'updateCustomTest':
+                    tests = this.customTestStore.update(problemData, index, message.testCase ?? { input: '', output: '' });
+                    break;
+                case 'duplicateCustomTest':
+                    tests = this.customTestStore.duplicate(problemData, index);
+                    break;
+                case 'deleteCustomTest':
+                    tests = this.customTestStore.remove(problemData, index);
+                    break;
+                default:
+                    return;
+            }
+
+            this.panel?.webview.postMessage({ command: 'customTestsUpdated', tests });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to update custom tests: ${errorMessage}`);
+        }
+    }
+
+    private handleSetChecker(checker: CheckerConfig): void {
+        if (!this.currentProblemData) {
+            vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
+            return;
+        }
+
+        try {
+            this.problemSettingsStore.setChecker(this.currentProblemData, checker);
+            this.panel?.webview.postMessage({ command: 'checkerUpdated', checker });
+            vscode.window.showInformationMessage(`✅ Checker set to "${checker.type}"`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to save checker: ${errorMessage}`);
+        }
+    }
+
+    private async handleBrowseChecker(): Promise<void> {
+        if (!this.currentProblemData) {
+            vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
+            return;
+        }
+
+        const selected = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Use as checker',
+            title: 'Select a testlib-style checker executable'
+        });
+        if (!selected?.[0]) {
+            return;
+        }
+
+        const checker = this.problemSettingsStore.getChecker(this.currentProblemData);
+        this.handleSetChecker({ ...checker, type: 'testlib', checkerPath: selected[0].fsPath });
+    }
+
+    private handleSetInteractive(interactive: InteractiveConfig | undefined): void {
+        if (!this.currentProblemData) {
+            vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
+            return;
+        }
+
+        try {
+            this.problemSettingsStore.setInteractive(this.currentProblemData, interactive);
+            this.panel?.webview.postMessage({ command: 'interactiveUpdated', interactive: interactive ?? null });
+            vscode.window.showInformationMessage(interactive
+                ? `✅ Interactive mode enabled (${interactive.mode})`
+                : '✅ Interactive mode disabled');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to save interactive mode: ${errorMessage}`);
+        }
+    }
+
+    private async handleBrowseInteractive(mode: InteractiveConfig['mode']): Promise<void> {
+        if (!this.currentProblemData) {
+            vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
+            return;
+        }
+
+        const selected = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: mode === 'script' ? 'Use as script' : 'Use as interactor',
+            title: mode === 'script'
+                ? 'Select a scripted-responses file'
+                : 'Select an interactor executable or source file'
+        });
+        if (!selected?.[0]) {
+            return;
+        }
+
+        const current = this.problemSettingsStore.getInteractive(this.currentProblemData);
+        this.handleSetInteractive(mode === 'script'
+            ? { ...current, mode, scriptPath: selected[0].fsPath }
+            : { ...current, mode, interactorPath: selected[0].fsPath });
+    }
+
+    /**
+     * Sends the problem's hints to the viewer, asking the LLM for them
+     * unless they are cached. The viewer reveals them one at a time.
+     */
+    private async handleGetHints(): Promise<void> {
+        const problemData = this.currentProblemData;
+        if (!problemData) {
+            return;
+        }
+
+        const cached = this.hintCache.get(problemData);
+        if (cached) {
+            this.panel?.webview.postMessage({ command: 'hintsUpdated', hints: cached.hints });
+            return;
+        }
+        if (!await this.llmConfiguration.isAvailable()) {
+            this.panel?.webview.postMessage({ command: 'hintsUpdated', hints: null });
+            await this.llmConfiguration.promptForApiKey();
+            return;
+        }
+
+        try {
+            const hints = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Generating hints',
+                cancellable: true
+            }, async (progress, token) => {
+                const hintGenerator = await this.llmConfiguration.createHintGenerator();
+                const controller = new AbortController();
+                const cancellation = token.onCancellationRequested(() => controller.abort());
+                try {
+                    progress.report({ message: `Calling ${hintGenerator.providerName}...` });
+                    return await hintGenerator.generateHints(problemData, controller.signal);
+                } finally {
+                    cancellation.dispose();
+                }
+            });
+
+            this.hintCache.set(problemData, hints);
+            if (this.currentProblemData === problemData) {
+                this.panel?.webview.postMessage({ command: 'hintsUpdated', hints });
+            }
+        } catch (error) {
+            if (this.currentProblemData === problemData) {
+                this.panel?.webview.postMessage({ command: 'hintsUpdated', hints: null });
+            }
+            if (error instanceof Error && error.message === 'Cancelled by user') {
+                return;
+            }
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    /**
+     * Asks the LLM why a test failed and streams the analysis into the
+     * viewer, below the test's result. Only runs when the user asks for it.
+     */
+    private async handleExplainFailure(testNumber: number): Promise<void> {
+        const problemData = this.currentProblemData;
+        const result = this.lastTestResults.get(testNumber);
+        const source = this.testCaseHandler.lastSource;
+        if (!problemData || !result || !source) {
+            vscode.window.showErrorMessage('Run the tests again before asking for an explanation.');
+            return;
+        }
+        if (!await this.llmConfiguration.isAvailable()) {
+            await this.llmConfiguration.promptForApiKey();
+            return;
+        }
+
+        const openDocument = vscode.workspace.textDocuments.find(document => document.fileName === source.path);
+        let sourceCode: string;
+        try {
+            sourceCode = openDocument ? openDocument.getText() : fs.readFileSync(source.path, 'utf-8');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to read ${path.basename(source.path)}: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        const postIfCurrent = (message: unknown) => {
+            if (this.currentProblemData === problemData) {
+                this.panel?.webview.postMessage(message);
+            }
+        };
+
+        postIfCurrent({ command: 'explanationStarted', testNumber });
+        try {
+            const explanation = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Explaining the failure of test ${testNumber}`,
+                cancellable: true
+            }, async (progress, token) => {
+                const explainer = await this.llmConfiguration.createFailureExplainer();
+                const controller = new AbortController();
+                const cancellation = token.onCancellationRequested(() => controller.abort());
+                try {
+                    progress.report({ message: `Calling ${explainer.providerName}...` });
+                    return await explainer.explainFailure(problemData, {
+                        source: sourceCode,
+                        language: source.language.extensions[0].replace(/^\./, ''),
+                        verdict: result.verdict,
+                        input: result.input,
+                        expectedOutput: result.expectedOutput,
+                        actualOutput: result.actualOutput,
+                        error: result.error,
+                        stderr: result.stderr
+                    }, text => postIfCurrent({ command: 'explanationText', testNumber, text }), controller.signal);
+                } finally {
+                    cancellation.dispose();
+                }
+            });
+            postIfCurrent({ command: 'explanationFinished', testNumber, text: explanation });
+        } catch (error) {
+            postIfCurrent({ command: 'explanationFinished', testNumber, text: null });
+            if (error instanceof Error && error.message === 'Cancelled by user') {
+                return;
+            }
+            vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private async handleSetCompilerProfile(profile: string): Promise<void> {
+        try {
+            await this.compilerProfiles.setActiveProfile(profile);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to switch compiler profile: ${errorMessage}`);
+        }
+    }
+
     private processMathExpressions(text: string): string {
         text = text.replace(/\$\$\$([^$]+)\$\$\$/g, (match, mathContent) => {
             const cleanMath = mathContent.trim();
@@ -118,14 +594,46 @@ export class ProblemWebviewProvider {
         return text;
     }
 
+    /**
+     * JSON for a value embedded in the inline script. Escaping `<` keeps
+     * test data, settings and model output from closing the script tag.
+     */
+    private toScriptJson(value: unknown): string {
+        return JSON.stringify(value).replace(/</g, '\\u003c');
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    /**
+     * The statement sections are Codeforces HTML, but the title, source,
+     * limits and samples can come from Competitive Companion and are always
+     * shown as text. The content security policy only runs scripts carrying
+     * this page's nonce, so buttons name their handler in `data-action`
+     * instead of using inline event handlers.
+     */
+    private getWebviewContent(problem: ProblemData, webview: vscode.Webview): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        const customTests = this.customTestStore.load(problem);
+        const checker = this.problemSettingsStore.getChecker(problem);
+        const interactive = this.problemSettingsStore.getInteractive(problem) ?? null;
+        const compilerProfiles = Object.keys(this.compilerProfiles.getProfiles());
+        const activeProfile = this.compilerProfiles.getActiveProfileName();
+        const hints = this.hintCache.get(problem)?.hints ?? null;
+        const solveState = this.userProgress.getState(problem.contestId, problem.index) ?? null;
 
-    private getWebviewContent(problem: ProblemData): string {
         return `
         <!DOCTYPE html>
         <html lang="en">
         <head>
             <meta charset="UTF-8">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource} https://cdnjs.cloudflare.com data:; script-src 'nonce-${nonce}';">
             <title>Problem Viewer</title>
             <style>
                 :root {
@@ -199,6 +707,26 @@ export class ProblemWebviewProvider {
                     font-weight: 600;
                 }
 
+                .solve-badge {
+                    color: white;
+                    padding: 4px 10px;
+                    border-radius: 20px;
+                    font-size: 0.8em;
+                    font-weight: 600;
+                }
+
+                .solve-badge:empty {
+                    display: none;
+                }
+
+                .solve-badge.solved {
+                    background: var(--success);
+                }
+
+                .solve-badge.attempted {
+                    background: var(--error);
+                }
+
                 .section {
                     background: var(--bg-secondary);
                     border-radius: 12px;
@@ -295,6 +823,221 @@ export class ProblemWebviewProvider {
                     word-break: break-all;
                 }
 
+                .test-result:empty {
+                    display: none;
+                }
+
+                .test-result {
+                    margin-top: 12px;
+                    padding-top: 12px;
+                    border-top: 1px dashed var(--border);
+                }
+
+                .result-header {
+                    display: flex;
+                    align-items: center;
+                    gap: 10px;
+                    flex-wrap: wrap;
+                    margin-bottom: 8px;
+                    font-size: 0.85em;
+                    color: var(--text-secondary);
+                }
+
+                .result-header .copy-btn {
+                    margin-left: auto;
+                }
+
+                .verdict-badge {
+                    padding: 2px 10px;
+                    border-radius: 20px;
+                    font-weight: 600;
+                    color: white;
+                    background: var(--error);
+                }
+
+                .verdict-badge.AC {
+                    background: var(--success);
+                }
+
+                .verdict-badge.TLE,
+                .verdict-badge.MLE,
+                .verdict-badge.ILE {
+                    background: var(--accent-orange);
+                }
+
+                .verdict-badge.running {
+                    background: var(--accent-blue);
+                }
+
+                .result-error {
+                    font-size: 0.85em;
+                    color: var(--error);
+                    margin-bottom: 8px;
+                    white-space: pre-wrap;
+                }
+
+                .diff-table {
+                    width: 100%;
+                    border-collapse: collapse;
+                    font-family: 'Consolas', 'Monaco', monospace;
+                    font-size: 0.85em;
+                }
+
+                .diff-table th {
+                    text-align: left;
+                    color: var(--text-secondary);
+                    font-weight: normal;
+                    padding: 2px 6px;
+                }
+
+                .diff-table td {
+                    padding: 2px 6px;
+                    white-space: pre-wrap;
+                    word-break: break-all;
+                    vertical-align: top;
+                }
+
+                .diff-table td.line-number {
+                    color: var(--text-secondary);
+                    width: 1%;
+                    text-align: right;
+                }
+
+                .diff-table tr.mismatch td {
+                    background: rgba(244, 67, 54, 0.12);
+                }
+
+                .diff-table tr.first-mismatch td {
+                    background: rgba(244, 67, 54, 0.3);
+                    font-weight: 600;
+                }
+
+                .result-pre {
+                    margin-top: 8px;
+                    background: var(--bg-primary);
+                    border: 1px solid var(--border);
+                    border-radius: 6px;
+                    padding: 8px;
+                    font-family: 'Consolas', 'Monaco', monospace;
+                    font-size: 0.85em;
+                    white-space: pre-wrap;
+                    word-break: break-all;
+                    max-height: 200px;
+                    overflow: auto;
+                }
+
+                .results-summary {
+                    display: none;
+                    align-items: center;
+                    gap: 12px;
+                    margin-bottom: 12px;
+                }
+
+                .test-case.custom {
+                    border-left-color: var(--accent-orange);
+                }
+
+                .test-case.custom .test-case-title {
+                    color: var(--accent-orange);
+                }
+
+                .test-case-buttons {
+                    display: flex;
+                    gap: 6px;
+                }
+
+                .copy-btn.danger {
+                    background: var(--error);
+                }
+
+                .io-editor {
+                    width: 100%;
+                    min-height: 80px;
+                    resize: vertical;
+                    background: transparent;
+                    color: var(--text-primary);
+                    border: none;
+                    outline: none;
+                    font-family: 'Consolas', 'Monaco', monospace;
+                    font-size: 0.9em;
+                }
+
+                .empty-hint {
+                    color: var(--text-secondary);
+                    font-size: 0.9em;
+                }
+
+                .hints {
+                    display: grid;
+                    gap: 12px;
+                }
+
+                .hint {
+                    background: var(--bg-tertiary);
+                    border-radius: 8px;
+                    padding: 12px 16px;
+                    border-left: 4px solid var(--accent-orange);
+                }
+
+                .hint.locked {
+                    opacity: 0.6;
+                }
+
+                .hint-title {
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                    font-weight: 600;
+                }
+
+                .hint-text {
+                    margin-top: 8px;
+                    line-height: 1.6;
+                }
+
+                .failure-analysis {
+                    margin-top: 12px;
+                    padding: 10px 12px;
+                    background: rgba(255, 152, 0, 0.08);
+                    border-radius: 6px;
+                    border-left: 3px solid var(--accent-orange);
+                    font-size: 0.9em;
+                    line-height: 1.6;
+                }
+
+                .failure-analysis code {
+                    font-family: 'Consolas', 'Monaco', monospace;
+                    background: var(--bg-primary);
+                    padding: 1px 4px;
+                    border-radius: 4px;
+                }
+
+                .checker-form {
+                    display: flex;
+                    gap: 10px;
+                    flex-wrap: wrap;
+                    align-items: center;
+                }
+
+                .checker-form select,
+                .checker-form input {
+                    background: var(--bg-primary);
+                    color: var(--text-primary);
+                    border: 1px solid var(--border);
+                    border-radius: 6px;
+                    padding: 4px 8px;
+                    font-size: 0.9em;
+                }
+
+                .checker-form input.checker-path {
+                    flex: 1;
+                    min-width: 200px;
+                }
+
+                .section-title .copy-btn {
+                    margin-left: auto;
+                }
+
                 .explanation {
                     margin-top: 12px;
                     padding: 10px;
@@ -335,6 +1078,15 @@ export class ProblemWebviewProvider {
                     justify-content: center;
                 }
 
+                .profile-select {
+                    background: var(--bg-primary);
+                    color: var(--text-primary);
+                    border: 1px solid var(--border);
+                    border-radius: 8px;
+                    padding: 0 12px;
+                    font-size: 0.9em;
+                }
+
                 .action-btn.secondary {
                     background: linear-gradient(135deg, var(--accent-blue), #005a9e);
                 }
@@ -417,8 +1169,8 @@ export class ProblemWebviewProvider {
                 }
             </style>
 
-            <script src="https://cdnjs.cloudflare.com/ajax/libs/mathjax/3.2.2/es5/tex-mml-chtml.min.js"></script>
-            <script>
+            <script nonce="${nonce}" src="https://cdnjs.cloudflare.com/ajax/libs/mathjax/3.2.2/es5/tex-mml-chtml.min.js"></script>
+            <script nonce="${nonce}">
                 window.MathJax = {
                     tex: {
                         inlineMath: [['\\(', '\\)']],
@@ -435,21 +1187,22 @@ export class ProblemWebviewProvider {
         <body>
             <div class="container">
                 <header class="header">
-                    <h1>${problem.title}</h1>
+                    <h1>${this.escapeHtml(problem.title)}</h1>
                     <div class="header-meta">
                         <div class="meta-item">
                             <span class="icon">⏱️</span>
-                            <span>Time: ${problem.timeLimit}</span>
+                            <span>Time: ${this.escapeHtml(problem.timeLimit)}</span>
                         </div>
                         <div class="meta-item">
                             <span class="icon">💾</span>
-                            <span>Memory: ${problem.memoryLimit}</span>
+                            <span>Memory: ${this.escapeHtml(problem.memoryLimit)}</span>
                         </div>
                         <div class="meta-item">
                             <span class="icon">📚</span>
-                            <span>${problem.source}</span>
+                            <span>${this.escapeHtml(problem.source)}</span>
                         </div>
-                        ${problem.difficulty ? `<span class="difficulty-badge">${problem.difficulty}</span>` : ''}
+                        ${problem.difficulty ? `<span class="difficulty-badge">${this.escapeHtml(problem.difficulty)}</span>` : ''}
+                        <span id="solve-state" class="solve-badge" title="Your result on Codeforces, as of the last progress sync"></span>
                     </div>
                 </header>
 
@@ -488,47 +1241,235 @@ export class ProblemWebviewProvider {
                         <span class="icon">🧪</span>
                         Sample Test Cases
                     </h2>
+                    <div class="results-summary" id="results-summary">
+                        <span id="results-summary-text"></span>
+                        <button class="copy-btn" id="rerun-failed" data-action="rerunFailed">Rerun failed</button>
+                    </div>
                     <div class="test-cases">
                         ${problem.sampleTests.map((testCase, index) => `
                             <div class="test-case">
                                 <div class="test-case-header">
                                     <span class="test-case-title">Test Case ${index + 1}</span>
-                                    <button class="copy-btn" onclick="copyTestCase(${index})">Copy</button>
+                                    <button class="copy-btn" data-action="copyTestCase" data-index="${index}">Copy</button>
                                 </div>
                                 <div class="io-container">
                                     <div class="io-block">
                                         <div class="io-label">Input</div>
-                                        <div class="io-content">${testCase.input}</div>
+                                        <div class="io-content">${this.escapeHtml(testCase.input)}</div>
                                     </div>
                                     <div class="io-block">
                                         <div class="io-label">Output</div>
-                                        <div class="io-content">${testCase.output}</div>
+                                        <div class="io-content">${this.escapeHtml(testCase.output)}</div>
                                     </div>
                                 </div>
-                                ${testCase.explanation ? `<div class="explanation">${testCase.explanation}</div>` : ''}
+                                ${testCase.explanation ? `<div class="explanation">${this.escapeHtml(testCase.explanation)}</div>` : ''}
+                                <div class="test-result" id="result-${index + 1}"></div>
                             </div>
                         `).join('')}
+                        <div id="extra-results"></div>
+                    </div>
+                </section>
+
+                <section class="section">
+                    <h2 class="section-title">
+                        <span class="icon">✏️</span>
+                        Custom Test Cases
+                        <button class="copy-btn" data-action="addCustomTest">+ Add Test</button>
+                    </h2>
+                    <div class="test-cases" id="custom-tests"></div>
+                </section>
+
+                <section class="section">
+                    <h2 class="section-title">
+                        <span class="icon">💡</span>
+                        Hints
+                        <button class="copy-btn" id="get-hints" data-action="getHints">Get Hints</button>
+                    </h2>
+                    <div class="hints" id="hints"></div>
+                </section>
+
+                <section class="section">
+                    <h2 class="section-title">
+                        <span class="icon">⚖️</span>
+                        Output Checker
+                    </h2>
+                    <div class="checker-form">
+                        <select id="checker-type">
+                            <option value="exact">Exact (ignore trailing spaces)</option>
+                            <option value="tokens">Token-wise</option>
+                            <option value="caseInsensitive">Case-insensitive tokens</option>
+                            <option value="epsilon">Absolute/relative epsilon</option>
+                            <option value="unordered">Unordered lines</option>
+                            <option value="testlib">Custom testlib checker</option>
+                        </select>
+                        <input id="checker-epsilon" type="text" placeholder="1e-6" title="Epsilon">
+                        <input id="checker-path" class="checker-path" type="text" placeholder="Path to checker executable">
+                        <button class="copy-btn" id="checker-browse" data-action="browseChecker">Browse...</button>
+                        <button class="copy-btn" data-action="saveChecker">Save</button>
+                    </div>
+                </section>
+
+                <section class="section">
+                    <h2 class="section-title">
+                        <span class="icon">🔌</span>
+                        Interactive Mode
+                    </h2>
+                    <div class="checker-form">
+                        <select id="interactive-mode">
+                            <option value="off">Off (stdin/stdout tests)</option>
+                            <option value="interactor">Local interactor</option>
+                            <option value="script">Scripted responses</option>
+                        </select>
+                        <input id="interactive-path" class="checker-path" type="text" placeholder="Path to interactor or script">
+                        <input id="interactive-idle" type="text" placeholder="3000" title="Idleness limit (ms)">
+                        <button class="copy-btn" id="interactive-browse" data-action="browseInteractive">Browse...</button>
+                        <button class="copy-btn" data-action="saveInteractive">Save</button>
                     </div>
                 </section>
 
                 <div class="actions">
-                    <button class="action-btn" onclick="runTests()">
+                    <select id="compiler-profile" class="profile-select" title="C++ compiler profile"></select>
+                    <button class="action-btn" data-action="runTests">
                         <span class="icon">▶️</span>
                         Run Tests
                     </button>
-                    <button class="action-btn secondary" onclick="generateScript()">
+                    <button class="action-btn" data-action="stressTest">
+                        <span class="icon">🔁</span>
+                        Stress Test
+                    </button>
+                    <button class="action-btn secondary" data-action="generateScript">
                         <span class="icon">📝</span>
                         Generate Script
                     </button>
                 </div>
             </div>
 
-            <script>
+            <script nonce="${nonce}">
                 const vscode = acquireVsCodeApi();
 
-                function runTests() {
+                const sampleCount = ${problem.sampleTests.length};
+                let lastResults = {};
+
+                function runTests(testNumbers) {
+                    vscode.postMessage({
+                        command: 'runTests',
+                        testNumbers
+                    });
+                }
+
+                function rerunFailed() {
+                    const failed = Object.values(lastResults)
+                        .filter(result => result && !result.passed)
+                        .map(result => result.testNumber);
+                    if (failed.length > 0) {
+                        runTests(failed);
+                    }
+                }
+
+                function renderDiff(diff) {
+                    if (!diff || diff.lines.length === 0) {
+                        return '';
+                    }
+                    const rows = diff.lines.map((line, index) => {
+                        const rowClass = line.matches ? '' : (index === diff.firstMismatch ? 'mismatch first-mismatch' : 'mismatch');
+                        return '<tr class="' + rowClass + '">' +
+                            '<td class="line-number">' + line.lineNumber + '</td>' +
+                            '<td>' + (line.expected === null ? '<em>(missing)</em>' : escapeHtml(line.expected)) + '</td>' +
+                            '<td>' + (line.actual === null ? '<em>(missing)</em>' : escapeHtml(line.actual)) + '</td>' +
+                        '</tr>';
+                    }).join('');
+                    return '<table class="diff-table"><tr><th>#</th><th>Expected</th><th>Actual</th></tr>' + rows + '</table>';
+                }
+
+                function renderResult(result) {
+                    if (result === 'running') {
+                        return '<div class="result-header"><span class="verdict-badge running">Running...</span></div>';
+                    }
+
+                    const details = [result.executionTime + ' ms'];
+                    if (result.cpuTime !== undefined && result.cpuTime !== null) {
+                        details.push('CPU ' + result.cpuTime + ' ms');
+                    }
+                    if (result.memoryUsage !== undefined && result.memoryUsage !== null) {
+                        details.push((result.memoryUsage / 1024).toFixed(1) + ' MB');
+                    }
+
+                    const explanation = explanations[result.testNumber];
+                    const canExplain = !result.passed && (result.verdict === 'WA' || result.verdict === 'RE') && !explanation;
+
+                    return '<div class="result-header">' +
+                            '<span class="verdict-badge ' + result.verdict + '">' + result.verdict + '</span>' +
+                            '<span>' + details.join(' · ') + '</span>' +
+                            '<button class="copy-btn" data-action="rerunTest" data-index="' + result.testNumber + '">Rerun this test</button>' +
+                            (canExplain ? '<button class="copy-btn" data-action="explainFailure" data-index="' + result.testNumber + '">Explain failure</button>' : '') +
+                        '</div>' +
+                        (result.error && !result.passed ? '<div class="result-error">' + escapeHtml(result.error) + '</div>' : '') +
+                        (result.passed ? '' : renderDiff(result.diff)) +
+                        (result.stderr ? '<div class="io-label">Stderr</div><div class="result-pre">' + escapeHtml(result.stderr) + '</div>' : '') +
+                        (result.transcript ? '<div class="io-label">Transcript</div><div class="result-pre">' + escapeHtml(result.transcript) + '</div>' : '') +
+                        (explanation
+                            ? '<div class="failure-analysis">' +
+                                (explanation.text ? renderMarkdown(explanation.text) : '<span class="empty-hint">Analyzing the failure...</span>') +
+                            '</div>'
+                            : '');
+                }
+
+                // Failure analyses by test number, filled in while they stream in
+                let explanations = {};
+
+                function explainFailure(testNumber) {
+                    vscode.postMessage({ command: 'explainFailure', testNumber });
+                }
+
+                function renderExplainedResult(testNumber) {
+                    const container = document.getElementById('result-' + testNumber);
+                    const result = lastResults[testNumber];
+                    if (container && result && result !== 'running') {
+                        container.innerHTML = renderResult(result);
+                    }
+                }
+
+                // Just enough markdown for the analysis: code blocks, inline code, bold and headings
+                function renderMarkdown(text) {
+                    return escapeHtml(text).split(/\`\`\`[^\\n]*\\n?/).map((part, index) => index % 2 === 1
+                        ? '<div class="result-pre">' + part.replace(/\\n$/, '') + '</div>'
+                        : part
+                            .replace(/\`([^\`\\n]+)\`/g, '<code>$1</code>')
+                            .replace(/\\*\\*([^*\\n]+)\\*\\*/g, '<strong>$1</strong>')
+                            .replace(/^#{1,6} (.*)$/gm, '<strong>$1</strong>')
+                            .replace(/\\n/g, '<br>')
+                    ).join('');
+                }
+
+                function renderResults() {
+                    const extra = document.getElementById('extra-results');
+                    extra.innerHTML = '';
+
+                    Object.keys(lastResults).forEach(testNumber => {
+                        const result = lastResults[testNumber];
+                        let container = document.getElementById('result-' + testNumber);
+                        if (!container) {
+                            container = document.createElement('div');
+                            container.className = 'test-case custom';
+                            container.innerHTML = '<div class="test-case-title">Test ' + testNumber + '</div>' +
+                                '<div class="test-result" id="result-' + testNumber + '"></div>';
+                            extra.appendChild(container);
+                            container = document.getElementById('result-' + testNumber);
+                        }
+                        container.innerHTML = renderResult(result);
+                    });
+
+                    const finished = Object.values(lastResults).filter(result => result !== 'running');
+                    const failed = finished.filter(result => !result.passed).length;
+                    document.getElementById('results-summary').style.display = finished.length > 0 ? 'flex' : 'none';
+                    document.getElementById('results-summary-text').textContent =
+                        (finished.length - failed) + '/' + finished.length + ' passed';
+                    document.getElementById('rerun-failed').style.display = failed > 0 ? '' : 'none';
+                }
+
+                function stressTest() {
                     vscode.postMessage({
-                        command: 'runTests'
+                        command: 'stressTest'
                     });
                 }
 
@@ -538,14 +1479,358 @@ export class ProblemWebviewProvider {
                     });
                 }
 
+                let customTests = ${this.toScriptJson(customTests)};
+
+                function escapeHtml(text) {
+                    return String(text)
+                        .replace(/&/g, '&amp;')
+                        .replace(/</g, '&lt;')
+                        .replace(/>/g, '&gt;')
+                        .replace(/"/g, '&quot;');
+                }
+
+                function renderCustomTests() {
+                    const container = document.getElementById('custom-tests');
+                    if (customTests.length === 0) {
+                        container.innerHTML = '<div class="empty-hint">No custom tests yet. They run next to the samples.</div>';
+                        renderResults();
+                        return;
+                    }
+
+                    container.innerHTML = customTests.map((testCase, index) =>
+                        '<div class="test-case custom">' +
+                            '<div class="test-case-header">' +
+                                '<span class="test-case-title">Custom Test ' + (index + 1) + '</span>' +
+                                '<div class="test-case-buttons">' +
+                                    '<button class="copy-btn" data-action="saveCustomTest" data-index="' + index + '">Save</button>' +
+                                    '<button class="copy-btn" data-action="duplicateCustomTest" data-index="' + index + '">Duplicate</button>' +
+                                    '<button class="copy-btn danger" data-action="deleteCustomTest" data-index="' + index + '">Delete</button>' +
+                                '</div>' +
+                            '</div>' +
+                            '<div class="io-container">' +
+                                '<div class="io-block">' +
+                                    '<div class="io-label">Input</div>' +
+                                    '<textarea class="io-editor" id="custom-input-' + index + '">' + escapeHtml(testCase.input) + '</textarea>' +
+                                '</div>' +
+                                '<div class="io-block">' +
+                                    '<div class="io-label">Expected Output</div>' +
+                                    '<textarea class="io-editor" id="custom-output-' + index + '">' + escapeHtml(testCase.output) + '</textarea>' +
+                                '</div>' +
+                            '</div>' +
+                            '<div class="test-result" id="result-' + (sampleCount + index + 1) + '"></div>' +
+                        '</div>'
+                    ).join('');
+                    renderResults();
+                }
+
+                function addCustomTest() {
+                    vscode.postMessage({ command: 'addCustomTest' });
+                }
+
+                function saveCustomTest(index) {
+                    vscode.postMessage({
+                        command: 'updateCustomTest',
+                        index,
+                        testCase: {
+                            input: document.getElementById('custom-input-' + index).value,
+                            output: document.getElementById('custom-output-' + index).value
+                        }
+                    });
+                }
+
+                function duplicateCustomTest(index) {
+                    vscode.postMessage({ command: 'duplicateCustomTest', index });
+                }
+
+                function deleteCustomTest(index) {
+                    vscode.postMessage({ command: 'deleteCustomTest', index });
+                }
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.command) {
+                        case 'customTestsUpdated':
+                            // Custom test numbers may have shifted, so their old results no longer apply
+                            Object.keys(lastResults).forEach(testNumber => {
+                                if (Number(testNumber) > sampleCount) {
+                                    delete lastResults[testNumber];
+                                }
+                            });
+                            customTests = message.tests;
+                            renderCustomTests();
+                            break;
+                        case 'testsRunning':
+                            if (message.testNumbers) {
+                                message.testNumbers.forEach(testNumber => {
+                                    lastResults[testNumber] = 'running';
+                                    delete explanations[testNumber];
+                                });
+                            } else {
+                                lastResults = {};
+                                explanations = {};
+                                for (let i = 1; i <= sampleCount + customTests.length; i++) {
+                                    lastResults[i] = 'running';
+                                }
+                            }
+                            renderResults();
+                            break;
+                        case 'testResults':
+                            Object.keys(lastResults).forEach(testNumber => {
+                                if (lastResults[testNumber] === 'running') {
+                                    delete lastResults[testNumber];
+                                }
+                            });
+                            message.results.forEach(result => { lastResults[result.testNumber] = result; });
+                            renderResults();
+                            break;
+                        case 'checkerUpdated':
+                            checker = message.checker;
+                            renderChecker();
+                            break;
+                        case 'interactiveUpdated':
+                            interactive = message.interactive;
+                            renderInteractive();
+                            break;
+                        case 'compilerProfileUpdated':
+                            compilerProfiles = message.profiles;
+                            activeProfile = message.activeProfile;
+                            renderCompilerProfiles();
+                            break;
+                        case 'explanationStarted':
+                            explanations[message.testNumber] = { text: '' };
+                            renderExplainedResult(message.testNumber);
+                            break;
+                        case 'explanationText':
+                            if (explanations[message.testNumber]) {
+                                explanations[message.testNumber].text += message.text;
+                                renderExplainedResult(message.testNumber);
+                            }
+                            break;
+                        case 'explanationFinished':
+                            if (message.text === null) {
+                                delete explanations[message.testNumber];
+                            } else {
+                                explanations[message.testNumber] = { text: message.text };
+                            }
+                            renderExplainedResult(message.testNumber);
+                            break;
+                        case 'hintsUpdated':
+                            hints = message.hints;
+                            hintsLoading = false;
+                            renderHints();
+                            break;
+                        case 'solveStateUpdated':
+                            renderSolveState(message.state);
+                            break;
+                    }
+                });
+
+                function renderSolveState(state) {
+                    const badge = document.getElementById('solve-state');
+                    badge.className = 'solve-badge' + (state ? ' ' + state : '');
+                    badge.textContent = state === 'solved' ? '✓ Solved' : state === 'attempted' ? '✗ Attempted' : '';
+                }
+
+                renderSolveState(${this.toScriptJson(solveState)});
+                renderCustomTests();
+
+                let checker = ${this.toScriptJson(checker)};
+
+                function renderChecker() {
+                    document.getElementById('checker-type').value = checker.type;
+                    document.getElementById('checker-epsilon').value = checker.epsilon !== undefined ? checker.epsilon : '';
+                    document.getElementById('checker-path').value = checker.checkerPath || '';
+                    updateCheckerForm();
+                }
+
+                function updateCheckerForm() {
+                    const type = document.getElementById('checker-type').value;
+                    document.getElementById('checker-epsilon').style.display = type === 'epsilon' ? '' : 'none';
+                    document.getElementById('checker-path').style.display = type === 'testlib' ? '' : 'none';
+                    document.getElementById('checker-browse').style.display = type === 'testlib' ? '' : 'none';
+                }
+
+                function saveChecker() {
+                    const type = document.getElementById('checker-type').value;
+                    const epsilon = parseFloat(document.getElementById('checker-epsilon').value);
+                    const checkerPath = document.getElementById('checker-path').value.trim();
+                    vscode.postMessage({
+                        command: 'setChecker',
+                        checker: {
+                            type,
+                            epsilon: type === 'epsilon' && !isNaN(epsilon) ? epsilon : undefined,
+                            checkerPath: type === 'testlib' && checkerPath ? checkerPath : undefined
+                        }
+                    });
+                }
+
+                function browseChecker() {
+                    vscode.postMessage({ command: 'browseChecker' });
+                }
+
+                renderChecker();
+
+                let interactive = ${this.toScriptJson(interactive)};
+
+                function renderInteractive() {
+                    const mode = interactive ? interactive.mode : 'off';
+                    document.getElementById('interactive-mode').value = mode;
+                    document.getElementById('interactive-path').value = interactive
+                        ? (mode === 'script' ? interactive.scriptPath : interactive.interactorPath) || ''
+                        : '';
+                    document.getElementById('interactive-idle').value = interactive && interactive.idleTimeoutMs !== undefined
+                        ? interactive.idleTimeoutMs
+                        : '';
+                    updateInteractiveForm();
+                }
+
+                function updateInteractiveForm() {
+                    const enabled = document.getElementById('interactive-mode').value !== 'off';
+                    ['interactive-path', 'interactive-idle', 'interactive-browse'].forEach(id => {
+                        document.getElementById(id).style.display = enabled ? '' : 'none';
+                    });
+                }
+
+                function saveInteractive() {
+                    const mode = document.getElementById('interactive-mode').value;
+                    if (mode === 'off') {
+                        vscode.postMessage({ command: 'setInteractive', interactive: undefined });
+                        return;
+                    }
+                    const filePath = document.getElementById('interactive-path').value.trim() || undefined;
+                    const idleTimeoutMs = parseInt(document.getElementById('interactive-idle').value, 10);
+                    vscode.postMessage({
+                        command: 'setInteractive',
+                        interactive: {
+                            mode,
+                            interactorPath: mode === 'interactor' ? filePath : undefined,
+                            scriptPath: mode === 'script' ? filePath : undefined,
+                            idleTimeoutMs: isNaN(idleTimeoutMs) ? undefined : idleTimeoutMs
+                        }
+                    });
+                }
+
+                function browseInteractive() {
+                    vscode.postMessage({
+                        command: 'browseInteractive',
+                        mode: document.getElementById('interactive-mode').value
+                    });
+                }
+
+                renderInteractive();
+
+                let compilerProfiles = ${this.toScriptJson(compilerProfiles)};
+                let activeProfile = ${this.toScriptJson(activeProfile)};
+
+                function renderCompilerProfiles() {
+                    const select = document.getElementById('compiler-profile');
+                    select.innerHTML = compilerProfiles
+                        .map(name => '<option value="' + escapeHtml(name) + '">Profile: ' + escapeHtml(name) + '</option>')
+                        .join('');
+                    select.value = activeProfile;
+                }
+
+                function setCompilerProfile() {
+                    vscode.postMessage({
+                        command: 'setCompilerProfile',
+                        profile: document.getElementById('compiler-profile').value
+                    });
+                }
+
+                renderCompilerProfiles();
+
+                const hintLabels = {
+                    observation: 'Observation',
+                    approach: 'Approach',
+                    complexity: 'Complexity target',
+                    dataStructure: 'Key data structure'
+                };
+                let hints = ${this.toScriptJson(hints)};
+                let hintsLoading = false;
+                let revealedHints = 0;
+
+                function renderHints() {
+                    const container = document.getElementById('hints');
+                    document.getElementById('get-hints').style.display = hints || hintsLoading ? 'none' : '';
+                    if (hintsLoading) {
+                        container.innerHTML = '<div class="empty-hint">Asking for hints...</div>';
+                        return;
+                    }
+                    if (!hints) {
+                        container.innerHTML = '<div class="empty-hint">Stuck? Hints go from a first observation to the key data structure, one at a time, and never contain code.</div>';
+                        return;
+                    }
+
+                    // Hints are revealed in order, so only the next one can be opened
+                    container.innerHTML = hints.map((hint, index) => {
+                        const title = '<span>Hint ' + (index + 1) + ' · ' + escapeHtml(hintLabels[hint.level] || hint.level) + '</span>';
+                        if (index < revealedHints) {
+                            return '<div class="hint"><div class="hint-title">' + title + '</div>' +
+                                '<div class="hint-text">' + escapeHtml(hint.text) + '</div></div>';
+                        }
+                        return '<div class="hint locked"><div class="hint-title">' + title +
+                            (index === revealedHints ? '<button class="copy-btn" data-action="revealHint">Reveal</button>' : '<span>🔒</span>') +
+                            '</div></div>';
+                    }).join('');
+
+                    if (window.MathJax && revealedHints > 0) {
+                        MathJax.typesetPromise([container]).catch(err => console.error('MathJax rendering failed:', err));
+                    }
+                }
+
+                function getHints() {
+                    hintsLoading = true;
+                    renderHints();
+                    vscode.postMessage({ command: 'getHints' });
+                }
+
+                function revealHint() {
+                    revealedHints++;
+                    renderHints();
+                }
+
+                renderHints();
+
                 function copyTestCase(index) {
-                    const testCase = ${JSON.stringify(problem.sampleTests)};
+                    const testCase = ${this.toScriptJson(problem.sampleTests)};
                     vscode.postMessage({
                         command: 'copyTestCase',
                         testCase: testCase[index]
                     });
                 }
 
+                const clickActions = {
+                    rerunFailed,
+                    copyTestCase,
+                    addCustomTest,
+                    getHints,
+                    browseChecker,
+                    saveChecker,
+                    browseInteractive,
+                    saveInteractive,
+                    runTests: () => runTests(),
+                    rerunTest: testNumber => runTests([testNumber]),
+                    explainFailure,
+                    stressTest,
+                    generateScript,
+                    saveCustomTest,
+                    duplicateCustomTest,
+                    deleteCustomTest,
+                    revealHint
+                };
+
+                // Buttons name their handler in data-action, with its argument in data-index
+                document.addEventListener('click', event => {
+                    const target = event.target.closest('[data-action]');
+                    const action = target && clickActions[target.dataset.action];
+                    if (action) {
+                        action(target.dataset.index !== undefined ? Number(target.dataset.index) : undefined);
+                    }
+                });
+                document.getElementById('checker-type').addEventListener('change', updateCheckerForm);
+                document.getElementById('interactive-mode').addEventListener('change', updateInteractiveForm);
+                document.getElementById('compiler-profile').addEventListener('change', setCompilerProfile);
+
                 // Add smooth scroll behavior
                 document.querySelectorAll('a[href^="#"]').forEach(anchor => {
                     anchor.addEventListener('click', function (e) {
@@ -568,59 +1853,126 @@ export class ProblemWebviewProvider {
         </html>`;
     }
 
+    /**
+     * Lets the user choose between the source templates and generating a
+     * template with the LLM.
+     */
     private async handleGenerateScript() {
-        try {
-            if (!this.currentProblemData) {
-                vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
-                return;
+        if (!this.currentProblemData) {
+            vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
+            return;
+        }
+
+        const defaultName = this.templateGenerator.getDefaultTemplate().fileName;
+        const templateItems: (vscode.QuickPickItem & { template?: SourceTemplate })[] = this.templateGenerator
+            .getTemplates()
+            .map(template => ({
+                label: `$(file-code) ${template.fileName}`,
+                description: template.fileName === defaultName ? 'default' : undefined,
+                template
+            }));
+        const llmAvailable = await this.llmConfiguration.isAvailable();
+        const picked = await vscode.window.showQuickPick([
+            ...templateItems,
+            { label: '', kind: vscode.QuickPickItemKind.Separator },
+            {
+                label: '$(sparkle) Generate with AI',
+                description: llmAvailable
+                    ? `C++ · ${(await this.llmConfiguration.getSettings()).model}`
+                    : 'Needs an API key'
             }
-            await vscode.window.withProgress({
+        ], { placeHolder: 'Generate a solution file from a template or with AI' });
+        if (!picked) {
+            return;
+        }
+
+        if (picked.template) {
+            this.generateFromTemplate(this.currentProblemData, picked.template);
+        } else if (llmAvailable) {
+            await this.generateWithLLM();
+        } else {
+            await this.llmConfiguration.promptForApiKey();
+        }
+    }
+
+    private async generateFromTemplate(problemData: ProblemData, template: SourceTemplate) {
+        try {
+            const fileBase = this.templateGenerator.getFileBase(problemData, template.extension);
+            const rendered = this.templateGenerator.render(problemData, fileBase, template);
+            await this.createAndOpenFile(`${fileBase}${template.extension}`, rendered.content, undefined, rendered.cursorOffset);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to generate script: ${error}`);
+        }
+    }
+
+    /**
+     * Generates a C++ template with the LLM, then compiles it and runs it on
+     * the samples, sending failures back to the model for up to
+     * `smartCodeforcesHelper.llm.repairRounds` rounds. The file is only
+     * created once the template passes, unless the user opens it anyway.
+     */
+    private async generateWithLLM() {
+        const problemData = this.currentProblemData;
+        if (!problemData) {
+            vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
+            return;
+        }
+
+        try {
+            const maxRepairRounds = vscode.workspace
+                .getConfiguration('smartCodeforcesHelper.llm')
+                .get<number>('repairRounds', 2);
+
+            const result = await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: "Generating C++ Template",
                 cancellable: true
             }, async (progress, token) => {
-                progress.report({increment: 0, message: "Preparing Generation..."});
-
-                const language = 'C++';
+                const llmGenerator = await this.llmConfiguration.createTemplateGenerator();
+                // The reply is shown in an untitled editor while it streams in;
+                // the file is only written once the template is final
+                const output = new StreamingEditor();
+                const controller = new AbortController();
+                const cancellation = token.onCancellationRequested(() => controller.abort());
+                try {
+                    await output.open('cpp');
+                    progress.report({ message: `Calling ${llmGenerator.providerName}...` });
+
+                    return await llmGenerator.generateVerifiedCppTemplate(
+                        problemData,
+                        code => this.templateVerifier.verify(code, problemData),
+                        maxRepairRounds,
+                        {
+                            onProgress: message => progress.report({ message }),
+                            onAttempt: () => output.clear(),
+                            onText: text => output.append(text),
+                            signal: controller.signal
+                        }
+                    );
+                } finally {
+                    cancellation.dispose();
+                    await output.close();
+                }
+            });
 
-                if (!this.currentProblemData) {
-                    vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
+            if (!result.passed) {
+                const rounds = result.repairRounds === 1 ? '1 repair round' : `${result.repairRounds} repair rounds`;
+                const answer = await vscode.window.showWarningMessage(
+                    `The generated template still fails after ${rounds}`,
+                    { modal: true, detail: result.failure },
+                    'Open Anyway'
+                );
+                if (answer !== 'Open Anyway') {
                     return;
                 }
+            }
 
-                const sanitizedTitle = this.currentProblemData.title
-                    .replace(/[^a-zA-Z0-9\s]/g, '')
-                    .replace(/\s+/g, '_')
-                    .toLowerCase();
-                
-                    if(token.isCancellationRequested){
-                        throw new Error('Cancelled by user');
-                    }
-
-                    progress.report({increment: 20, message: "Calling Mistral AI..."});
-
-                    let fileName: string;
-                    let content: string;
-                    let vscodeLanguage: string;
-
-                    switch (language) {
-                        case 'C++':
-                            fileName = `${sanitizedTitle}.cpp`;
-                            progress.report({increment: 30, message: "AI is analyzing problem..."});
-                            content = await this.templateGenerator.mistralGenerator.generateCppTemplateWithLLM(this.currentProblemData);
-                            vscodeLanguage = 'cpp';
-                            break;
-                        default:
-                            return;
-                    }
-
-                    progress.report({increment: 90, message: "Creating file..."});
-
-                    await this.createAndOpenFile(fileName, content, vscodeLanguage);
-
-                    progress.report({increment: 100, message: "Temple Generated!"});
-                });
+            const fileBase = this.templateGenerator.getFileBase(problemData, '.cpp');
+            await this.createAndOpenFile(`${fileBase}.cpp`, result.code, 'cpp');
         } catch (error) {
+            if (error instanceof Error && error.message === 'Cancelled by user') {
+                return;
+            }
             vscode.window.showErrorMessage(`Failed to generate script: ${error}`);
         }
     }
@@ -0,0 +1,536 @@
+import * as vscode from 'vscode';
+
+import { ContestDivision, ProblemStatus, ProblemsetFilter, ProblemsetProblem, ProblemsetSnapshot } from './Interfaces';
+import { ProblemWebviewProvider } from './ProblemWebViewProvider';
+import { ProblemsetQuery } from './ProblemsetQuery';
+import { ProblemsetStore } from './ProblemsetStore';
+import { ProblemUrlParser } from './ProblemUrlParser';
+
+/**
+ * Searchable table of the whole problemset. Filtering runs in the extension
+ * so the random-problem command picks from exactly what the table shows.
+ */
+export class ProblemsetBrowserProvider implements vscode.Disposable {
+    private static readonly viewType = 'problemsetBrowser';
+    /** Rows sent to the table; the rest is only counted */
+    private static readonly maxRows = 200;
+    private static readonly divisionLabels: Record<ContestDivision, string> = {
+        'div1': 'Div. 1',
+        'div2': 'Div. 2',
+        'div3': 'Div. 3',
+        'div4': 'Div. 4',
+        'div1+2': 'Div. 1 + 2',
+        'other': 'Other'
+    };
+
+    private panel: vscode.WebviewPanel | undefined;
+    private readonly problemsListener: vscode.Disposable;
+
+    problemsetStore: ProblemsetStore;
+
+    constructor(private readonly problemWebviewProvider: ProblemWebviewProvider) {
+        this.problemsetStore = problemWebviewProvider.problemsetStore;
+        this.problemsListener = problemWebviewProvider.onDidChangeProblems(() => this.postResults());
+    }
+
+    public async show(): Promise<void> {
+        const snapshot = await this.ensureProblemset();
+        if (!snapshot) {
+            return;
+        }
+
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.One);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                ProblemsetBrowserProvider.viewType,
+                'Problemset',
+                vscode.ViewColumn.One,
+                { enableScripts: true, retainContextWhenHidden: true }
+            );
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            }, null);
+
+            this.panel.webview.onDidReceiveMessage(
+                message => {
+                    switch (message.command) {
+                        case 'filter':
+                            this.problemsetStore.setFilter(message.filter);
+                            this.postResults();
+                            break;
+                        case 'openProblem':
+                            this.openProblem(message.contestId, message.index);
+                            break;
+                        case 'pickRandom':
+                            this.pickRandomProblem();
+                            break;
+                        case 'refresh':
+                            this.refresh();
+                            break;
+                    }
+                }
+            );
+        }
+
+        this.panel.webview.html = this.getWebviewContent(snapshot);
+    }
+
+    /**
+     * Downloads the problemset again and updates the browser if it is open.
+     */
+    public async refresh(): Promise<void> {
+        try {
+            const snapshot = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Downloading the Codeforces problemset'
+            }, () => this.problemsetStore.refresh());
+
+            if (this.panel) {
+                this.panel.webview.html = this.getWebviewContent(snapshot);
+            }
+            vscode.window.showInformationMessage(`✅ Loaded ${snapshot.problems.length} problems`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to refresh the problemset: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Opens a random problem that matches the browser's filters, is not
+     * solved on Codeforces and has not passed its samples yet.
+     */
+    public async pickRandomProblem(): Promise<void> {
+        const snapshot = await this.ensureProblemset();
+        if (!snapshot) {
+            return;
+        }
+
+        const solved = new Set([
+            ...[...this.getStatuses()].filter(([, status]) => status === 'passing').map(([key]) => key),
+            ...(this.problemWebviewProvider.userProgress.get()?.problems ?? [])
+                .filter(problem => problem.state === 'solved')
+                .map(ProblemsetQuery.key)
+        ]);
+        const problem = ProblemsetQuery.pickRandom(snapshot.problems, this.problemsetStore.getFilter(), solved);
+        if (!problem) {
+            vscode.window.showInformationMessage('No unsolved problem matches the current problemset filters.');
+            return;
+        }
+
+        await this.openProblem(problem.contestId, problem.index);
+    }
+
+    public dispose(): void {
+        this.problemsListener.dispose();
+        this.panel?.dispose();
+    }
+
+    private async ensureProblemset(): Promise<ProblemsetSnapshot | undefined> {
+        if (!this.problemsetStore.get()) {
+            await this.refresh();
+        }
+        return this.problemsetStore.get();
+    }
+
+    private async openProblem(contestId: number, index: string): Promise<void> {
+        try {
+            await this.problemWebviewProvider.showProblem(ProblemUrlParser.toUrl({ kind: 'contest', contestId, index }));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to open problem ${contestId}${index}: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Test status of the problems in the problem cache, by problem key.
+     */
+    private getStatuses(): Map<string, ProblemStatus> {
+        const statuses = new Map<string, ProblemStatus>();
+        this.problemWebviewProvider.problemCache.list().forEach(({ problem, status }) => {
+            if (status && problem.contestId !== undefined && problem.index) {
+                statuses.set(ProblemsetQuery.key({ contestId: problem.contestId, index: problem.index }), status);
+            }
+        });
+        return statuses;
+    }
+
+    private postResults(): void {
+        const snapshot = this.problemsetStore.get();
+        if (!this.panel || !snapshot) {
+            return;
+        }
+
+        const statuses = this.getStatuses();
+        const problems = ProblemsetQuery.apply(snapshot.problems, this.problemsetStore.getFilter());
+        this.panel.webview.postMessage({
+            command: 'results',
+            total: problems.length,
+            problems: problems.slice(0, ProblemsetBrowserProvider.maxRows).map((problem: ProblemsetProblem) => ({
+                contestId: problem.contestId,
+                index: problem.index,
+                name: problem.name,
+                rating: problem.rating,
+                tags: problem.tags,
+                solvedCount: problem.solvedCount,
+                status: statuses.get(ProblemsetQuery.key(problem)),
+                solveState: this.problemWebviewProvider.userProgress.getState(problem.contestId, problem.index)
+            }))
+        });
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    private getWebviewContent(snapshot: ProblemsetSnapshot): string {
+        const filter: ProblemsetFilter = this.problemsetStore.getFilter();
+        const tags = ProblemsetQuery.getTags(snapshot.problems);
+        const divisions = (Object.keys(ProblemsetBrowserProvider.divisionLabels) as ContestDivision[]).map(division => `
+                    <label><input type="checkbox" class="division" value="${division}"${filter.divisions.includes(division) ? ' checked' : ''}> ${ProblemsetBrowserProvider.divisionLabels[division]}</label>`).join('');
+        const tagButtons = tags.map(tag => `
+                    <button class="tag${filter.tags.includes(tag) ? ' selected' : ''}" data-tag="${this.escapeHtml(tag)}">${this.escapeHtml(tag)}</button>`).join('');
+
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Problemset</title>
+            <style>
+                :root {
+                    --bg-primary: #1e1e1e;
+                    --bg-secondary: #252526;
+                    --bg-tertiary: #2d2d30;
+                    --text-primary: #cccccc;
+                    --text-secondary: #9d9d9d;
+                    --accent-blue: #007acc;
+                    --border: #3e3e42;
+                    --success: #4caf50;
+                    --error: #f44336;
+                }
+
+                body {
+                    font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+                    background: var(--bg-primary);
+                    color: var(--text-primary);
+                    margin: 0;
+                    padding: 20px;
+                }
+
+                .header {
+                    background: linear-gradient(135deg, var(--accent-blue), #005a9e);
+                    padding: 20px;
+                    border-radius: 12px;
+                    margin-bottom: 16px;
+                    color: white;
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                    gap: 12px;
+                    flex-wrap: wrap;
+                }
+
+                .header h1 {
+                    margin: 0 0 8px 0;
+                    font-size: 1.6em;
+                }
+
+                .header-meta {
+                    font-size: 0.9em;
+                    opacity: 0.9;
+                }
+
+                .filters {
+                    background: var(--bg-secondary);
+                    border-radius: 12px;
+                    padding: 14px;
+                    margin-bottom: 16px;
+                    display: flex;
+                    flex-direction: column;
+                    gap: 10px;
+                }
+
+                .filter-row {
+                    display: flex;
+                    flex-wrap: wrap;
+                    align-items: center;
+                    gap: 12px;
+                }
+
+                input, select, button {
+                    font-family: inherit;
+                    font-size: 0.9em;
+                    background: var(--bg-tertiary);
+                    color: var(--text-primary);
+                    border: 1px solid var(--border);
+                    border-radius: 6px;
+                    padding: 5px 8px;
+                }
+
+                input[type="search"] {
+                    flex: 1;
+                    min-width: 200px;
+                }
+
+                input[type="number"] {
+                    width: 80px;
+                }
+
+                input[type="checkbox"] {
+                    padding: 0;
+                }
+
+                button {
+                    cursor: pointer;
+                }
+
+                button:hover {
+                    border-color: var(--accent-blue);
+                }
+
+                .header button {
+                    background: rgba(255, 255, 255, 0.15);
+                    color: white;
+                    border-color: rgba(255, 255, 255, 0.4);
+                }
+
+                .tags {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 6px;
+                    max-height: 110px;
+                    overflow-y: auto;
+                }
+
+                .tag {
+                    border-radius: 12px;
+                    padding: 2px 10px;
+                }
+
+                .tag.selected {
+                    background: var(--accent-blue);
+                    border-color: var(--accent-blue);
+                    color: white;
+                }
+
+                .summary {
+                    color: var(--text-secondary);
+                    margin-bottom: 8px;
+                    font-size: 0.9em;
+                }
+
+                table {
+                    width: 100%;
+                    border-collapse: collapse;
+                    background: var(--bg-secondary);
+                    border-radius: 12px;
+                    overflow: hidden;
+                }
+
+                th, td {
+                    padding: 8px 12px;
+                    text-align: left;
+                    border-bottom: 1px solid var(--border);
+                }
+
+                th {
+                    background: var(--bg-tertiary);
+                    color: var(--text-secondary);
+                    font-weight: 600;
+                }
+
+                tbody tr {
+                    cursor: pointer;
+                }
+
+                tbody tr:hover {
+                    background: var(--bg-tertiary);
+                }
+
+                td.id {
+                    font-weight: 600;
+                    width: 80px;
+                }
+
+                td.tags-cell {
+                    color: var(--text-secondary);
+                    font-size: 0.85em;
+                }
+
+                .status.passing,
+                .status.solved {
+                    color: var(--success);
+                }
+
+                .status.failing,
+                .status.attempted {
+                    color: var(--error);
+                }
+            </style>
+        </head>
+        <body>
+            <div class="header">
+                <div>
+                    <h1>📚 Problemset</h1>
+                    <div class="header-meta">
+                        ${snapshot.problems.length} problems · fetched ${this.escapeHtml(new Date(snapshot.fetchedAt).toLocaleString())}
+                    </div>
+                </div>
+                <div>
+                    <button id="pickRandom">🎲 Pick a random unsolved problem</button>
+                    <button id="refresh">⟳ Refresh</button>
+                </div>
+            </div>
+
+            <div class="filters">
+                <div class="filter-row">
+                    <input id="name" type="search" placeholder="Search by name or ID, e.g. 1850G" value="${this.escapeHtml(filter.name)}">
+                    <label>Rating
+                        <input id="minRating" type="number" min="0" step="100" placeholder="min" value="${filter.minRating ?? ''}">
+                        –
+                        <input id="maxRating" type="number" min="0" step="100" placeholder="max" value="${filter.maxRating ?? ''}">
+                    </label>
+                    <label>Sort by
+                        <select id="sortBy">
+                            <option value="rating"${filter.sortBy === 'rating' ? ' selected' : ''}>Rating</option>
+                            <option value="solvedCount"${filter.sortBy === 'solvedCount' ? ' selected' : ''}>Solved count</option>
+                        </select>
+                        <select id="sortOrder">
+                            <option value="asc"${filter.sortOrder === 'asc' ? ' selected' : ''}>Ascending</option>
+                            <option value="desc"${filter.sortOrder === 'desc' ? ' selected' : ''}>Descending</option>
+                        </select>
+                    </label>
+                </div>
+                <div class="filter-row">${divisions}
+                </div>
+                <div class="filter-row">
+                    <label>Tags
+                        <select id="tagMode">
+                            <option value="any"${filter.tagMode === 'any' ? ' selected' : ''}>match any</option>
+                            <option value="all"${filter.tagMode === 'all' ? ' selected' : ''}>match all</option>
+                        </select>
+                    </label>
+                    <button id="clearTags">Clear tags</button>
+                </div>
+                <div class="tags">${tagButtons}
+                </div>
+            </div>
+
+            <div class="summary" id="summary"></div>
+            <table>
+                <thead>
+                    <tr><th>#</th><th>Problem</th><th>Rating</th><th>Tags</th><th>Solved by</th><th>Status</th></tr>
+                </thead>
+                <tbody id="results"></tbody>
+            </table>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const maxRows = ${ProblemsetBrowserProvider.maxRows};
+                let nameTimer;
+
+                function readNumber(id) {
+                    const value = document.getElementById(id).value;
+                    return value === '' ? undefined : Number(value);
+                }
+
+                function readFilter() {
+                    return {
+                        name: document.getElementById('name').value,
+                        tags: Array.from(document.querySelectorAll('.tag.selected')).map(button => button.dataset.tag),
+                        tagMode: document.getElementById('tagMode').value,
+                        minRating: readNumber('minRating'),
+                        maxRating: readNumber('maxRating'),
+                        divisions: Array.from(document.querySelectorAll('.division:checked')).map(input => input.value),
+                        sortBy: document.getElementById('sortBy').value,
+                        sortOrder: document.getElementById('sortOrder').value
+                    };
+                }
+
+                function updateFilter() {
+                    vscode.postMessage({ command: 'filter', filter: readFilter() });
+                }
+
+                function renderResults(total, problems) {
+                    document.getElementById('summary').textContent = total > problems.length
+                        ? 'Showing the first ' + maxRows + ' of ' + total + ' problems'
+                        : total + ' problems';
+
+                    const body = document.getElementById('results');
+                    body.innerHTML = '';
+                    problems.forEach(problem => {
+                        // An accepted submission outranks the local test status
+                        const status = problem.solveState === 'solved' || !problem.status ? problem.solveState : problem.status;
+                        const row = document.createElement('tr');
+                        const cells = [
+                            problem.contestId + problem.index,
+                            problem.name,
+                            problem.rating !== undefined ? String(problem.rating) : '—',
+                            problem.tags.join(', '),
+                            String(problem.solvedCount),
+                            { solved: '✓ Solved', passing: '✓ Passing', failing: '✗ Failing', attempted: '✗ Attempted' }[status] || ''
+                        ];
+                        cells.forEach((text, column) => {
+                            const cell = document.createElement('td');
+                            cell.textContent = text;
+                            if (column === 0) {
+                                cell.className = 'id';
+                            } else if (column === 3) {
+                                cell.className = 'tags-cell';
+                            } else if (column === 5 && status) {
+                                cell.className = 'status ' + status;
+                            }
+                            row.appendChild(cell);
+                        });
+                        row.addEventListener('click', () => {
+                            vscode.postMessage({ command: 'openProblem', contestId: problem.contestId, index: problem.index });
+                        });
+                        body.appendChild(row);
+                    });
+                }
+
+                document.getElementById('name').addEventListener('input', () => {
+                    clearTimeout(nameTimer);
+                    nameTimer = setTimeout(updateFilter, 250);
+                });
+                ['minRating', 'maxRating', 'sortBy', 'sortOrder', 'tagMode'].forEach(id => {
+                    document.getElementById(id).addEventListener('change', updateFilter);
+                });
+                document.querySelectorAll('.division').forEach(input => input.addEventListener('change', updateFilter));
+                document.querySelectorAll('.tag').forEach(button => {
+                    button.addEventListener('click', () => {
+                        button.classList.toggle('selected');
+                        updateFilter();
+                    });
+                });
+                document.getElementById('clearTags').addEventListener('click', () => {
+                    document.querySelectorAll('.tag.selected').forEach(button => button.classList.remove('selected'));
+                    updateFilter();
+                });
+                document.getElementById('pickRandom').addEventListener('click', () => {
+                    vscode.postMessage({ command: 'pickRandom' });
+                });
+                document.getElementById('refresh').addEventListener('click', () => {
+                    vscode.postMessage({ command: 'refresh' });
+                });
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    if (message.command === 'results') {
+                        renderResults(message.total, message.problems);
+                    }
+                });
+
+                updateFilter();
+            </script>
+        </body>
+        </html>`;
+    }
+}
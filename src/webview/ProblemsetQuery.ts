@@ -0,0 +1,85 @@
+import { ProblemsetFilter, ProblemsetProblem } from './Interfaces';
+
+/**
+ * Filtering, sorting and random picks over the problemset, shared by the
+ * problemset browser and the random-problem command.
+ */
+export class ProblemsetQuery {
+    public static key(problem: { contestId: number; index: string }): string {
+        return `${problem.contestId}${problem.index}`;
+    }
+
+    public static apply(problems: ProblemsetProblem[], filter: ProblemsetFilter): ProblemsetProblem[] {
+        return problems
+            .filter(problem => ProblemsetQuery.matches(problem, filter))
+            .sort((a, b) => ProblemsetQuery.compare(a, b, filter));
+    }
+
+    /**
+     * A random problem that matches the filter and is not in `solved`, keyed
+     * by `ProblemsetQuery.key`.
+     */
+    public static pickRandom(
+        problems: ProblemsetProblem[],
+        filter: ProblemsetFilter,
+        solved: Set<string>,
+        random: () => number = Math.random
+    ): ProblemsetProblem | undefined {
+        const candidates = problems.filter(problem =>
+            !solved.has(ProblemsetQuery.key(problem)) && ProblemsetQuery.matches(problem, filter)
+        );
+        return candidates.length > 0 ? candidates[Math.floor(random() * candidates.length)] : undefined;
+    }
+
+    /**
+     * Every tag in the problemset, alphabetically.
+     */
+    public static getTags(problems: ProblemsetProblem[]): string[] {
+        return [...new Set(problems.flatMap(problem => problem.tags))].sort();
+    }
+
+    private static matches(problem: ProblemsetProblem, filter: ProblemsetFilter): boolean {
+        const name = filter.name.trim().toLowerCase();
+        if (name && !`${ProblemsetQuery.key(problem)} ${problem.name}`.toLowerCase().includes(name)) {
+            return false;
+        }
+
+        if (filter.tags.length > 0) {
+            const hasTag = (tag: string) => problem.tags.includes(tag);
+            if (filter.tagMode === 'all' ? !filter.tags.every(hasTag) : !filter.tags.some(hasTag)) {
+                return false;
+            }
+        }
+
+        // Unrated problems only match when no rating range is set
+        if (filter.minRating !== undefined || filter.maxRating !== undefined) {
+            if (problem.rating === undefined
+                || problem.rating < (filter.minRating ?? -Infinity)
+                || problem.rating > (filter.maxRating ?? Infinity)) {
+                return false;
+            }
+        }
+
+        return filter.divisions.length === 0 || filter.divisions.includes(problem.division);
+    }
+
+    private static compare(a: ProblemsetProblem, b: ProblemsetProblem, filter: ProblemsetFilter): number {
+        const direction = filter.sortOrder === 'desc' ? -1 : 1;
+        if (filter.sortBy === 'solvedCount') {
+            return direction * (a.solvedCount - b.solvedCount) || ProblemsetQuery.compareIds(a, b);
+        }
+
+        // Unrated problems go last in either order
+        if (a.rating === undefined || b.rating === undefined) {
+            return (a.rating === undefined ? 1 : 0) - (b.rating === undefined ? 1 : 0) || ProblemsetQuery.compareIds(a, b);
+        }
+        return direction * (a.rating - b.rating) || ProblemsetQuery.compareIds(a, b);
+    }
+
+    /**
+     * Newest contest first, then by index.
+     */
+    private static compareIds(a: ProblemsetProblem, b: ProblemsetProblem): number {
+        return b.contestId - a.contestId || a.index.localeCompare(b.index, undefined, { numeric: true });
+    }
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+    CodeforcesApiContest,
+    CodeforcesApiProblemset,
+    ContestDivision,
+    ProblemsetFilter,
+    ProblemsetProblem,
+    ProblemsetSnapshot
+} from './Interfaces';
+import { CodeforcesApi } from './CodeforcesApi';
+
+/**
+ * The whole Codeforces problemset with solved counts and contest names,
+ * kept on disk in `problems.json` until it is refreshed, together with the
+ * problemset browser's filter in `filter.json`.
+ */
+export class ProblemsetStore {
+    public static readonly defaultFilter: ProblemsetFilter = {
+        name: '',
+        tags: [],
+        tagMode: 'any',
+        divisions: [],
+        sortBy: 'rating',
+        sortOrder: 'asc'
+    };
+
+    /** A stored problemset younger than this is not refreshed to look up a problem it lacks */
+    private static readonly lookupRefreshIntervalMs = 60 * 60 * 1000;
+
+    private snapshot: ProblemsetSnapshot | undefined;
+    private pendingRefresh: Promise<ProblemsetSnapshot> | undefined;
+
+    constructor(private readonly storageDir: string) { }
+
+    /**
+     * The problemset as last fetched, or `undefined` before the first refresh.
+     */
+    public get(): ProblemsetSnapshot | undefined {
+        if (!this.snapshot) {
+            this.snapshot = this.readJson<ProblemsetSnapshot>('problems.json');
+        }
+        return this.snapshot;
+    }
+
+    /**
+     * Fetches the problemset again; calls made while a refresh is running
+     * share it.
+     */
+    public refresh(): Promise<ProblemsetSnapshot> {
+        if (!this.pendingRefresh) {
+            this.pendingRefresh = this.fetchSnapshot().finally(() => {
+                this.pendingRefresh = undefined;
+            });
+        }
+        return this.pendingRefresh;
+    }
+
+    /**
+     * Looks a problem up in the stored problemset, refreshing it first when
+     * there is none yet or when it is older than an hour and does not list
+     * the problem (e.g. a contest that just ended).
+     */
+    public async find(contestId: number, index: string): Promise<ProblemsetProblem | undefined> {
+        const lookup = (snapshot: ProblemsetSnapshot | undefined) =>
+            snapshot?.problems.find(problem => problem.contestId === contestId && problem.index === index);
+
+        const stored = this.get();
+        const found = lookup(stored);
+        if (found || (stored && Date.now() - Date.parse(stored.fetchedAt) < ProblemsetStore.lookupRefreshIntervalMs)) {
+            return found;
+        }
+        return lookup(await this.refresh());
+    }
+
+    public getFilter(): ProblemsetFilter {
+        return { ...ProblemsetStore.defaultFilter, ...this.readJson<Partial<ProblemsetFilter>>('filter.json') };
+    }
+
+    public setFilter(filter: ProblemsetFilter): void {
+        this.writeJson('filter.json', filter);
+    }
+
+
+    /**
+     * Joins the problems with their solved counts and contest names.
+     */
+    public static build(
+        problemset: CodeforcesApiProblemset,
+        contests: CodeforcesApiContest[],
+        fetchedAt: string
+    ): ProblemsetSnapshot {
+        const solvedCounts = new Map(problemset.problemStatistics.map(statistics =>
+            [`${statistics.contestId}${statistics.index}`, statistics.solvedCount]
+        ));
+        const contestNames = new Map(contests.map(contest => [contest.id, contest.name]));
+
+        return {
+            fetchedAt,
+            problems: problemset.problems
+                .filter(problem => problem.contestId !== undefined)
+                .map(problem => {
+                    const contestName = contestNames.get(problem.contestId);
+                    return {
+                        ...problem,
+                        solvedCount: solvedCounts.get(`${problem.contestId}${problem.index}`) ?? 0,
+                        contestName,
+                        division: ProblemsetStore.parseDivision(contestName)
+                    };
+                })
+        };
+    }
+
+    /**
+     * Reads the division from a contest name such as `Codeforces Round 900
+     * (Div. 1 + Div. 2)` or `Educational Codeforces Round 150 (Rated for Div. 2)`.
+     */
+    public static parseDivision(contestName: string | undefined): ContestDivision {
+        if (!contestName) {
+            return 'other';
+        }
+        if (/Div\.\s*1\s*\+\s*(?:Div\.\s*)?2/i.test(contestName)) {
+            return 'div1+2';
+        }
+        const match = contestName.match(/Div\.\s*([1-4])/i);
+        return match ? `div${match[1]}` as ContestDivision : 'other';
+    }
+
+    private async fetchSnapshot(): Promise<ProblemsetSnapshot> {
+        const [problemset, contests] = await Promise.all([
+            CodeforcesApi.call<CodeforcesApiProblemset>('problemset.problems'),
+            CodeforcesApi.call<CodeforcesApiContest[]>('contest.list')
+        ]);
+        this.snapshot = ProblemsetStore.build(problemset, contests, new Date().toISOString());
+        this.writeJson('problems.json', this.snapshot);
+        return this.snapshot;
+    }
+
+    private readJson<T>(fileName: string): T | undefined {
+        const filePath = path.join(this.storageDir, fileName);
+        if (!fs.existsSync(filePath)) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+        } catch (error) {
+            console.warn(`Failed to read ${filePath}:`, error);
+            return undefined;
+        }
+    }
+
+    private writeJson(fileName: string, value: unknown): void {
+        fs.mkdirSync(this.storageDir, { recursive: true });
+        fs.writeFileSync(path.join(this.storageDir, fileName), JSON.stringify(value), 'utf-8');
+    }
+}
@@ -0,0 +1,86 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+
+import { ExecutionLimits, LimitVerdict, ProcessUsage } from './Interfaces';
+
+/**
+ * Samples a running process's CPU time and peak resident memory from
+ * `/proc/<pid>`. Only Linux exposes these; elsewhere the usage stays empty
+ * and callers fall back to wall-clock time.
+ */
+export class ProcessMonitor {
+    private static readonly clockTicksPerSecond = 100;
+    private static readonly sampleInterval = 10;
+
+    private readonly usage: ProcessUsage = {};
+    private timer: NodeJS.Timeout | undefined;
+
+    constructor(
+        private readonly pid: number | undefined,
+        private readonly onSample: (usage: ProcessUsage) => void = () => { }
+    ) { }
+
+    /**
+     * Starts monitoring a child process and kills it as soon as its CPU time
+     * or peak memory goes over the limits, after reporting which one.
+     */
+    public static enforce(
+        child: cp.ChildProcess,
+        limits: ExecutionLimits,
+        onExceeded: (verdict: LimitVerdict) => void
+    ): ProcessMonitor {
+        const monitor = new ProcessMonitor(child.pid, (usage) => {
+            if (limits.memoryLimitKb !== undefined && (usage.peakMemoryKb ?? 0) > limits.memoryLimitKb) {
+                onExceeded('MLE');
+                child.kill();
+            } else if ((usage.cpuTime ?? 0) > limits.timeLimitMs) {
+                onExceeded('TLE');
+                child.kill();
+            }
+        });
+        monitor.start();
+        return monitor;
+    }
+
+    public static isSupported(): boolean {
+        return process.platform === 'linux';
+    }
+
+    public start(): void {
+        if (this.pid === undefined || !ProcessMonitor.isSupported()) {
+            return;
+        }
+        this.sample();
+        this.timer = setInterval(() => this.sample(), ProcessMonitor.sampleInterval);
+    }
+
+    public stop(): ProcessUsage {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        return { ...this.usage };
+    }
+
+    private sample(): void {
+        try {
+            // Fields after the command name, which is wrapped in parentheses and may contain spaces
+            const stat = fs.readFileSync(`/proc/${this.pid}/stat`, 'utf-8');
+            const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+            const ticks = parseInt(fields[11], 10) + parseInt(fields[12], 10);
+            if (!isNaN(ticks)) {
+                this.usage.cpuTime = Math.round(ticks * 1000 / ProcessMonitor.clockTicksPerSecond);
+            }
+
+            const status = fs.readFileSync(`/proc/${this.pid}/status`, 'utf-8');
+            const peak = status.match(/^VmHWM:\s+(\d+)\s+kB/m);
+            if (peak) {
+                this.usage.peakMemoryKb = Math.max(this.usage.peakMemoryKb ?? 0, parseInt(peak[1], 10));
+            }
+
+            this.onSample(this.usage);
+        } catch (error) {
+            // The process has already exited
+        }
+    }
+}
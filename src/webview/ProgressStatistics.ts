@@ -0,0 +1,83 @@
+import { ProgressStats, UserProgress } from './Interfaces';
+
+/**
+ * Aggregates synced progress into the numbers shown on the stats page.
+ */
+export class ProgressStatistics {
+    public static compute(progress: UserProgress, now: Date = new Date()): ProgressStats {
+        const solved = progress.problems.filter(problem => problem.state === 'solved');
+
+        const ratings = new Map<number, number>();
+        const tags = new Map<string, number>();
+        const solvedPerDay: Record<string, number> = {};
+        solved.forEach(problem => {
+            if (problem.rating !== undefined) {
+                ratings.set(problem.rating, (ratings.get(problem.rating) ?? 0) + 1);
+            }
+            problem.tags.forEach(tag => tags.set(tag, (tags.get(tag) ?? 0) + 1));
+            if (problem.solvedAt !== undefined) {
+                const day = ProgressStatistics.toDateKey(new Date(problem.solvedAt * 1000));
+                solvedPerDay[day] = (solvedPerDay[day] ?? 0) + 1;
+            }
+        });
+
+        return {
+            solved: solved.length,
+            attempted: progress.problems.length - solved.length,
+            byRating: [...ratings].map(([rating, count]) => ({ rating, count })).sort((a, b) => a.rating - b.rating),
+            byTag: [...tags]
+                .map(([tag, count]) => ({ tag, count }))
+                .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag)),
+            solvedPerDay,
+            currentStreak: ProgressStatistics.getCurrentStreak(solvedPerDay, now),
+            longestStreak: ProgressStatistics.getLongestStreak(solvedPerDay)
+        };
+    }
+
+    /**
+     * `YYYY-MM-DD` of a date in local time.
+     */
+    public static toDateKey(date: Date): string {
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+
+    /**
+     * A streak still counts when today has no solve yet but yesterday had one.
+     */
+    private static getCurrentStreak(solvedPerDay: Record<string, number>, now: Date): number {
+        const day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        if (!solvedPerDay[ProgressStatistics.toDateKey(day)]) {
+            day.setDate(day.getDate() - 1);
+        }
+
+        let streak = 0;
+        while (solvedPerDay[ProgressStatistics.toDateKey(day)]) {
+            streak++;
+            day.setDate(day.getDate() - 1);
+        }
+        return streak;
+    }
+
+    private static getLongestStreak(solvedPerDay: Record<string, number>): number {
+        let longest = 0;
+        Object.keys(solvedPerDay).forEach(key => {
+            const [year, month, date] = key.split('-').map(Number);
+            const day = new Date(year, month - 1, date);
+            day.setDate(day.getDate() - 1);
+            // Only count from the first day of each streak
+            if (solvedPerDay[ProgressStatistics.toDateKey(day)]) {
+                return;
+            }
+
+            let length = 0;
+            day.setDate(day.getDate() + 1);
+            while (solvedPerDay[ProgressStatistics.toDateKey(day)]) {
+                length++;
+                day.setDate(day.getDate() + 1);
+            }
+            longest = Math.max(longest, length);
+        });
+        return longest;
+    }
+}
@@ -0,0 +1,366 @@
+import * as vscode from 'vscode';
+
+import { ProgressStats, UserProgress } from './Interfaces';
+import { ProblemWebviewProvider } from './ProblemWebViewProvider';
+import { ProgressStatistics } from './ProgressStatistics';
+
+/**
+ * Syncs the configured handle's submissions and shows the stats page:
+ * solved problems by rating and by tag, and a calendar of the last year.
+ */
+export class ProgressStatsProvider {
+    private static readonly viewType = 'progressStats';
+    private static readonly calendarWeeks = 53;
+    private panel: vscode.WebviewPanel | undefined;
+
+    constructor(private readonly problemWebviewProvider: ProblemWebviewProvider) { }
+
+    /**
+     * Syncs with `smartCodeforcesHelper.handle`, asking for the handle when
+     * it is not set.
+     */
+    public async sync(): Promise<UserProgress | undefined> {
+        const configuration = vscode.workspace.getConfiguration('smartCodeforcesHelper');
+        let handle = configuration.get<string>('handle', '').trim();
+        if (!handle) {
+            handle = (await vscode.window.showInputBox({
+                placeHolder: 'e.g. tourist',
+                prompt: 'Your Codeforces handle, to read your submissions from the public API',
+                ignoreFocusOut: true
+            }))?.trim() ?? '';
+            if (!handle) {
+                return undefined;
+            }
+            await configuration.update('handle', handle, vscode.ConfigurationTarget.Global);
+        }
+
+        try {
+            const progress = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Syncing the submissions of ${handle}`
+            }, () => this.problemWebviewProvider.syncProgress(handle));
+
+            const stats = ProgressStatistics.compute(progress);
+            vscode.window.showInformationMessage(`✅ ${handle}: ${stats.solved} solved, ${stats.attempted} attempted`);
+            if (this.panel) {
+                this.panel.webview.html = this.getWebviewContent(progress, stats);
+            }
+            return progress;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to sync progress for ${handle}: ${errorMessage}`);
+            return undefined;
+        }
+    }
+
+    public async show(): Promise<void> {
+        const progress = this.problemWebviewProvider.userProgress.get() ?? await this.sync();
+        if (!progress) {
+            return;
+        }
+
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.One);
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                ProgressStatsProvider.viewType,
+                'Codeforces Stats',
+                vscode.ViewColumn.One,
+                { enableScripts: true }
+            );
+
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            }, null);
+
+            this.panel.webview.onDidReceiveMessage(
+                message => {
+                    switch (message.command) {
+                        case 'sync':
+                            this.sync();
+                            break;
+                    }
+                }
+            );
+        }
+
+        this.panel.webview.html = this.getWebviewContent(progress, ProgressStatistics.compute(progress));
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    /**
+     * Codeforces rank colour of a rating.
+     */
+    private getRatingColor(rating: number): string {
+        if (rating < 1200) {
+            return '#9e9e9e';
+        }
+        if (rating < 1400) {
+            return '#4caf50';
+        }
+        if (rating < 1600) {
+            return '#03a89e';
+        }
+        if (rating < 1900) {
+            return '#2196f3';
+        }
+        if (rating < 2100) {
+            return '#aa00aa';
+        }
+        return rating < 2400 ? '#ff8c00' : '#f44336';
+    }
+
+    private getBars(entries: { label: string; count: number; color: string }[]): string {
+        const max = Math.max(1, ...entries.map(entry => entry.count));
+        return entries.map(entry => `
+                    <div class="bar-row">
+                        <span class="bar-label">${this.escapeHtml(entry.label)}</span>
+                        <div class="bar-track"><div class="bar" style="width: ${(entry.count / max) * 100}%; background: ${entry.color}"></div></div>
+                        <span class="bar-count">${entry.count}</span>
+                    </div>`).join('') || '<div class="empty">No solved problems yet</div>';
+    }
+
+    /**
+     * One column per week, Sunday on top, ending with the current week.
+     */
+    private getCalendar(stats: ProgressStats): string {
+        const today = new Date();
+        const day = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+        day.setDate(day.getDate() - day.getDay() - (ProgressStatsProvider.calendarWeeks - 1) * 7);
+
+        const weeks: string[] = [];
+        for (let week = 0; week < ProgressStatsProvider.calendarWeeks; week++) {
+            const cells: string[] = [];
+            for (let weekday = 0; weekday < 7; weekday++) {
+                const key = ProgressStatistics.toDateKey(day);
+                const count = stats.solvedPerDay[key] ?? 0;
+                const level = count === 0 ? 0 : count === 1 ? 1 : count <= 3 ? 2 : 3;
+                cells.push(day > today
+                    ? '<div class="day future"></div>'
+                    : `<div class="day level-${level}" title="${key}: ${count} solved"></div>`);
+                day.setDate(day.getDate() + 1);
+            }
+            weeks.push(`<div class="week">${cells.join('')}</div>`);
+        }
+        return weeks.join('');
+    }
+
+    private getWebviewContent(progress: UserProgress, stats: ProgressStats): string {
+        const ratingBars = this.getBars(stats.byRating.map(entry => ({
+            label: String(entry.rating),
+            count: entry.count,
+            color: this.getRatingColor(entry.rating)
+        })));
+        const tagBars = this.getBars(stats.byTag.map(entry => ({ label: entry.tag, count: entry.count, color: 'var(--accent-blue)' })));
+
+        return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Codeforces Stats</title>
+            <style>
+                :root {
+                    --bg-primary: #1e1e1e;
+                    --bg-secondary: #252526;
+                    --bg-tertiary: #2d2d30;
+                    --text-primary: #cccccc;
+                    --text-secondary: #9d9d9d;
+                    --accent-blue: #007acc;
+                    --border: #3e3e42;
+                    --success: #4caf50;
+                    --error: #f44336;
+                }
+
+                body {
+                    font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+                    background: var(--bg-primary);
+                    color: var(--text-primary);
+                    margin: 0;
+                    padding: 20px;
+                }
+
+                .header {
+                    background: linear-gradient(135deg, var(--accent-blue), #005a9e);
+                    padding: 20px;
+                    border-radius: 12px;
+                    margin-bottom: 20px;
+                    color: white;
+                    display: flex;
+                    justify-content: space-between;
+                    align-items: center;
+                }
+
+                .header h1 {
+                    margin: 0 0 8px 0;
+                    font-size: 1.6em;
+                }
+
+                .header-meta {
+                    font-size: 0.9em;
+                    opacity: 0.9;
+                }
+
+                .header button {
+                    font-family: inherit;
+                    background: rgba(255, 255, 255, 0.15);
+                    color: white;
+                    border: 1px solid rgba(255, 255, 255, 0.4);
+                    border-radius: 6px;
+                    padding: 6px 12px;
+                    cursor: pointer;
+                }
+
+                .cards {
+                    display: grid;
+                    grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
+                    gap: 12px;
+                    margin-bottom: 20px;
+                }
+
+                .card, .section {
+                    background: var(--bg-secondary);
+                    border: 1px solid var(--border);
+                    border-radius: 12px;
+                    padding: 16px;
+                }
+
+                .card-value {
+                    font-size: 1.8em;
+                    font-weight: 600;
+                }
+
+                .card-label {
+                    color: var(--text-secondary);
+                    font-size: 0.85em;
+                }
+
+                .section {
+                    margin-bottom: 20px;
+                }
+
+                .section h2 {
+                    margin: 0 0 12px 0;
+                    font-size: 1.1em;
+                }
+
+                .bar-row {
+                    display: flex;
+                    align-items: center;
+                    gap: 10px;
+                    margin-bottom: 6px;
+                    font-size: 0.9em;
+                }
+
+                .bar-label {
+                    width: 170px;
+                    text-align: right;
+                    color: var(--text-secondary);
+                    overflow: hidden;
+                    text-overflow: ellipsis;
+                    white-space: nowrap;
+                }
+
+                .bar-track {
+                    flex: 1;
+                    background: var(--bg-tertiary);
+                    border-radius: 4px;
+                    height: 14px;
+                }
+
+                .bar {
+                    height: 100%;
+                    border-radius: 4px;
+                }
+
+                .bar-count {
+                    width: 40px;
+                }
+
+                .calendar {
+                    display: flex;
+                    gap: 3px;
+                    overflow-x: auto;
+                }
+
+                .week {
+                    display: flex;
+                    flex-direction: column;
+                    gap: 3px;
+                }
+
+                .day {
+                    width: 11px;
+                    height: 11px;
+                    border-radius: 2px;
+                }
+
+                .day.level-0 {
+                    background: var(--bg-tertiary);
+                }
+
+                .day.level-1 {
+                    background: #0e4429;
+                }
+
+                .day.level-2 {
+                    background: #26a641;
+                }
+
+                .day.level-3 {
+                    background: #39d353;
+                }
+
+                .empty {
+                    color: var(--text-secondary);
+                }
+            </style>
+        </head>
+        <body>
+            <div class="header">
+                <div>
+                    <h1>📈 ${this.escapeHtml(progress.handle)}</h1>
+                    <div class="header-meta">Synced ${this.escapeHtml(new Date(progress.syncedAt).toLocaleString())}</div>
+                </div>
+                <button onclick="sync()">⟳ Sync</button>
+            </div>
+
+            <div class="cards">
+                <div class="card"><div class="card-value">${stats.solved}</div><div class="card-label">Solved</div></div>
+                <div class="card"><div class="card-value">${stats.attempted}</div><div class="card-label">Attempted, not solved</div></div>
+                <div class="card"><div class="card-value">${stats.currentStreak}</div><div class="card-label">Current streak (days)</div></div>
+                <div class="card"><div class="card-value">${stats.longestStreak}</div><div class="card-label">Longest streak (days)</div></div>
+            </div>
+
+            <div class="section">
+                <h2>🗓️ Solves in the last year</h2>
+                <div class="calendar">${this.getCalendar(stats)}</div>
+            </div>
+
+            <div class="section">
+                <h2>📊 Solved by rating</h2>${ratingBars}
+            </div>
+
+            <div class="section">
+                <h2>🏷️ Solved by tag</h2>${tagBars}
+            </div>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+
+                function sync() {
+                    vscode.postMessage({ command: 'sync' });
+                }
+            </script>
+        </body>
+        </html>`;
+    }
+}
@@ -0,0 +1,83 @@
+import { ExecutionLimits, LimitVerdict, ProblemData, ProcessUsage } from './Interfaces';
+
+/**
+ * Turns the scraped limit strings ("2 seconds", "256 megabytes") into the
+ * numeric thresholds used for TLE/MLE verdicts.
+ */
+export class ResourceLimits {
+    public static readonly defaultTimeLimitMs = 5000;
+
+    public static fromProblem(problemData: ProblemData, timeMultiplier: number = 1, memoryMultiplier: number = 1): ExecutionLimits {
+        const timeLimitMs = ResourceLimits.parseTimeLimit(problemData.timeLimit);
+        const memoryLimitKb = ResourceLimits.parseMemoryLimit(problemData.memoryLimit);
+
+        return {
+            timeLimitMs: Math.round((timeLimitMs ?? ResourceLimits.defaultTimeLimitMs) * timeMultiplier),
+            memoryLimitKb: memoryLimitKb !== undefined ? Math.round(memoryLimitKb * memoryMultiplier) : undefined
+        };
+    }
+
+    /**
+     * Wall-clock cut-off for a run with these limits, leaving room for
+     * start-up and for programs that wait without using the CPU.
+     */
+    public static getWallTimeoutMs(limits: ExecutionLimits): number {
+        return Math.max(limits.timeLimitMs * 2, limits.timeLimitMs + 1000);
+    }
+
+    /**
+     * The TLE or MLE outcome of a finished run, or undefined when it stayed
+     * within the limits. `killedFor` is the limit the run was stopped for;
+     * CPU time decides TLE where it was measured, wall-clock time elsewhere.
+     */
+    public static getExceededLimit(
+        usage: ProcessUsage,
+        limits: ExecutionLimits,
+        wallTimeMs: number,
+        killedFor?: LimitVerdict
+    ): { verdict: LimitVerdict; error: string } | undefined {
+        if (killedFor === 'MLE' || (limits.memoryLimitKb !== undefined && (usage.peakMemoryKb ?? 0) > limits.memoryLimitKb)) {
+            return { verdict: 'MLE', error: `Memory Limit Exceeded (${usage.peakMemoryKb} KB > ${limits.memoryLimitKb} KB)` };
+        }
+
+        const usedTime = usage.cpuTime ?? wallTimeMs;
+        if (killedFor === 'TLE' || usedTime > limits.timeLimitMs) {
+            return { verdict: 'TLE', error: `Time Limit Exceeded (${usedTime} ms > ${limits.timeLimitMs} ms)` };
+        }
+        return undefined;
+    }
+
+    /**
+     * @returns the limit in milliseconds, or undefined when it can't be parsed
+     */
+    public static parseTimeLimit(text: string | undefined): number | undefined {
+        const match = text?.match(/(\d+(?:\.\d+)?)\s*(milliseconds?|ms|seconds?|secs?|s)\b/i);
+        if (!match) {
+            return undefined;
+        }
+
+        const value = parseFloat(match[1]);
+        const unit = match[2].toLowerCase();
+        return unit.startsWith('m') ? value : value * 1000;
+    }
+
+    /**
+     * @returns the limit in kilobytes, or undefined when it can't be parsed
+     */
+    public static parseMemoryLimit(text: string | undefined): number | undefined {
+        const match = text?.match(/(\d+(?:\.\d+)?)\s*(kilobytes?|kb|megabytes?|mb|gigabytes?|gb)\b/i);
+        if (!match) {
+            return undefined;
+        }
+
+        const value = parseFloat(match[1]);
+        const unit = match[2].toLowerCase();
+        if (unit.startsWith('k')) {
+            return value;
+        }
+        if (unit.startsWith('g')) {
+            return value * 1024 * 1024;
+        }
+        return value * 1024;
+    }
+}
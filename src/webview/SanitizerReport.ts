@@ -0,0 +1,70 @@
+import { SanitizerFinding } from './Interfaces';
+
+/**
+ * Pulls the first diagnostic out of a program's stderr when it was built with
+ * AddressSanitizer, UndefinedBehaviorSanitizer or `_GLIBCXX_DEBUG`, so the
+ * test can show the error instead of a bare exit code.
+ */
+export class SanitizerReport {
+    public static parse(stderr: string): SanitizerFinding | undefined {
+        return SanitizerReport.parseAddressSanitizer(stderr)
+            ?? SanitizerReport.parseUndefinedBehavior(stderr)
+            ?? SanitizerReport.parseDebugContainers(stderr);
+    }
+
+    public static format(finding: SanitizerFinding): string {
+        return `${finding.tool}: ${finding.message}` + (finding.location ? `\n    at ${finding.location}` : '');
+    }
+
+    /**
+     * Environment for running a solution. Leak checking is turned off for
+     * sanitizer builds: solutions rarely free memory before exiting and that
+     * is not an error on the judge.
+     */
+    public static getRunEnvironment(): NodeJS.ProcessEnv {
+        return {
+            ...process.env,
+            ASAN_OPTIONS: process.env.ASAN_OPTIONS ?? 'detect_leaks=0'
+        };
+    }
+
+    private static parseAddressSanitizer(stderr: string): SanitizerFinding | undefined {
+        const header = stderr.match(/^==\d+==ERROR: (\w+Sanitizer): (.*)$/m);
+        if (!header) {
+            return undefined;
+        }
+
+        // "heap-buffer-overflow on address 0x... at pc ..." -> "heap-buffer-overflow"
+        let message = header[2].replace(/ on (unknown )?address .*$/, '').trim();
+        const access = stderr.match(/^(READ|WRITE) of size \d+/m);
+        if (access) {
+            message += ` (${access[0]})`;
+        }
+
+        // The first frame in the user's code, skipping the sanitizer runtime and system libraries
+        const location = [...stderr.matchAll(/^\s+#\d+ 0x[0-9a-f]+ in (.+?) (\/\S+:\d+)/gm)]
+            .find(frame => !frame[2].startsWith('/usr/') && !frame[2].includes('libsanitizer'));
+
+        return {
+            tool: header[1],
+            message,
+            location: location ? `${location[2]} in ${location[1]}` : undefined
+        };
+    }
+
+    private static parseUndefinedBehavior(stderr: string): SanitizerFinding | undefined {
+        const match = stderr.match(/^(\S+:\d+:\d+): runtime error: (.*)$/m);
+        if (!match) {
+            return undefined;
+        }
+        return { tool: 'UndefinedBehaviorSanitizer', message: match[2].trim(), location: match[1] };
+    }
+
+    private static parseDebugContainers(stderr: string): SanitizerFinding | undefined {
+        const match = stderr.match(/(?:^|\n)Error: ([\s\S]*?)(?:\n\s*\n|$)/);
+        if (!match || !/\/debug\/\w+:\d+:/.test(stderr)) {
+            return undefined;
+        }
+        return { tool: '_GLIBCXX_DEBUG', message: match[1].replace(/\s+/g, ' ').trim() };
+    }
+}
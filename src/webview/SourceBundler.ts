@@ -0,0 +1,523 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { BundleOptions, BundleResult } from './Interfaces';
+
+interface Token {
+    kind: 'code' | 'comment' | 'string';
+    text: string;
+    directive: boolean;
+}
+
+interface Segment {
+    lines: string[];
+    fromLibrary: boolean;
+}
+
+interface Chunk {
+    text: string;
+    code: string;
+    name?: string;
+}
+
+interface BundleState {
+    includedFiles: string[];
+    missingIncludes: string[];
+    onceFiles: Set<string>;
+    guards: Set<string>;
+    stack: string[];
+}
+
+interface Conditional {
+    local: boolean;
+    keeping: boolean;
+    taken: boolean;
+}
+
+/**
+ * Turns a C++ solution into a single file for the judge: local `#include`s
+ * are inlined recursively (each `#pragma once` or include-guarded header at
+ * most once), `#ifdef LOCAL` debug blocks are dropped and, optionally,
+ * comments and library definitions the solution never uses are removed.
+ */
+export class SourceBundler {
+    private static readonly keywords = new Set([
+        'if', 'for', 'while', 'switch', 'return', 'sizeof', 'decltype', 'alignas', 'alignof',
+        'static_assert', 'operator', 'main', 'noexcept', 'requires'
+    ]);
+
+    constructor(private readonly options: BundleOptions) { }
+
+    public bundle(sourcePath: string): BundleResult {
+        const state: BundleState = {
+            includedFiles: [],
+            missingIncludes: [],
+            onceFiles: new Set(),
+            guards: new Set(),
+            stack: []
+        };
+
+        let segments = this.expandFile(path.resolve(sourcePath), false, state);
+        if (this.options.removeComments) {
+            segments = segments.map(segment => ({
+                ...segment,
+                lines: SourceBundler.removeComments(segment.lines.join('\n')).split('\n').map(line => line.trimEnd())
+            }));
+        }
+
+        let code = this.options.removeUnused
+            ? SourceBundler.removeUnusedDefinitions(segments)
+            : segments.map(segment => segment.lines.join('\n')).join('\n');
+        if (this.options.removeComments || this.options.removeUnused) {
+            code = code.replace(/\n{3,}/g, '\n\n');
+        }
+
+        return {
+            code: code.trim() + '\n',
+            includedFiles: state.includedFiles,
+            missingIncludes: state.missingIncludes
+        };
+    }
+
+    /**
+     * Returns `text` without comments. Block comments become a space so the
+     * tokens around them stay apart.
+     */
+    public static removeComments(text: string): string {
+        return SourceBundler.tokenize(text)
+            .map(token => token.kind !== 'comment' ? token.text : token.text.startsWith('/*') ? ' ' : '')
+            .join('');
+    }
+
+    /**
+     * Drops `#ifdef LOCAL`/`#if defined(LOCAL)` branches and unwraps
+     * `#ifndef LOCAL` ones, as if compiled without `-DLOCAL`. Other
+     * conditionals are kept as they are.
+     */
+    public static stripLocalBlocks(lines: string[]): string[] {
+        const stack: Conditional[] = [];
+        const result: string[] = [];
+        const isActive = () => stack.every(entry => !entry.local || entry.keeping);
+
+        for (const line of lines) {
+            const directive = /^\s*#\s*(\w+)\s*(.*?)\s*$/.exec(line);
+            const name = directive?.[1];
+            const condition = (directive?.[2] ?? '').replace(/\/\/.*$/, '').trim();
+
+            if (name === 'ifdef' || name === 'ifndef' || name === 'if') {
+                const localCondition = SourceBundler.parseLocalCondition(name, condition);
+                if (localCondition !== undefined) {
+                    stack.push({ local: true, keeping: localCondition, taken: localCondition });
+                    continue;
+                }
+                stack.push({ local: false, keeping: true, taken: true });
+            } else if (name === 'else' && stack.length > 0 && stack[stack.length - 1].local) {
+                const top = stack[stack.length - 1];
+                top.keeping = !top.taken;
+                top.taken = true;
+                continue;
+            } else if (name === 'elif' && stack.length > 0 && stack[stack.length - 1].local) {
+                const top = stack[stack.length - 1];
+                if (top.taken) {
+                    top.keeping = false;
+                    continue;
+                }
+                // LOCAL is undefined, so the rest of the chain is an ordinary conditional
+                stack[stack.length - 1] = { local: false, keeping: true, taken: true };
+                if (isActive()) {
+                    result.push(line.replace(/#\s*elif/, '#if'));
+                }
+                continue;
+            } else if (name === 'endif' && stack.length > 0) {
+                const top = stack.pop()!;
+                if (top.local) {
+                    continue;
+                }
+            }
+
+            if (isActive()) {
+                result.push(line);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Whether the branch after `#<name> <condition>` is compiled without
+     * LOCAL, or `undefined` when the condition doesn't test LOCAL.
+     */
+    private static parseLocalCondition(name: string, condition: string): boolean | undefined {
+        if (name === 'ifdef' && condition === 'LOCAL') {
+            return false;
+        }
+        if (name === 'ifndef' && condition === 'LOCAL') {
+            return true;
+        }
+        if (name === 'if') {
+            if (/^(defined\s*\(\s*LOCAL\s*\)|defined\s+LOCAL|LOCAL)$/.test(condition)) {
+                return false;
+            }
+            if (/^!\s*(defined\s*\(\s*LOCAL\s*\)|defined\s+LOCAL|LOCAL)$/.test(condition)) {
+                return true;
+            }
+        }
+        return undefined;
+    }
+
+    private expandFile(filePath: string, fromLibrary: boolean, state: BundleState): Segment[] {
+        let lines = fs.readFileSync(filePath, 'utf-8').replace(/\r\n/g, '\n').split('\n');
+        if (this.options.stripLocalBlocks) {
+            lines = SourceBundler.stripLocalBlocks(lines);
+        }
+
+        if (fromLibrary) {
+            if (state.onceFiles.has(filePath)) {
+                return [];
+            }
+            const guard = SourceBundler.findIncludeGuard(lines);
+            if (guard !== undefined) {
+                if (state.guards.has(guard)) {
+                    return [];
+                }
+                state.guards.add(guard);
+            }
+            state.includedFiles.push(filePath);
+        }
+
+        state.stack.push(filePath);
+        const segments: Segment[] = [];
+        let current: string[] = [];
+
+        for (const line of lines) {
+            if (/^\s*#\s*pragma\s+once\b/.test(line)) {
+                state.onceFiles.add(filePath);
+                continue;
+            }
+
+            const include = /^\s*#\s*include\s*([<"])([^>"]+)[>"]/.exec(line);
+            const resolved = include && this.resolveInclude(include[2], include[1] === '"', filePath);
+            if (!include || !resolved) {
+                if (include && include[1] === '"' && !state.missingIncludes.includes(include[2])) {
+                    state.missingIncludes.push(include[2]);
+                }
+                current.push(line);
+                continue;
+            }
+
+            // A header that includes itself without a guard would never end
+            if (state.stack.includes(resolved)) {
+                continue;
+            }
+            segments.push({ lines: current, fromLibrary });
+            segments.push(...this.expandFile(resolved, true, state));
+            current = [];
+        }
+
+        segments.push({ lines: current, fromLibrary });
+        state.stack.pop();
+        return segments;
+    }
+
+    private resolveInclude(includePath: string, quoted: boolean, fromFile: string): string | undefined {
+        const searchDirs = quoted
+            ? [path.dirname(fromFile), ...this.options.includePaths]
+            : this.options.includePaths;
+
+        for (const dir of searchDirs) {
+            const candidate = path.resolve(dir, includePath);
+            if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * The macro of a classic `#ifndef X` / `#define X` guard at the top of
+     * a header, skipping leading comments.
+     */
+    private static findIncludeGuard(lines: string[]): string | undefined {
+        const significant = lines
+            .map(line => line.trim())
+            .filter(line => line !== '' && !line.startsWith('//') && !line.startsWith('/*') && !line.startsWith('*'));
+
+        const ifndef = /^#\s*ifndef\s+(\w+)/.exec(significant[0] ?? '');
+        const define = /^#\s*define\s+(\w+)/.exec(significant[1] ?? '');
+        return ifndef && define && ifndef[1] === define[1] ? ifndef[1] : undefined;
+    }
+
+    /**
+     * Removes top-level functions and classes from library code
+     * when nothing else refers to them, repeating until nothing changes so
+     * helpers used only by removed code go too. The solution itself is kept
+     * as it is; anything that can't be split safely is kept whole.
+     */
+    private static removeUnusedDefinitions(segments: Segment[]): string {
+        const parts = segments.map(segment => {
+            const text = segment.lines.join('\n');
+            const chunks = segment.fromLibrary ? SourceBundler.splitTopLevel(text) : undefined;
+            return chunks ?? [{ text, code: SourceBundler.tokenize(text).filter(token => token.kind === 'code').map(token => token.text).join('') }];
+        });
+
+        const referenceCounts = new Map<Chunk, Map<string, number>>();
+        parts.flat().forEach(chunk => referenceCounts.set(chunk, SourceBundler.countReferences(chunk)));
+        const removed = new Set<Chunk>();
+
+        let changed = true;
+        while (changed) {
+            changed = false;
+            const totals = new Map<string, number>();
+            referenceCounts.forEach((counts, chunk) => {
+                if (!removed.has(chunk)) {
+                    counts.forEach((count, identifier) => totals.set(identifier, (totals.get(identifier) ?? 0) + count));
+                }
+            });
+
+            referenceCounts.forEach((counts, chunk) => {
+                if (chunk.name === undefined || removed.has(chunk)) {
+                    return;
+                }
+                const external = (totals.get(chunk.name) ?? 0) - (counts.get(chunk.name) ?? 0);
+                if (external <= 0) {
+                    removed.add(chunk);
+                    changed = true;
+                }
+            });
+        }
+
+        return parts
+            .map(chunks => chunks.filter(chunk => !removed.has(chunk)).map(chunk => chunk.text).join(''))
+            .join('\n');
+    }
+
+    /**
+     * Identifier occurrences in a chunk, not counting the one that names
+     * its own definition.
+     */
+    private static countReferences(chunk: Chunk): Map<string, number> {
+        const counts = new Map<string, number>();
+        for (const match of chunk.code.matchAll(/[A-Za-z_]\w*/g)) {
+            counts.set(match[0], (counts.get(match[0]) ?? 0) + 1);
+        }
+        if (chunk.name !== undefined) {
+            counts.set(chunk.name, (counts.get(chunk.name) ?? 1) - 1);
+        }
+        return counts;
+    }
+
+    /**
+     * Splits code into top-level declarations. Namespace braces and
+     * preprocessor lines become chunks of their own so declarations inside
+     * namespaces can be removed individually. Returns `undefined` when the
+     * braces don't balance.
+     */
+    private static splitTopLevel(text: string): Chunk[] | undefined {
+        const chunks: Chunk[] = [];
+        let chunk: Chunk = { text: '', code: '' };
+        let depth = 0;
+        let namespaceDepth = 0;
+        let head = '';
+
+        const finish = (named: boolean) => {
+            if (named) {
+                chunk.name = SourceBundler.getDefinitionName(head, chunk.code);
+            }
+            chunks.push(chunk);
+            chunk = { text: '', code: '' };
+            head = '';
+        };
+
+        for (const token of SourceBundler.tokenize(text)) {
+            if (token.kind !== 'code' || token.directive) {
+                if (token.directive && depth === 0 && chunk.code.trim() === '') {
+                    chunk.text += token.text;
+                    finish(false);
+                    continue;
+                }
+                chunk.text += token.text;
+                if (token.kind === 'code') {
+                    chunk.code += token.text;
+                }
+                continue;
+            }
+
+            for (const char of token.text) {
+                chunk.text += char;
+                chunk.code += char;
+
+                if (char === '{') {
+                    if (depth === 0 && head === '' && /^\s*(inline\s+)?namespace\b[^;=]*\{$/.test(chunk.code)) {
+                        namespaceDepth++;
+                        finish(false);
+                        continue;
+                    }
+                    if (depth === 0 && head === '') {
+                        head = chunk.code.slice(0, -1);
+                    }
+                    depth++;
+                } else if (char === '}') {
+                    if (depth === 0) {
+                        if (namespaceDepth === 0 || chunk.code.trim() !== '}') {
+                            return undefined;
+                        }
+                        namespaceDepth--;
+                        finish(false);
+                        continue;
+                    }
+                    depth--;
+                    // Classes and initializers end at the semicolon after the brace
+                    if (depth === 0 && !SourceBundler.needsSemicolon(head)) {
+                        finish(true);
+                    }
+                } else if (char === ';' && depth === 0) {
+                    finish(head !== '');
+                }
+            }
+        }
+
+        if (depth !== 0 || namespaceDepth !== 0) {
+            return undefined;
+        }
+        chunks.push(chunk);
+        return chunks;
+    }
+
+    private static needsSemicolon(head: string): boolean {
+        return head.includes('=') || /^\s*(template\s*<[^{]*>\s*)?(struct|class|union|enum)\b/.test(head);
+    }
+
+    /**
+     * The name a top-level definition introduces, or `undefined` when the
+     * definition must always be kept: variables, enums (their values are
+     * used without the name), specializations, operators and out-of-class
+     * member definitions.
+     */
+    private static getDefinitionName(head: string, code: string): string | undefined {
+        if (/^\s*template\s*<\s*>/.test(head)) {
+            return undefined;
+        }
+        const declaration = head.replace(/^\s*template\s*<[\s\S]*?>\s*(?=(struct|class|union|[A-Za-z_]))/, '').trim();
+
+        const record = /^(struct|class|union)\s+([A-Za-z_]\w*)\s*(?:final\s*)?(?::[^{]*)?$/.exec(declaration);
+        if (record) {
+            // `struct X { ... } x;` also declares a variable
+            const afterBody = code.slice(code.lastIndexOf('}') + 1).replace(';', '').trim();
+            return afterBody === '' ? record[2] : undefined;
+        }
+        if (/^(enum|extern|namespace)\b/.test(declaration) || declaration.includes('=') || declaration.includes('operator')) {
+            return undefined;
+        }
+
+        const functionName = /(^|[^\w:])([A-Za-z_]\w*)\s*\(/.exec(declaration);
+        if (functionName && !SourceBundler.keywords.has(functionName[2]) && !functionName[2].startsWith('__')) {
+            return functionName[2];
+        }
+        return undefined;
+    }
+
+    /**
+     * Splits C++ source into code, comments and string/character literals.
+     * Code tokens on preprocessor lines are marked as directives.
+     */
+    private static tokenize(text: string): Token[] {
+        const tokens: Token[] = [];
+        let code = '';
+        let directive = false;
+        let lineStart = true;
+
+        const flushCode = () => {
+            if (code !== '') {
+                tokens.push({ kind: 'code', text: code, directive });
+                code = '';
+            }
+        };
+
+        let i = 0;
+        while (i < text.length) {
+            const char = text[i];
+            const next = text[i + 1];
+
+            if (char === '/' && next === '/') {
+                const end = text.indexOf('\n', i);
+                flushCode();
+                tokens.push({ kind: 'comment', text: text.slice(i, end === -1 ? text.length : end), directive });
+                i = end === -1 ? text.length : end;
+                continue;
+            }
+            if (char === '/' && next === '*') {
+                const end = text.indexOf('*/', i + 2);
+                flushCode();
+                tokens.push({ kind: 'comment', text: text.slice(i, end === -1 ? text.length : end + 2), directive });
+                i = end === -1 ? text.length : end + 2;
+                continue;
+            }
+
+            const literalEnd = SourceBundler.findLiteralEnd(text, i);
+            if (literalEnd !== undefined) {
+                flushCode();
+                tokens.push({ kind: 'string', text: text.slice(i, literalEnd), directive });
+                i = literalEnd;
+                lineStart = false;
+                continue;
+            }
+
+            if (char === '#' && lineStart) {
+                flushCode();
+                directive = true;
+            }
+            if (char === '\n') {
+                if (directive && text[i - 1] !== '\\' && !(text[i - 1] === '\r' && text[i - 2] === '\\')) {
+                    flushCode();
+                    directive = false;
+                }
+                lineStart = true;
+            } else if (char !== ' ' && char !== '\t' && char !== '\r') {
+                lineStart = false;
+            }
+            code += char;
+            i++;
+        }
+
+        flushCode();
+        return tokens;
+    }
+
+    /**
+     * End of the string, raw string or character literal starting at `i`,
+     * or `undefined` if none starts there. A quote inside a number is a
+     * digit separator (`1'000'000`), not a character literal.
+     */
+    private static findLiteralEnd(text: string, i: number): number | undefined {
+        const char = text[i];
+        if (char !== '"' && char !== '\'') {
+            return undefined;
+        }
+
+        let wordStart = i;
+        while (wordStart > 0 && /\w/.test(text[wordStart - 1])) {
+            wordStart--;
+        }
+        const prefix = text.slice(wordStart, i);
+
+        if (char === '\'' && /^\d/.test(prefix)) {
+            return undefined;
+        }
+        if (char === '"' && /^(u8|u|U|L)?R$/.test(prefix)) {
+            const open = text.indexOf('(', i);
+            if (open !== -1) {
+                const delimiter = text.slice(i + 1, open);
+                const close = text.indexOf(`)${delimiter}"`, open);
+                return close === -1 ? text.length : close + delimiter.length + 2;
+            }
+        }
+
+        for (let j = i + 1; j < text.length; j++) {
+            if (text[j] === '\\') {
+                j++;
+            } else if (text[j] === char || text[j] === '\n') {
+                return j + 1;
+            }
+        }
+        return text.length;
+    }
+}
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+
+/**
+ * An untitled editor that shows a model's reply while it streams in. Edits
+ * are applied one after another; text that arrives while an edit is running
+ * is added in one go by the next edit.
+ */
+export class StreamingEditor {
+    private document: vscode.TextDocument | undefined;
+    private pending = '';
+    private replacePending = false;
+    private scheduled = false;
+    private queue: Promise<void> = Promise.resolve();
+
+    public async open(language: string): Promise<void> {
+        this.document = await vscode.workspace.openTextDocument({ language, content: '' });
+        await vscode.window.showTextDocument(this.document, { preview: false });
+    }
+
+    public append(text: string): void {
+        this.pending += text;
+        this.schedule();
+    }
+
+    /**
+     * Empties the editor, e.g. before the model writes a new version.
+     */
+    public clear(): void {
+        this.pending = '';
+        this.replacePending = true;
+        this.schedule();
+    }
+
+    /**
+     * Waits for the queued edits and closes the editor without saving it.
+     */
+    public async close(): Promise<void> {
+        await this.queue;
+        const document = this.document;
+        this.document = undefined;
+        if (!document || document.isClosed) {
+            return;
+        }
+
+        await vscode.window.showTextDocument(document, { preview: false });
+        await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+    }
+
+    private schedule(): void {
+        if (this.scheduled) {
+            return;
+        }
+        this.scheduled = true;
+        this.queue = this.queue.then(() => this.applyPending());
+    }
+
+    private async applyPending(): Promise<void> {
+        this.scheduled = false;
+        const text = this.pending;
+        const replace = this.replacePending;
+        this.pending = '';
+        this.replacePending = false;
+
+        const document = this.document;
+        // The user may have closed the editor; the reply is still used
+        if (!document || document.isClosed) {
+            return;
+        }
+
+        const end = document.lineAt(document.lineCount - 1).range.end;
+        const edit = new vscode.WorkspaceEdit();
+        if (replace) {
+            edit.replace(document.uri, new vscode.Range(new vscode.Position(0, 0), end), text);
+        } else {
+            edit.insert(document.uri, end, text);
+        }
+        try {
+            await vscode.workspace.applyEdit(edit);
+        } catch (error) {
+            console.error('Failed to update the streaming editor:', error);
+            return;
+        }
+
+        const editor = vscode.window.visibleTextEditors.find(visible => visible.document === document);
+        if (editor) {
+            const newEnd = document.lineAt(document.lineCount - 1).range.end;
+            editor.revealRange(new vscode.Range(newEnd, newEnd), vscode.TextEditorRevealType.Default);
+        }
+    }
+}
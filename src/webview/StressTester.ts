@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CheckerConfig, ExecutionLimits, ProblemData, RunnableProgram, TestCase, Verdict } from './Interfaces';
+import { TestCaseHandler } from './TestCaseHandler';
+import { CustomTestStore } from './CustomTestStore';
+import { ProblemSettingsStore } from './ProblemSettingsStore';
+
+interface StressFailure {
+    input: string;
+    expectedOutput: string;
+    actualOutput: string;
+    reason: string;
+    seed: number;
+}
+
+/**
+ * Runs a random generator, a brute-force reference and the solution in a loop
+ * until their outputs disagree, then saves the smallest failing input as a
+ * custom test for the problem.
+ *
+ * The generator receives a random seed as its only argument and prints one
+ * test to stdout.
+ */
+export class StressTester {
+    constructor(
+        private readonly testCaseHandler: TestCaseHandler,
+        private readonly customTestStore: CustomTestStore,
+        private readonly problemSettingsStore: ProblemSettingsStore
+    ) { }
+
+    /**
+     * @returns the problem's updated custom tests when a failing input was saved
+     */
+    public async handleStressTest(problemData: ProblemData | undefined): Promise<TestCase[] | undefined> {
+        if (problemData === undefined) {
+            vscode.window.showErrorMessage('No problem data available. Please load a problem first.');
+            return;
+        }
+
+        const activeEditor = vscode.window.activeTextEditor;
+        if (!activeEditor || !this.testCaseHandler.languageRegistry.resolve(activeEditor.document.fileName, activeEditor.document.languageId)) {
+            vscode.window.showErrorMessage('Please open your solution file to run a stress test');
+            return;
+        }
+
+        if (activeEditor.document.isDirty) {
+            await activeEditor.document.save();
+        }
+
+        const solutionPath = activeEditor.document.fileName;
+        const generatorPath = await this.findCompanionFile(solutionPath, ['gen', 'generator'], 'random generator');
+        if (!generatorPath) {
+            return;
+        }
+        const brutePath = await this.findCompanionFile(solutionPath, ['brute', 'naive'], 'brute-force solution');
+        if (!brutePath) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('smartCodeforcesHelper.stressTest');
+        const maxIterations = config.get<number>('maxIterations', 1000);
+        const timeBudgetMs = config.get<number>('timeBudgetSeconds', 60) * 1000;
+        const shrinkIterations = config.get<number>('shrinkIterations', 200);
+
+        const programs: RunnableProgram[] = [];
+        try {
+            return await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Stress Test',
+                cancellable: true
+            }, async (progress, token) => {
+                progress.report({ message: 'Compiling generator, brute force and solution...' });
+
+                const generator = await this.compile(generatorPath, programs);
+                const brute = await this.compile(brutePath, programs);
+                const solution = await this.compile(solutionPath, programs);
+                const checker = this.problemSettingsStore.getChecker(problemData);
+                const limits = this.testCaseHandler.getExecutionLimits(problemData);
+
+                const startTime = Date.now();
+                let failure: StressFailure | undefined;
+                let iteration = 0;
+                let extraIterations = 0;
+
+                while (iteration < maxIterations && Date.now() - startTime < timeBudgetMs) {
+                    if (token.isCancellationRequested) {
+                        break;
+                    }
+                    if (failure && extraIterations >= shrinkIterations) {
+                        break;
+                    }
+
+                    iteration++;
+                    if (failure) {
+                        extraIterations++;
+                    }
+
+                    progress.report({
+                        message: failure
+                            ? `Found a failing test, looking for a smaller one (${extraIterations}/${shrinkIterations})`
+                            : `Iteration ${iteration}/${maxIterations}`
+                    });
+
+                    const candidate = await this.runIteration(generator, brute, solution, checker, limits, iteration);
+                    if (candidate && (!failure || candidate.input.length < failure.input.length)) {
+                        failure = candidate;
+                    }
+                }
+
+                if (!failure) {
+                    vscode.window.showInformationMessage(`✅ No difference found after ${iteration} iterations`);
+                    return undefined;
+                }
+
+                const tests = this.customTestStore.add(problemData, {
+                    input: failure.input,
+                    output: failure.expectedOutput
+                });
+
+                vscode.window.showWarningMessage(
+                    `❌ ${failure.reason} on seed ${failure.seed}. ` +
+                    `Saved the smallest failing input (${failure.input.length} chars) as custom test ${tests.length}.`
+                );
+
+                return tests;
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Stress test failed: ${errorMessage}`);
+            return undefined;
+        } finally {
+            programs.forEach(program => this.testCaseHandler.cleanup(program));
+        }
+    }
+
+    private async compile(sourcePath: string, programs: RunnableProgram[]): Promise<RunnableProgram> {
+        const language = this.testCaseHandler.languageRegistry.resolve(sourcePath);
+        if (!language) {
+            throw new Error(`Unsupported language for ${path.basename(sourcePath)}`);
+        }
+        const program = await this.testCaseHandler.compileSource(sourcePath, language);
+        programs.push(program);
+        return program;
+    }
+
+    private async runIteration(
+        generator: RunnableProgram,
+        brute: RunnableProgram,
+        solution: RunnableProgram,
+        checker: CheckerConfig,
+        limits: ExecutionLimits,
+        iteration: number
+    ): Promise<StressFailure | undefined> {
+        const seed = Math.floor(Math.random() * 0x7fffffff);
+
+        const generated = await this.testCaseHandler.runSingleTest(
+            { ...generator, args: [...generator.args, String(seed)] },
+            { input: '', output: '' },
+            iteration
+        );
+        if (this.isExecutionError(generated.verdict)) {
+            throw new Error(`Generator failed on seed ${seed}: ${generated.error}`);
+        }
+        const input = generated.actualOutput;
+
+        const reference = await this.testCaseHandler.runSingleTest(brute, { input, output: '' }, iteration);
+        if (this.isExecutionError(reference.verdict)) {
+            throw new Error(`Brute force failed on seed ${seed}: ${reference.error}`);
+        }
+
+        const result = await this.testCaseHandler.runSingleTest(solution, { input, output: reference.actualOutput }, iteration, checker, limits);
+        if (result.passed) {
+            return undefined;
+        }
+
+        return {
+            input,
+            expectedOutput: reference.actualOutput,
+            actualOutput: result.actualOutput,
+            reason: result.error ?? 'Wrong Answer',
+            seed
+        };
+    }
+
+    /**
+     * The generator and brute force are run without an expected output, so a
+     * "Wrong Answer" from them only means they printed something.
+     */
+    private isExecutionError(verdict: Verdict): boolean {
+        return verdict !== 'AC' && verdict !== 'WA';
+    }
+
+    private async findCompanionFile(solutionPath: string, names: string[], description: string): Promise<string | undefined> {
+        const directory = path.dirname(solutionPath);
+        const base = path.basename(solutionPath, path.extname(solutionPath));
+        const candidates = names.flatMap(name => [`${base}_${name}`, `${base}-${name}`, name]);
+
+        const match = fs.readdirSync(directory).find(file => {
+            const fileBase = path.basename(file, path.extname(file));
+            return candidates.includes(fileBase) &&
+                this.testCaseHandler.languageRegistry.resolve(file) !== undefined;
+        });
+        if (match) {
+            return path.join(directory, match);
+        }
+
+        const selected = await vscode.window.showOpenDialog({
+            defaultUri: vscode.Uri.file(directory),
+            canSelectMany: false,
+            openLabel: `Use as ${description}`,
+            title: `Select the ${description} source file`
+        });
+
+        return selected?.[0]?.fsPath;
+    }
+}
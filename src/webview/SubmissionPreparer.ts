@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { BundleOptions } from './Interfaces';
+import { SourceBundler } from './SourceBundler';
+
+type SubmissionOutput = 'file' | 'clipboard' | 'both';
+
+/**
+ * Prepares the active C++ file for submission: bundles it with its local
+ * headers and writes the result to `.codeforces/submit/` and/or the
+ * clipboard, depending on `smartCodeforcesHelper.submission.output`.
+ */
+export class SubmissionPreparer {
+    private static readonly cppExtensions = ['.cpp', '.cc', '.cxx', '.c++', '.c'];
+
+    public async prepare(): Promise<void> {
+        const activeEditor = vscode.window.activeTextEditor;
+        if (!activeEditor || !SubmissionPreparer.cppExtensions.includes(path.extname(activeEditor.document.fileName).toLowerCase())) {
+            vscode.window.showErrorMessage('Please open a C or C++ solution file to prepare a submission');
+            return;
+        }
+
+        if (activeEditor.document.isDirty) {
+            await activeEditor.document.save();
+        }
+
+        const sourcePath = activeEditor.document.fileName;
+        const config = vscode.workspace.getConfiguration('smartCodeforcesHelper.submission');
+        const output = config.get<SubmissionOutput>('output', 'both');
+        const result = new SourceBundler(this.getBundleOptions(config)).bundle(sourcePath);
+
+        let outputPath: string | undefined;
+        if (output === 'file' || output === 'both') {
+            outputPath = this.getOutputPath(sourcePath);
+            fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+            fs.writeFileSync(outputPath, result.code, 'utf-8');
+        }
+        if (output === 'clipboard' || output === 'both') {
+            await vscode.env.clipboard.writeText(result.code);
+        }
+
+        if (result.missingIncludes.length > 0) {
+            vscode.window.showWarningMessage(
+                `These includes were not found and were left as they are: ${result.missingIncludes.join(', ')}`
+            );
+        }
+
+        const destination = output === 'clipboard' ? 'copied to the clipboard'
+            : output === 'file' ? 'saved' : 'saved and copied to the clipboard';
+        const message = `✅ Submission ${destination} (${result.includedFiles.length} header(s) inlined)`;
+        if (!outputPath) {
+            vscode.window.showInformationMessage(message);
+            return;
+        }
+
+        const answer = await vscode.window.showInformationMessage(message, 'Open');
+        if (answer === 'Open') {
+            const document = await vscode.workspace.openTextDocument(outputPath);
+            await vscode.window.showTextDocument(document, { preview: false });
+        }
+    }
+
+    private getBundleOptions(config: vscode.WorkspaceConfiguration): BundleOptions {
+        const workspaceDir = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return {
+            // Relative include paths are taken from the workspace root
+            includePaths: config.get<string[]>('includePaths', [])
+                .map(includePath => workspaceDir ? path.resolve(workspaceDir, includePath) : includePath),
+            stripLocalBlocks: config.get<boolean>('stripLocalBlocks', true),
+            removeComments: config.get<boolean>('removeComments', false),
+            removeUnused: config.get<boolean>('removeUnused', false)
+        };
+    }
+
+    private getOutputPath(sourcePath: string): string {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            const extension = path.extname(sourcePath);
+            return path.join(path.dirname(sourcePath), `${path.basename(sourcePath, extension)}.submit${extension}`);
+        }
+
+        // Keep the folder structure so `A/A.cpp` and `B/A.cpp` don't collide
+        const relativePath = path.relative(workspaceFolder.uri.fsPath, sourcePath);
+        const insideWorkspace = !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+        return path.join(
+            workspaceFolder.uri.fsPath,
+            '.codeforces',
+            'submit',
+            insideWorkspace ? relativePath : path.basename(sourcePath)
+        );
+    }
+}
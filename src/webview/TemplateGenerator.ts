@@ -1,112 +1,70 @@
 import * as vscode from 'vscode';
-import { MistralTemplateGenerator } from "../autoCodeGenerator/MistralTemplateGenerator";
-import { TestCase } from "./Interfaces";
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProblemData, RenderedTemplate, SourceTemplate, TemplateScope } from "./Interfaces";
+import { TemplateRenderer } from './TemplateRenderer';
+import { LanguageRegistry } from './LanguageRegistry';
+import { WorkspaceLanguageSettings } from './WorkspaceLanguageSettings';
 
 
+/**
+ * Source templates with `${...}` placeholders (see `TemplateRenderer`).
+ * Templates are files named `<name>.<ext>` in `.codeforces/templates/` of the
+ * workspace or in the extension's user-level template folder; a workspace
+ * template overrides a user template with the same file name, and both
+ * override the built-in `default.cpp`, `default.java` and `default.py`.
+ */
 export class TemplateGenerator {
-    public mistralGenerator: MistralTemplateGenerator;
+    public static readonly defaultTemplate = 'default.cpp';
 
-    constructor() {
-        const apiKey = this.getMistralApiKey();
-        this.mistralGenerator = new MistralTemplateGenerator(apiKey);
-    }
-
-    private getMistralApiKey(): string {
-        // First try to get from VS Code settings
-        const config = vscode.workspace.getConfiguration('your-extension-name');
-        const apiKeyFromSettings = config.get<string>('mistralApiKey');
-
-        if (apiKeyFromSettings) {
-            return apiKeyFromSettings;
-        }
-
-        // Fallback to environment variable
-        const apiKeyFromEnv = process.env.MISTRAL_API_KEY;
-        if (apiKeyFromEnv) {
-            return apiKeyFromEnv;
-        }
-
-        throw new Error('Mistral API key not found. Please set it in VS Code settings or MISTRAL_API_KEY environment variable.');
-    }
-
-    public generateCppTemplate(problemTitle: string, sampleTests: TestCase[]): string {
-        const sanitizedTitle = problemTitle.replace(/[^a-zA-Z0-9\s]/g, '').replace(/\s+/g, '_');
-
-        return `#include <iostream>
+    private static readonly builtInTemplates: Record<string, string> = {
+        'default.cpp': `#include <iostream>
 using namespace std;
 
-// Problem: ${problemTitle}
-// Generated by Problem Viewer Extension
+// Problem: \${title}
+// \${url}
 
 int main() {
     ios_base::sync_with_stdio(false);
     cin.tie(NULL);
-    
-    // Your solution here
-    
+
+    \${cursor}
+
     return 0;
 }
 
 /*
 Sample Test Cases:
-${sampleTests.map((test, index) => `
-Test ${index + 1}:
-Input:
-${test.input}
-
-Expected Output:
-${test.output}
-${test.explanation ? `\nExplanation: ${test.explanation}` : ''}
-`).join('\n')}
-*/`;
-    }
-
-    public generateJavaTemplate(problemTitle: string, sampleTests: TestCase[]): string {
-        const className = problemTitle
-            .replace(/[^a-zA-Z0-9\s]/g, '')
-            .replace(/\s+/g, '_')
-            .toLowerCase()
-            .split('_')
-            .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-            .join('');
-
-        return `import java.util.*;
+\${samples}
+*/
+`,
+        'default.java': `import java.util.*;
 import java.io.*;
 
-// Problem: ${problemTitle}
-// Generated by Problem Viewer Extension
+// Problem: \${title}
+// \${url}
 
-public class ${className} {
+public class \${fileBase} {
     public static void main(String[] args) {
         Scanner sc = new Scanner(System.in);
-        
-        // Your solution here
-        
+
+        \${cursor}
+
         sc.close();
     }
 }
 
 /*
 Sample Test Cases:
-${sampleTests.map((test, index) => `
-Test ${index + 1}:
-Input:
-${test.input}
-
-Expected Output:
-${test.output}
-${test.explanation ? `\nExplanation: ${test.explanation}` : ''}
-`).join('\n')}
-*/`;
-    }
-
-    public generatePythonTemplate(problemTitle: string, sampleTests: TestCase[]): string {
-        return `#!/usr/bin/env python3
-# Problem: ${problemTitle}
-# Generated by Problem Viewer Extension
+\${samples}
+*/
+`,
+        'default.py': `#!/usr/bin/env python3
+# Problem: \${title}
+# \${url}
 
 def solve():
-    # Your solution here
+    \${cursor}
     pass
 
 if __name__ == "__main__":
@@ -114,15 +72,193 @@ if __name__ == "__main__":
 
 """
 Sample Test Cases:
-${sampleTests.map((test, index) => `
-Test ${index + 1}:
-Input:
-${test.input}
-
-Expected Output:
-${test.output}
-${test.explanation ? `\nExplanation: ${test.explanation}` : ''}
-`).join('\n')}
-"""`;
+\${samples}
+"""
+`
+    };
+
+    private static readonly scopeLabels: Record<TemplateScope, string> = {
+        workspace: 'Workspace',
+        user: 'User',
+        builtIn: 'Built-in'
+    };
+
+    private readonly languageRegistry = new LanguageRegistry(new WorkspaceLanguageSettings());
+
+    constructor(private readonly userTemplateDir: string) { }
+
+    public getWorkspaceTemplateDir(): string | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? path.join(workspaceFolder.uri.fsPath, '.codeforces', 'templates') : undefined;
+    }
+
+    /**
+     * All templates, with overridden ones left out, sorted by file name.
+     */
+    public getTemplates(): SourceTemplate[] {
+        const templates = new Map<string, SourceTemplate>();
+
+        Object.entries(TemplateGenerator.builtInTemplates).forEach(([fileName, content]) => {
+            templates.set(fileName, { fileName, extension: path.extname(fileName), scope: 'builtIn', content });
+        });
+        this.readTemplateDir(this.userTemplateDir, 'user').forEach(template => templates.set(template.fileName, template));
+        const workspaceDir = this.getWorkspaceTemplateDir();
+        if (workspaceDir) {
+            this.readTemplateDir(workspaceDir, 'workspace').forEach(template => templates.set(template.fileName, template));
+        }
+
+        return [...templates.values()].sort((a, b) => a.fileName.localeCompare(b.fileName));
+    }
+
+    public getDefaultTemplate(): SourceTemplate {
+        const fileName = vscode.workspace
+            .getConfiguration('smartCodeforcesHelper')
+            .get<string>('templates.default', TemplateGenerator.defaultTemplate);
+        const templates = this.getTemplates();
+        return templates.find(template => template.fileName === fileName)
+            ?? templates.find(template => template.fileName === TemplateGenerator.defaultTemplate)!;
+    }
+
+    /**
+     * Renders a template (the default one unless given) for a problem.
+     */
+    public render(problemData: ProblemData, fileBase: string, template: SourceTemplate = this.getDefaultTemplate()): RenderedTemplate {
+        return TemplateRenderer.render(template.content, problemData, fileBase);
     }
-}
\ No newline at end of file
+
+    /**
+     * File name (without extension) for a solution generated from a
+     * template. Java files are named after their public class, so they get
+     * a valid class name.
+     */
+    public getFileBase(problemData: ProblemData, extension: string): string {
+        const words = problemData.title.replace(/[^a-zA-Z0-9\s]/g, '').split(/\s+/).filter(word => word !== '');
+        if (extension === '.java') {
+            const className = words.map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join('');
+            return /^[A-Za-z]/.test(className) ? className : `Problem${className}`;
+        }
+        return words.join('_').toLowerCase() || 'solution';
+    }
+
+    public async pickTemplate(placeHolder: string): Promise<SourceTemplate | undefined> {
+        const defaultName = this.getDefaultTemplate().fileName;
+        const picked = await vscode.window.showQuickPick(
+            this.getTemplates().map(template => ({
+                label: template.fileName,
+                description: TemplateGenerator.scopeLabels[template.scope] + (template.fileName === defaultName ? ' · default' : ''),
+                template
+            })),
+            { placeHolder }
+        );
+        return picked?.template;
+    }
+
+    /**
+     * Creates a template file in the workspace or user template folder,
+     * starting from the built-in template for the language when there is
+     * one, and opens it.
+     */
+    public async createTemplate(): Promise<void> {
+        const workspaceDir = this.getWorkspaceTemplateDir();
+        const scopes = [
+            ...(workspaceDir ? [{ label: 'Workspace', description: '.codeforces/templates', dir: workspaceDir }] : []),
+            { label: 'User', description: 'Available in every workspace', dir: this.userTemplateDir }
+        ];
+        const scope = scopes.length === 1
+            ? scopes[0]
+            : await vscode.window.showQuickPick(scopes, { placeHolder: 'Where should the template be stored?' });
+        if (!scope) {
+            return;
+        }
+
+        const languages = new Map<string, string>();
+        this.languageRegistry.getLanguages().forEach(language => {
+            if (!languages.has(language.extensions[0])) {
+                languages.set(language.extensions[0], language.name);
+            }
+        });
+        const language = await vscode.window.showQuickPick(
+            [...languages.entries()].map(([extension, name]) => ({ label: name, description: extension, extension })),
+            { placeHolder: 'Select the template language' }
+        );
+        if (!language) {
+            return;
+        }
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Template name',
+            placeHolder: 'e.g. fast-io',
+            validateInput: value => /^[\w.-]+$/.test(value.trim()) ? undefined : 'Use letters, digits, ".", "-" and "_" only'
+        });
+        if (!name) {
+            return;
+        }
+
+        const templatePath = path.join(scope.dir, `${name.trim()}${language.extension}`);
+        if (fs.existsSync(templatePath)) {
+            vscode.window.showErrorMessage(`Template "${path.basename(templatePath)}" already exists`);
+            return;
+        }
+
+        const builtIn = TemplateGenerator.builtInTemplates[`default${language.extension}`] ?? TemplateRenderer.cursorMarker + '\n';
+        fs.mkdirSync(scope.dir, { recursive: true });
+        fs.writeFileSync(templatePath, builtIn, 'utf-8');
+        await this.openTemplate(templatePath);
+    }
+
+    /**
+     * Opens a template for editing. A built-in template is copied to the
+     * user template folder first, where it then overrides the built-in one.
+     */
+    public async editTemplate(): Promise<void> {
+        const template = await this.pickTemplate('Select the template to edit');
+        if (!template) {
+            return;
+        }
+
+        let templatePath = template.path;
+        if (!templatePath) {
+            templatePath = path.join(this.userTemplateDir, template.fileName);
+            fs.mkdirSync(this.userTemplateDir, { recursive: true });
+            fs.writeFileSync(templatePath, template.content, 'utf-8');
+        }
+        await this.openTemplate(templatePath);
+    }
+
+    public async selectDefaultTemplate(): Promise<void> {
+        const template = await this.pickTemplate('Select the template used for new solution files');
+        if (!template) {
+            return;
+        }
+
+        const target = vscode.workspace.workspaceFolders
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+        await vscode.workspace.getConfiguration('smartCodeforcesHelper').update('templates.default', template.fileName, target);
+        vscode.window.showInformationMessage(`Default template set to ${template.fileName}`);
+    }
+
+    private async openTemplate(templatePath: string): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(templatePath);
+        await vscode.window.showTextDocument(document, { preview: false });
+
+        const placeholders = Object.keys(TemplateRenderer.placeholders).map(name => `\${${name}}`).join(' ');
+        vscode.window.showInformationMessage(`Available placeholders: ${placeholders}`);
+    }
+
+    private readTemplateDir(dir: string, scope: TemplateScope): SourceTemplate[] {
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+
+        return fs.readdirSync(dir)
+            .filter(fileName => path.extname(fileName) !== '' && fs.statSync(path.join(dir, fileName)).isFile())
+            .map(fileName => ({
+                fileName,
+                extension: path.extname(fileName),
+                scope,
+                content: fs.readFileSync(path.join(dir, fileName), 'utf-8'),
+                path: path.join(dir, fileName)
+            }));
+    }
+}
@@ -0,0 +1,64 @@
+import { ProblemData, RenderedTemplate } from './Interfaces';
+
+/**
+ * Fills the `${...}` placeholders of a source template. Unknown placeholders
+ * are left as they are so templates can contain shell-style variables.
+ */
+export class TemplateRenderer {
+    public static readonly cursorMarker = '${cursor}';
+
+    public static readonly placeholders: Record<string, string> = {
+        title: 'Problem title',
+        url: 'Problem URL',
+        timeLimit: 'Time limit, e.g. "2 seconds"',
+        memoryLimit: 'Memory limit, e.g. "256 megabytes"',
+        contestId: 'Contest ID',
+        index: 'Problem index, e.g. "C"',
+        date: 'Current date (YYYY-MM-DD)',
+        samples: 'Sample tests as plain text',
+        fileBase: 'Name of the generated file without its extension',
+        cursor: 'Where the cursor is placed'
+    };
+
+    public static render(template: string, problemData: ProblemData, fileBase: string, date: Date = new Date()): RenderedTemplate {
+        const values: Record<string, string> = {
+            title: problemData.title,
+            url: problemData.url ?? '',
+            timeLimit: problemData.timeLimit,
+            memoryLimit: problemData.memoryLimit,
+            contestId: problemData.contestId !== undefined ? String(problemData.contestId) : '',
+            index: problemData.index ?? '',
+            date: TemplateRenderer.formatDate(date),
+            samples: TemplateRenderer.formatSamples(problemData),
+            fileBase
+        };
+
+        // Replaced in one pass so values containing `${...}` are not expanded again
+        const content = template.replace(/\$\{(\w+)\}/g, (placeholder, name: string) =>
+            Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+        );
+
+        const cursorOffset = content.indexOf(TemplateRenderer.cursorMarker);
+        return {
+            content: content.split(TemplateRenderer.cursorMarker).join(''),
+            cursorOffset: cursorOffset === -1 ? undefined : cursorOffset
+        };
+    }
+
+    public static formatSamples(problemData: ProblemData): string {
+        return problemData.sampleTests.map((test, i) => [
+            `Test ${i + 1}:`,
+            'Input:',
+            test.input,
+            '',
+            'Expected Output:',
+            test.output,
+            ...(test.explanation ? ['', `Explanation: ${test.explanation}`] : [])
+        ].join('\n')).join('\n\n');
+    }
+
+    private static formatDate(date: Date): string {
+        const pad = (value: number) => String(value).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+}
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ProblemData, RunnableProgram } from './Interfaces';
+import { TestCaseHandler } from './TestCaseHandler';
+
+/**
+ * Checks a generated C++ template: it has to compile and, on every sample,
+ * exit normally after reading the whole input. Output is not checked since
+ * the template's solve function is empty.
+ */
+export class TemplateVerifier {
+    private static readonly unreadInputMarker = '[unread-input]';
+
+    /**
+     * Force-included into the template. When the program exits it looks for
+     * input left in `std::cin` or in C stdio and reports the first unread
+     * token on stderr.
+     */
+    private static readonly inputCheckHeader = `#include <cctype>
+#include <cstdio>
+#include <cstdlib>
+#include <iostream>
+#include <string>
+
+namespace cf_helper_verify {
+inline void reportUnread(const std::string &message) {
+    std::fprintf(stderr, "${TemplateVerifier.unreadInputMarker} %s\\n", message.c_str());
+    std::fflush(stderr);
+    std::_Exit(86);
+}
+
+inline void checkInputConsumed() {
+    if (std::cin.fail() && !std::cin.eof()) {
+        reportUnread("Reading the input failed before its end (a value had an unexpected type or format)");
+    }
+    std::string token;
+    if (!std::cin.eof() && std::cin >> token) {
+        reportUnread("The program exited without reading all of the input; the first unread token is \\"" + token + "\\"");
+    }
+    int c;
+    while ((c = std::getchar()) != EOF) {
+        if (!std::isspace(c)) {
+            token = std::string(1, static_cast<char>(c));
+            while ((c = std::getchar()) != EOF && !std::isspace(c)) {
+                token += static_cast<char>(c);
+            }
+            reportUnread("The program exited without reading all of the input; the first unread token is \\"" + token + "\\"");
+        }
+    }
+}
+
+static const int registered = (std::atexit(checkInputConsumed), 0);
+}
+`;
+
+    constructor(private readonly testCaseHandler: TestCaseHandler) { }
+
+    /**
+     * @returns a description of the first problem found, or `undefined`
+     * when the template passes
+     */
+    public async verify(code: string, problemData: ProblemData): Promise<string | undefined> {
+        const language = this.testCaseHandler.languageRegistry.getLanguages().find(entry => entry.id === 'cpp');
+        if (!language?.compileCommand) {
+            throw new Error('No C++ compiler is configured');
+        }
+
+        const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cf-helper-verify-'));
+        const sourcePath = path.join(workDir, 'template.cpp');
+        const headerPath = path.join(workDir, 'input_check.h');
+        fs.writeFileSync(sourcePath, code, 'utf-8');
+        fs.writeFileSync(headerPath, TemplateVerifier.inputCheckHeader, 'utf-8');
+
+        const verifyLanguage = { ...language, compileCommand: `${language.compileCommand} -include "${headerPath}"` };
+        let program: RunnableProgram | undefined;
+        try {
+            try {
+                program = await this.testCaseHandler.compileSource(sourcePath, verifyLanguage);
+            } catch (error) {
+                return this.stripPaths(String(error), workDir);
+            }
+
+            const limits = this.testCaseHandler.getExecutionLimits(problemData);
+            for (let i = 0; i < problemData.sampleTests.length; i++) {
+                const testCase = problemData.sampleTests[i];
+                const result = await this.testCaseHandler.runSingleTest(program, testCase, i + 1, { type: 'exact' }, limits);
+
+                const unreadLine = (result.stderr ?? '').split('\n').find(line => line.startsWith(TemplateVerifier.unreadInputMarker));
+                if (unreadLine) {
+                    return `Sample ${i + 1}: ${unreadLine.slice(TemplateVerifier.unreadInputMarker.length).trim()}\nInput:\n${testCase.input}`;
+                }
+                // A wrong answer is expected from an empty solve function
+                if (result.verdict !== 'AC' && result.verdict !== 'WA') {
+                    return `Sample ${i + 1}: ${result.error ?? result.verdict}\nInput:\n${testCase.input}`;
+                }
+            }
+            return undefined;
+        } finally {
+            if (program) {
+                this.testCaseHandler.cleanup(program);
+            }
+            // Every candidate is built once, so its build isn't worth caching
+            this.testCaseHandler.buildCache.discard(this.testCaseHandler.buildCache.getEntryDir(sourcePath, verifyLanguage));
+            fs.rmSync(workDir, { recursive: true, force: true });
+        }
+    }
+
+    private stripPaths(message: string, workDir: string): string {
+        return message.split(workDir + path.sep).join('');
+    }
+}
@@ -1,100 +1,319 @@
 import * as vscode from 'vscode';
 import * as cp from 'child_process';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
-import { TestCase, ProblemData, TestResult } from './Interfaces';
+import {
+    TestCase, ProblemData, TestResult, LanguageConfig, RunnableProgram, CheckerConfig, InteractiveConfig,
+    ExecutionLimits, LimitVerdict, ProcessUsage, Verdict
+} from './Interfaces';
+import { LanguageRegistry } from './LanguageRegistry';
+import { WorkspaceLanguageSettings } from './WorkspaceLanguageSettings';
+import { CustomTestStore } from './CustomTestStore';
+import { ProblemSettingsStore } from './ProblemSettingsStore';
+import { OutputChecker } from './OutputChecker';
+import { InteractiveRunner } from './InteractiveRunner';
+import { ResourceLimits } from './ResourceLimits';
+import { ProcessMonitor } from './ProcessMonitor';
+import { BuildCache } from './BuildCache';
+import { SanitizerReport } from './SanitizerReport';
 
 export class TestCaseHandler {
-    async handleRunTests(problemData: ProblemData | undefined): Promise<void> {
+    languageRegistry = new LanguageRegistry(new WorkspaceLanguageSettings());
+    outputChecker = new OutputChecker();
+    interactiveRunner = new InteractiveRunner();
+    buildCache = new BuildCache(() => vscode.workspace.workspaceFolders?.[0]?.uri.fsPath);
+    /** Source file and language of the last test run */
+    lastSource: { path: string; language: LanguageConfig } | undefined;
+
+    constructor(
+        private readonly customTestStore: CustomTestStore,
+        private readonly problemSettingsStore: ProblemSettingsStore
+    ) { }
+
+    /**
+     * Runs the samples and custom tests against the active editor's source.
+     * Pass `testNumbers` to rerun only some of them; numbering follows the
+     * samples first, then the custom tests.
+     */
+    async handleRunTests(problemData: ProblemData | undefined, testNumbers?: number[]): Promise<TestResult[] | undefined> {
         if (problemData === undefined) {
             vscode.window.showErrorMessage('No problem data exisis');
             return;
         }
         try {
             const activeEditor = vscode.window.activeTextEditor;
-            if (!activeEditor || !activeEditor.document.fileName.endsWith('.cpp')) {
-                vscode.window.showErrorMessage('Please open a C++ file to run tests');
+            const language = activeEditor
+                ? this.languageRegistry.resolve(activeEditor.document.fileName, activeEditor.document.languageId)
+                : undefined;
+            if (!activeEditor || !language) {
+                const supported = this.languageRegistry.getSupportedLanguageNames().join(', ');
+                vscode.window.showErrorMessage(`Please open a source file to run tests (supported: ${supported})`);
                 return;
             }
 
-            const cppFilePath = activeEditor.document.fileName;
+            const sourceFilePath = activeEditor.document.fileName;
+            this.lastSource = { path: sourceFilePath, language };
 
             if (activeEditor.document.isDirty) {
                 await activeEditor.document.save();
             }
 
-            vscode.window.showInformationMessage('🔄 Compiling and running tests...');
+            vscode.window.showInformationMessage(`🔄 Compiling and running tests (${language.name})...`);
 
-            const executablePath = await this.compileCppFile(cppFilePath);
-            const results = await this.runTestCases(executablePath, problemData.sampleTests);
-            this.showTestResults(results);
-            this.cleanup(executablePath);
+            const program = await this.compileSource(sourceFilePath, language);
+            try {
+                const testCases: TestCase[] = [
+                    ...problemData.sampleTests.map(test => ({ ...test, kind: 'sample' as const })),
+                    ...this.customTestStore.load(problemData)
+                ];
+                const checker = this.problemSettingsStore.getChecker(problemData);
+                const interactive = this.problemSettingsStore.getInteractive(problemData);
+                const limits = this.getExecutionLimits(problemData);
+                const selected = testNumbers ? new Set(testNumbers) : undefined;
+                const results = interactive
+                    ? await this.runInteractiveTests(program, testCases, interactive, limits, selected)
+                    : await this.runTestCases(program, testCases, checker, limits, selected);
+                this.showTestSummary(results);
+                return results;
+            } finally {
+                this.cleanup(program);
+            }
 
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             vscode.window.showErrorMessage(`Test execution failed: ${errorMessage}`);
+            return undefined;
         }
     }
 
-    private async compileCppFile(cppFilePath: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            const fileName = path.basename(cppFilePath, '.cpp');
-            const executablePath = path.join(path.dirname(cppFilePath), `${fileName}.exe`);
+    /**
+     * Builds the source with the language's compile command (if it has one)
+     * and returns the command line that runs it. Builds are cached, so an
+     * unchanged source is not compiled again.
+     */
+    public async compileSource(sourceFilePath: string, language: LanguageConfig): Promise<RunnableProgram> {
+        const fileDir = path.dirname(sourceFilePath);
+        const fileBase = path.basename(sourceFilePath, path.extname(sourceFilePath));
+        const entryDir = this.buildCache.getEntryDir(sourceFilePath, language);
+        const executablePath = path.join(entryDir, `${fileBase}.exe`);
+
+        const variables: Record<string, string> = {
+            file: sourceFilePath,
+            fileDir,
+            fileBase,
+            exe: executablePath,
+            outDir: entryDir
+        };
+
+        const [command, ...args] = LanguageRegistry.splitCommand(
+            LanguageRegistry.expandCommand(language.runCommand, variables)
+        );
+        const program: RunnableProgram = {
+            command,
+            args,
+            cwd: fileDir,
+            artifacts: []
+        };
 
-            const compileCommand = `g++ -o "${executablePath}" "${cppFilePath}" -std=c++17 -O2`;
+        if (!language.compileCommand) {
+            return program;
+        }
+
+        if (this.buildCache.isBuilt(entryDir)) {
+            this.buildCache.markUsed(entryDir);
+            return program;
+        }
+
+        fs.mkdirSync(entryDir, { recursive: true });
+        let compileCommand = LanguageRegistry.expandCommand(language.compileCommand, variables);
+
+        const usePrecompiledHeader = vscode.workspace
+            .getConfiguration('smartCodeforcesHelper')
+            .get<boolean>('precompiledHeader', false);
+        if (usePrecompiledHeader && language.id === 'cpp' &&
+            /#\s*include\s*<bits\/stdc\+\+\.h>/.test(fs.readFileSync(sourceFilePath, 'utf-8'))) {
+            const pchDir = await this.buildCache.getPrecompiledHeaderDir(compileCommand, sourceFilePath);
+            if (pchDir) {
+                compileCommand += ` -I "${pchDir}"`;
+            }
+        }
 
-            cp.exec(compileCommand, (error, stdout, stderr) => {
+        return new Promise((resolve, reject) => {
+            cp.exec(compileCommand, { cwd: fileDir }, (error, stdout, stderr) => {
                 if (error) {
+                    this.buildCache.discard(entryDir);
                     reject(`Compilation failed: ${stderr || error.message}`);
                     return;
                 }
-                resolve(executablePath);
+                this.buildCache.markBuilt(entryDir);
+                resolve(program);
             });
         });
     }
 
-    private async runTestCases(executablePath: string, testCases: TestCase[]): Promise<TestResult[]> {
-        const results: TestResult[] = [];
+    private async runTestCases(
+        program: RunnableProgram,
+        testCases: TestCase[],
+        checker: CheckerConfig,
+        limits: ExecutionLimits,
+        selected?: Set<number>
+    ): Promise<TestResult[]> {
+        const tasks = testCases
+            .map((testCase, i) => ({ testCase, testNumber: i + 1 }))
+            .filter(({ testNumber }) => !selected || selected.has(testNumber))
+            .map(({ testCase, testNumber }) => async (): Promise<TestResult> => {
+                try {
+                    return await this.runSingleTest(program, testCase, testNumber, checker, limits);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    return {
+                        testNumber,
+                        passed: false,
+                        verdict: 'FAIL',
+                        input: testCase.input,
+                        expectedOutput: testCase.output,
+                        actualOutput: '',
+                        error: errorMessage,
+                        executionTime: 0,
+                        kind: testCase.kind ?? 'sample'
+                    };
+                }
+            });
 
-        for (let i = 0; i < testCases.length; i++) {
-            const testCase = testCases[i];
-            try {
-                const result = await this.runSingleTest(executablePath, testCase, i + 1);
-                results.push(result);
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : String(error);
-                results.push({
-                    testNumber: i + 1,
-                    passed: false,
-                    input: testCase.input,
-                    expectedOutput: testCase.output,
-                    actualOutput: '',
-                    error: errorMessage,
-                    executionTime: 0
-                });
+        return this.runInPool(tasks);
+    }
+
+    /**
+     * Runs the tasks with at most `smartCodeforcesHelper.parallelTests` of them
+     * at a time and returns their results in the original order.
+     */
+    private async runInPool<T>(tasks: (() => Promise<T>)[]): Promise<T[]> {
+        const configured = vscode.workspace
+            .getConfiguration('smartCodeforcesHelper')
+            .get<number>('parallelTests', 0);
+        const concurrency = configured > 0 ? configured : Math.max(1, os.cpus().length - 1);
+
+        const results: T[] = new Array(tasks.length);
+        let next = 0;
+        const worker = async () => {
+            while (next < tasks.length) {
+                const index = next++;
+                results[index] = await tasks[index]();
             }
-        }
+        };
 
+        await Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, worker));
         return results;
     }
 
-    private async runSingleTest(executablePath: string, testCase: TestCase, testNumber: number): Promise<TestResult> {
+    private async runInteractiveTests(
+        program: RunnableProgram,
+        testCases: TestCase[],
+        config: InteractiveConfig,
+        limits: ExecutionLimits,
+        selected?: Set<number>
+    ): Promise<TestResult[]> {
+        if (config.mode === 'script') {
+            if (!config.scriptPath || !fs.existsSync(config.scriptPath)) {
+                throw new Error('No scripted-responses file configured for this interactive problem');
+            }
+            // The script is numbered after the regular tests so it never shares a number with one
+            const scriptTestNumber = testCases.length + 1;
+            if (selected && !selected.has(scriptTestNumber)) {
+                return [];
+            }
+            const script = fs.readFileSync(config.scriptPath, 'utf-8');
+            const result = await this.interactiveRunner.runWithScript(
+                program, config, script, { input: script, output: '', kind: 'custom' }, scriptTestNumber, limits
+            );
+            return [result];
+        }
+
+        if (!config.interactorPath) {
+            throw new Error('No interactor configured for this interactive problem');
+        }
+
+        const interactor = await this.prepareInteractor(config.interactorPath);
+        try {
+            const tasks = testCases
+                .map((testCase, i) => ({ testCase, testNumber: i + 1 }))
+                .filter(({ testNumber }) => !selected || selected.has(testNumber))
+                .map(({ testCase, testNumber }) => () =>
+                    this.interactiveRunner.runWithInteractor(program, interactor, config, testCase, testNumber, limits)
+                );
+            return await this.runInPool(tasks);
+        } finally {
+            this.cleanup(interactor);
+        }
+    }
+
+    /**
+     * Interactors may be given as source files in any supported language or
+     * as ready-made executables.
+     */
+    private async prepareInteractor(interactorPath: string): Promise<RunnableProgram> {
+        const language = this.languageRegistry.resolve(interactorPath);
+        if (language) {
+            return this.compileSource(interactorPath, language);
+        }
+        return {
+            command: interactorPath,
+            args: [],
+            cwd: path.dirname(interactorPath),
+            artifacts: []
+        };
+    }
+
+    public async runSingleTest(
+        program: RunnableProgram,
+        testCase: TestCase,
+        testNumber: number,
+        checker: CheckerConfig = { type: 'exact' },
+        limits: ExecutionLimits = { timeLimitMs: ResourceLimits.defaultTimeLimitMs }
+    ): Promise<TestResult> {
         return new Promise((resolve) => {
             const startTime = Date.now();
+            const kind = testCase.kind ?? 'sample';
 
             console.log(`Running test ${testNumber}`);
             console.log(`Input: "${testCase.input}"`);
             console.log(`Expected Output: "${testCase.output}"`);
 
-            const process = cp.spawn(executablePath, [], {
+            const process = cp.spawn(program.command, program.args, {
+                cwd: program.cwd,
+                env: SanitizerReport.getRunEnvironment(),
                 stdio: ['pipe', 'pipe', 'pipe']
             });
 
             let stdout = '';
             let stderr = '';
+            let killedFor: LimitVerdict | undefined;
+
+            const monitor = ProcessMonitor.enforce(process, limits, (verdict) => {
+                killedFor = killedFor ?? verdict;
+            });
+
+            const finish = (verdict: Verdict, error: string | null, usage: ProcessUsage = {}) => {
+                resolve({
+                    testNumber,
+                    passed: verdict === 'AC',
+                    verdict,
+                    input: testCase.input,
+                    expectedOutput: testCase.output,
+                    actualOutput: stdout,
+                    error,
+                    executionTime: Date.now() - startTime,
+                    cpuTime: usage.cpuTime,
+                    memoryUsage: usage.peakMemoryKb,
+                    stderr,
+                    kind
+                });
+            };
 
+            // The program may exit before reading all of its input
+            process.stdin.on('error', () => { });
             process.stdin.write(testCase.input + '\n');
             process.stdin.end();
 
@@ -110,80 +329,73 @@ export class TestCaseHandler {
                 stderr += chunk;
             });
 
+            // CPU time decides TLE where it can be measured; this wall-clock cut-off
+            // also catches programs that block without using the CPU
             const timeout = setTimeout(() => {
+                killedFor = killedFor ?? 'TLE';
                 process.kill();
-                resolve({
-                    testNumber,
-                    passed: false,
-                    input: testCase.input,
-                    expectedOutput: testCase.output,
-                    actualOutput: stdout,
-                    error: 'Time Limit Exceeded',
-                    executionTime: Date.now() - startTime
-                });
-            }, 5000);
+            }, ResourceLimits.getWallTimeoutMs(limits));
+
+            process.on('error', (error) => {
+                clearTimeout(timeout);
+                finish('FAIL', `Failed to start "${program.command}": ${error.message}`, monitor.stop());
+            });
 
-            process.on('close', (code) => {
+            process.on('close', async (code, signal) => {
                 clearTimeout(timeout);
-                const executionTime = Date.now() - startTime;
+                const usage = monitor.stop();
+
+                const exceeded = ResourceLimits.getExceededLimit(usage, limits, Date.now() - startTime, killedFor);
+                if (exceeded) {
+                    finish(exceeded.verdict, exceeded.error, usage);
+                    return;
+                }
+
+                // Sanitizer builds report problems on stderr, sometimes without a failing exit code
+                const sanitizerFinding = SanitizerReport.parse(stderr);
+                if (sanitizerFinding) {
+                    finish('RE', `Runtime Error: ${SanitizerReport.format(sanitizerFinding)}`, usage);
+                    return;
+                }
 
                 if (code === null) {
-                    resolve({
-                        testNumber,
-                        passed: false,
-                        input: testCase.input,
-                        expectedOutput: testCase.output,
-                        actualOutput: stdout,
-                        error: `Process terminated unexpectedly. Program may be waiting for input or stuck in infinite loop.\nStderr: ${stderr}`,
-                        executionTime
-                    });
+                    finish('RE', `Runtime Error (Signal: ${signal})\n${stderr}`, usage);
                     return;
                 }
 
                 if (code !== 0) {
-                    resolve({
-                        testNumber,
-                        passed: false,
-                        input: testCase.input,
-                        expectedOutput: testCase.output,
-                        actualOutput: stdout,
-                        error: `Runtime Error (Exit code: ${code})\n${stderr}`,
-                        executionTime
-                    });
+                    finish('RE', `Runtime Error (Exit code: ${code})\n${stderr}`, usage);
                     return;
                 }
 
-                const passed = this.compareOutputs(stdout, testCase.output);
-
-                resolve({
-                    testNumber,
-                    passed,
-                    input: testCase.input,
-                    expectedOutput: testCase.output,
-                    actualOutput: stdout,
-                    error: passed ? null : 'Wrong Answer',
-                    executionTime
-                });
+                try {
+                    const check = await this.outputChecker.check(checker, testCase.input, stdout, testCase.output);
+                    if (check.passed) {
+                        finish('AC', null, usage);
+                    } else {
+                        finish('WA', `Wrong Answer${check.message ? `: ${check.message}` : ''}`, usage);
+                    }
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : String(error);
+                    finish('FAIL', `Checker failed: ${message}`, usage);
+                }
             });
         });
     }
 
-    private compareOutputs(actual: string, expected: string): boolean {
-        const normalizeOutput = (output: string): string => {
-            return output
-                .split('\n')                    // Split into lines
-                .map(line => line.trimEnd())    // Remove trailing spaces from each line
-                .join('\n')                     // Rejoin
-                .trim();                        // Remove leading/trailing newlines
-        };
-
-        const normalizedActual = normalizeOutput(actual);
-        const normalizedExpected = normalizeOutput(expected);
-
-        return normalizedActual === normalizedExpected;
+    /**
+     * The problem's own limits scaled by the configured multipliers.
+     */
+    public getExecutionLimits(problemData: ProblemData): ExecutionLimits {
+        const config = vscode.workspace.getConfiguration('smartCodeforcesHelper.limits');
+        return ResourceLimits.fromProblem(
+            problemData,
+            config.get<number>('timeMultiplier', 1),
+            config.get<number>('memoryMultiplier', 1)
+        );
     }
 
-    private showTestResults(results: TestResult[]): void {
+    private showTestSummary(results: TestResult[]): void {
         const passedTests = results.filter(r => r.passed).length;
         const totalTests = results.length;
 
@@ -192,41 +404,17 @@ export class TestCaseHandler {
         } else {
             vscode.window.showWarningMessage(`❌ ${passedTests}/${totalTests} tests passed`);
         }
-
-        const outputChannel = vscode.window.createOutputChannel('Test Results');
-        outputChannel.clear();
-        outputChannel.show();
-
-        outputChannel.appendLine('='.repeat(60));
-        outputChannel.appendLine(`TEST RESULTS: ${passedTests}/${totalTests} PASSED`);
-        outputChannel.appendLine('='.repeat(60));
-
-        results.forEach(result => {
-            outputChannel.appendLine(`\nTest ${result.testNumber}: ${result.passed ? '✅ PASSED' : '❌ FAILED'}`);
-            outputChannel.appendLine(`Execution Time: ${result.executionTime}ms`);
-
-            if (!result.passed) {
-                outputChannel.appendLine(`\nInput:`);
-                outputChannel.appendLine(result.input);
-                outputChannel.appendLine(`\nExpected Output:`);
-                outputChannel.appendLine(result.expectedOutput);
-                outputChannel.appendLine(`\nActual Output:`);
-                outputChannel.appendLine(result.actualOutput);
-                if (result.error) {
-                    outputChannel.appendLine(`\nError: ${result.error}`);
-                }
-                outputChannel.appendLine('-'.repeat(40));
-            }
-        });
     }
 
-    private cleanup(executablePath: string): void {
-        try {
-            if (fs.existsSync(executablePath)) {
-                fs.unlinkSync(executablePath);
+    public cleanup(program: RunnableProgram): void {
+        for (const artifact of program.artifacts) {
+            try {
+                if (fs.existsSync(artifact)) {
+                    fs.rmSync(artifact, { recursive: true, force: true });
+                }
+            } catch (error) {
+                // Ignore cleanup errors
             }
-        } catch (error) {
-            // Ignore cleanup errors
         }
     }
 
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { CodeforcesApiSubmission, ProgressProblem, SolveState, UserProgress } from './Interfaces';
+import { CodeforcesApi } from './CodeforcesApi';
+
+/**
+ * Which problems a Codeforces handle has solved or attempted, read from the
+ * public `user.status` submissions list and kept on disk until the next sync.
+ */
+export class UserProgressStore {
+    private progress: UserProgress | undefined;
+    private states: Map<string, SolveState> | undefined;
+
+    constructor(private readonly filePath: string) { }
+
+    /**
+     * The progress as last synced, or `undefined` before the first sync.
+     */
+    public get(): UserProgress | undefined {
+        if (!this.progress && fs.existsSync(this.filePath)) {
+            try {
+                this.progress = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as UserProgress;
+            } catch (error) {
+                console.warn(`Failed to read ${this.filePath}:`, error);
+            }
+        }
+        return this.progress;
+    }
+
+    public getState(contestId: number | undefined, index: string | undefined): SolveState | undefined {
+        if (contestId === undefined || !index) {
+            return undefined;
+        }
+        if (!this.states) {
+            this.states = new Map((this.get()?.problems ?? []).map(problem =>
+                [`${problem.contestId}${problem.index}`, problem.state]
+            ));
+        }
+        return this.states.get(`${contestId}${index.toUpperCase()}`);
+    }
+
+    public async sync(handle: string): Promise<UserProgress> {
+        const submissions = await CodeforcesApi.call<CodeforcesApiSubmission[]>('user.status', { handle });
+        this.progress = UserProgressStore.parse(handle, submissions, new Date().toISOString());
+        this.states = undefined;
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify(this.progress), 'utf-8');
+        return this.progress;
+    }
+
+    /**
+     * One entry per problem the handle submitted to: solved once any
+     * submission was accepted, attempted otherwise. Problems outside
+     * contests are skipped since they have no contest ID to match on.
+     */
+    public static parse(handle: string, submissions: CodeforcesApiSubmission[], syncedAt: string): UserProgress {
+        const problems = new Map<string, ProgressProblem>();
+
+        submissions.forEach(submission => {
+            const { problem } = submission;
+            const contestId = problem.contestId ?? submission.contestId;
+            if (contestId === undefined) {
+                return;
+            }
+
+            const key = `${contestId}${problem.index}`;
+            const entry: ProgressProblem = problems.get(key) ?? {
+                contestId,
+                index: problem.index,
+                name: problem.name,
+                rating: problem.rating,
+                tags: problem.tags,
+                state: 'attempted'
+            };
+            if (submission.verdict === 'OK') {
+                entry.state = 'solved';
+                entry.solvedAt = Math.min(entry.solvedAt ?? Infinity, submission.creationTimeSeconds);
+            }
+            problems.set(key, entry);
+        });
+
+        return { handle, syncedAt, problems: [...problems.values()] };
+    }
+}
@@ -0,0 +1,27 @@
+import * as vscode from 'vscode';
+
+import { LanguageConfig, LanguageSettings } from './Interfaces';
+import { CompilerProfiles } from './CompilerProfiles';
+
+/**
+ * Reads the language settings from the `smartCodeforcesHelper` configuration.
+ */
+export class WorkspaceLanguageSettings implements LanguageSettings {
+    private readonly compilerProfiles = new CompilerProfiles();
+
+    public getOverrides(): Record<string, Partial<LanguageConfig>> {
+        return vscode.workspace
+            .getConfiguration('smartCodeforcesHelper')
+            .get<Record<string, Partial<LanguageConfig>>>('languages', {});
+    }
+
+    public getPythonInterpreter(): string {
+        return vscode.workspace
+            .getConfiguration('smartCodeforcesHelper')
+            .get<string>('pythonInterpreter', 'python');
+    }
+
+    public getCppCompileCommand(): string {
+        return this.compilerProfiles.getCompileCommand();
+    }
+}
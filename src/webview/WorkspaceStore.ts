@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { ProblemData } from './Interfaces';
+
+/**
+ * Base for stores that keep one JSON file per problem under `.codeforces/`
+ * in the first workspace folder.
+ */
+export abstract class WorkspaceStore {
+    protected abstract readonly storageDir: string;
+
+    /**
+     * File name for a problem's data, shared by every per-problem store.
+     */
+    public static getProblemKey(problemData: ProblemData): string {
+        if (problemData.contestId !== undefined && problemData.index) {
+            return `${problemData.contestId}${problemData.index}`;
+        }
+        return problemData.title
+            .replace(/[^a-zA-Z0-9\s]/g, '')
+            .replace(/\s+/g, '_')
+            .toLowerCase();
+    }
+
+    protected readJson<T>(problemData: ProblemData): T | undefined {
+        const filePath = this.getStoragePath(problemData);
+        if (!filePath || !fs.existsSync(filePath)) {
+            return undefined;
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+        } catch (error) {
+            console.warn(`Failed to read ${filePath}:`, error);
+            return undefined;
+        }
+    }
+
+    protected writeJson(problemData: ProblemData, value: unknown): void {
+        const filePath = this.getStoragePath(problemData);
+        if (!filePath) {
+            throw new Error('No workspace folder is open. Please open a folder first.');
+        }
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(value, null, 2), 'utf-8');
+    }
+
+    private getStoragePath(problemData: ProblemData): string | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return undefined;
+        }
+        return path.join(
+            workspaceFolder.uri.fsPath,
+            '.codeforces',
+            this.storageDir,
+            `${WorkspaceStore.getProblemKey(problemData)}.json`
+        );
+    }
+}